@@ -0,0 +1,176 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AuditLedger } from '../audit-ledger';
+import { AlertManager, verifyAlertSignature } from '../alerting';
+import { createAirTrustPlugin } from '../index';
+import { Alert, AuditLedgerConfig, PluginContext, RiskLevel } from '../types';
+
+function makeConfig(dir: string): AuditLedgerConfig {
+  return {
+    enabled: true,
+    localPath: join(dir, 'ledger.json'),
+    forwardToGateway: false,
+    maxEntries: 100,
+  };
+}
+
+function collector(): { send: (alert: Alert) => void; alerts: Alert[] } {
+  const alerts: Alert[] = [];
+  return { send: (alert) => { alerts.push(alert); }, alerts };
+}
+
+function detect(ledger: AuditLedger, sessionId: string, blocked = false, riskLevel: RiskLevel = 'high') {
+  ledger.append({
+    action: 'injection_detected', sessionId, riskLevel,
+    consentRequired: false, dataTokenized: false, injectionDetected: true,
+    metadata: { score: 0.6, patterns: ['role_override'], blocked },
+  });
+}
+
+describe('Alerting', () => {
+  let tmpDir: string;
+  let server: Server | undefined;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+  });
+
+  afterEach(async () => {
+    if (server) await new Promise((r) => server!.close(r));
+    server = undefined;
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('default rules alert on blocked injections and repeated detections', async () => {
+    const ledger = new AuditLedger(makeConfig(tmpDir));
+    const sink = collector();
+    const manager = new AlertManager({ enabled: true, sinks: [sink] }, ledger);
+
+    detect(ledger, 's1', true, 'critical');
+    detect(ledger, 's1');
+    detect(ledger, 's2');
+    detect(ledger, 's1');
+    await manager.flush();
+
+    expect(sink.alerts.map((a) => [a.rule, a.sessionId, a.count])).toEqual([
+      ['injection_blocked', 's1', 1],
+      ['repeated_injections', 's1', 3],
+    ]);
+    expect(sink.alerts[0]).toMatchObject({
+      severity: 'critical',
+      event: 'injection_detected',
+      action: 'injection_detected',
+      sequence: 1,
+      title: 'injection_detected (critical risk) in session s1',
+    });
+    expect(sink.alerts[1].title).toBe('3× injection_detected (high risk) in session s1');
+    manager.close();
+  });
+
+  test('deduplicates repeats and rate-limits bursts', async () => {
+    const ledger = new AuditLedger(makeConfig(tmpDir));
+    const sink = collector();
+    const rules = [{ name: 'any_injection', events: ['injection_detected' as const] }];
+    const manager = new AlertManager(
+      { enabled: true, rules, sinks: [sink], dedupeWindowMs: 50, rateLimit: { maxAlerts: 3, windowMs: 60_000 } },
+      ledger
+    );
+
+    detect(ledger, 's1');
+    detect(ledger, 's1');
+    detect(ledger, 's1');
+    await new Promise((r) => setTimeout(r, 60));
+    detect(ledger, 's1');
+    detect(ledger, 's2');
+    detect(ledger, 's3');
+    await manager.flush();
+
+    expect(sink.alerts.map((a) => [a.sessionId, a.suppressed])).toEqual([['s1', 0], ['s1', 2], ['s2', 0]]);
+    expect(manager.stats()).toEqual({ sent: 3, suppressed: 2, rateLimited: 1, failed: 0 });
+  });
+
+  test('alerts on chain verification failure', async () => {
+    const config = makeConfig(tmpDir);
+    const writer = new AuditLedger(config);
+    detect(writer, 's1');
+    detect(writer, 's1');
+    writer.close();
+    const raw = JSON.parse(readFileSync(config.localPath, 'utf-8'));
+    raw.entries[0].riskLevel = 'none';
+    writeFileSync(config.localPath, JSON.stringify(raw));
+
+    const ledger = new AuditLedger(config);
+    const sink = collector();
+    const manager = new AlertManager({ enabled: true, sinks: [sink] }, ledger);
+    ledger.verify();
+    await manager.flush();
+
+    expect(sink.alerts.length).toBe(1);
+    expect(sink.alerts[0]).toMatchObject({ rule: 'chain_broken', severity: 'critical', event: 'verification_failed' });
+    expect(sink.alerts[0].title).toMatch(/^Audit chain broken at sequence 1: /);
+  });
+
+  test('webhook sink signs payloads; file sink appends JSON lines', async () => {
+    const deliveries: { body: string; headers: IncomingMessage['headers'] }[] = [];
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        deliveries.push({ body, headers: req.headers });
+        res.writeHead(deliveries.length === 1 ? 204 : 500).end();
+      });
+    });
+    const url = await new Promise<string>((resolve) => {
+      server!.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server!.address() as AddressInfo).port}`));
+    });
+
+    const ledger = new AuditLedger(makeConfig(tmpDir));
+    const alertsPath = join(tmpDir, 'alerts', 'alerts.jsonl');
+    const manager = new AlertManager(
+      {
+        enabled: true,
+        sinks: [{ type: 'webhook', url, secret: 'hook-secret' }, { type: 'file', path: alertsPath }],
+      },
+      ledger
+    );
+    detect(ledger, 's1', true);
+    detect(ledger, 's2', true);
+    await manager.flush();
+
+    expect(deliveries.length).toBe(2);
+    const { body, headers } = deliveries[0];
+    expect(JSON.parse(body)).toMatchObject({ rule: 'injection_blocked', sessionId: 's1' });
+    expect(verifyAlertSignature(body, 'hook-secret', headers['x-air-timestamp'] as string, headers['x-air-signature'] as string)).toBe(true);
+    expect(verifyAlertSignature(body, 'wrong', headers['x-air-timestamp'] as string, headers['x-air-signature'] as string)).toBe(false);
+
+    const lines = readFileSync(alertsPath, 'utf-8').trim().split('\n').map((l) => JSON.parse(l));
+    expect(lines.map((a) => a.sessionId)).toEqual(['s1', 's2']);
+    expect(manager.stats()).toMatchObject({ sent: 2, failed: 1, lastError: 'Alert webhook responded 500' });
+  });
+
+  test('plugin alerts when a critical tool call is refused', async () => {
+    const sink = collector();
+    const plugin = createAirTrustPlugin({
+      consentGate: {
+        enabled: true,
+        alwaysRequire: ['exec'],
+        neverRequire: [],
+        timeoutMs: 50,
+        riskThreshold: 'critical',
+        queuePath: join(tmpDir, 'consent-queue.json'),
+      },
+      auditLedger: makeConfig(tmpDir),
+      alerting: { enabled: true, sinks: [sink] },
+    });
+    const ctx: PluginContext = { sessionId: 's1', sendMessage: jest.fn().mockResolvedValue(undefined) };
+
+    await plugin.beforeToolCall({ toolName: 'exec', args: {}, sessionId: 's1', timestamp: new Date().toISOString() }, ctx);
+    await new Promise((r) => setImmediate(r));
+
+    expect(sink.alerts.map((a) => [a.rule, a.action, a.toolName])).toEqual([['consent_denied', 'consent_timeout', 'exec']]);
+    expect(plugin.getAlertStats()).toMatchObject({ sent: 1 });
+  });
+});
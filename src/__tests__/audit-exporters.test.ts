@@ -0,0 +1,107 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Readable } from 'stream';
+import { AuditLedger } from '../audit-ledger';
+import { AuditExportStream, createExporter } from '../audit-exporters';
+import { AuditEntry, AuditLedgerConfig } from '../types';
+
+function makeConfig(dir: string): AuditLedgerConfig {
+  return {
+    enabled: true,
+    localPath: join(dir, 'ledger.json'),
+    forwardToGateway: false,
+    maxEntries: 100,
+  };
+}
+
+describe('audit exporters', () => {
+  let tmpDir: string;
+  let entries: AuditEntry[];
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+    const ledger = new AuditLedger(makeConfig(tmpDir));
+    ledger.append({
+      action: 'tool_call', toolName: 'exec', riskLevel: 'critical', sessionId: 's1',
+      consentRequired: true, consentGranted: true, dataTokenized: false, injectionDetected: false,
+      metadata: { command: 'echo "a,b"\nrm -rf /tmp/x' },
+    });
+    ledger.append({
+      action: 'injection_detected', riskLevel: 'high',
+      consentRequired: false, dataTokenized: false, injectionDetected: true,
+      metadata: { patterns: ['a=b|c\\d'] },
+    });
+    entries = ledger.export();
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('jsonl round-trips entries', () => {
+    const lines = createExporter('jsonl').serialize(entries).trim().split('\n');
+    expect(lines.map((l) => JSON.parse(l))).toEqual(JSON.parse(JSON.stringify(entries)));
+  });
+
+  test('csv quotes cells with separators, quotes and newlines', () => {
+    const output = createExporter('csv').serialize(entries);
+    const [header, first] = output.split('\r\n');
+
+    expect(header.split(',')).toContain('riskLevel');
+    expect(first.startsWith('1,')).toBe(true);
+    expect(output).toContain('"{""command"":""echo \\""a,b\\""\\nrm -rf /tmp/x""}"');
+    expect(output.endsWith('\r\n')).toBe(true);
+  });
+
+  test('syslog messages carry CEF payloads with mapped severity', () => {
+    const exporter = createExporter('syslog', { hostname: 'agent-host', facility: 13 });
+    const [first, second] = exporter.serialize(entries).trim().split('\n');
+
+    // facility 13 * 8 + severity 2 (critical)
+    expect(first).toMatch(/^<106>1 \S+ agent-host openclaw-air-trust - tool_call - CEF:0\|AIR Blackbox\|/);
+    expect(first).toContain('|tool_call|tool_call exec|10|');
+    expect(first).toContain(`cs4=${entries[0].hash}`);
+    expect(first).toContain('airConsentGranted=true');
+    expect(second).toMatch(/^<107>1 /);
+    expect(second).toContain('airInjectionDetected=true');
+  });
+
+  test('CEF escapes header and extension values', () => {
+    const exporter = createExporter('syslog');
+    const line = exporter.record({ ...entries[0], toolName: 'a|b', sessionId: 'x=y\nz' });
+
+    expect(line).toContain('|tool_call a\\|b|');
+    expect(line).toContain('cs2=x\\=y\\nz');
+    expect(line.split('\n').length).toBe(2);
+  });
+
+  test('otlp maps entries to log records with chain attributes', () => {
+    const doc = JSON.parse(createExporter('otlp').serialize(entries));
+    const records = doc.resourceLogs[0].scopeLogs[0].logRecords;
+    const attrs = Object.fromEntries(
+      records[0].attributes.map((a: { key: string; value: unknown }) => [a.key, a.value])
+    );
+
+    expect(records.length).toBe(2);
+    expect(records[0].severityNumber).toBe(21);
+    expect(records[0].timeUnixNano).toBe(`${Date.parse(entries[0].timestamp)}000000`);
+    expect(attrs['gen_ai.tool.name']).toEqual({ stringValue: 'exec' });
+    expect(attrs['air.consent.granted']).toEqual({ boolValue: true });
+    expect(attrs['air.chain.sequence']).toEqual({ intValue: '1' });
+    expect(attrs['air.chain.signature']).toEqual({ stringValue: entries[0].signature });
+    expect(attrs['session.id']).toEqual({ stringValue: 's1' });
+  });
+
+  test('stream emits the header once, then one record per entry', async () => {
+    const stream = Readable.from(entries).pipe(new AuditExportStream(createExporter('csv')));
+    let output = '';
+    for await (const chunk of stream) output += chunk;
+
+    expect(output).toBe(createExporter('csv').serialize(entries));
+  });
+
+  test('rejects unknown formats', () => {
+    expect(() => createExporter('xml' as never)).toThrow('Unknown export format "xml"');
+  });
+});
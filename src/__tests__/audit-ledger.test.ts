@@ -1,7 +1,9 @@
-import { mkdtempSync, rmSync } from 'fs';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
-import { AuditLedger } from '../audit-ledger';
+import { createHash, createHmac, generateKeyPairSync, randomBytes } from 'crypto';
+import { AuditLedger, computeEntryHash, verifyArchive, verifyAuditChain } from '../audit-ledger';
+import { keyIdFor } from '../ledger-signer';
 import { AuditLedgerConfig } from '../types';
 
 function makeConfig(dir: string): AuditLedgerConfig {
@@ -165,4 +167,553 @@ describe('AuditLedger', () => {
     expect(all.length).toBe(5);
     expect(all[0].action).toBe('action_5');
   });
+
+  test('jsonl storage persists and reloads chain from segments', () => {
+    const config = { ...makeConfig(tmpDir), storage: 'jsonl' as const, segmentMaxBytes: 512 };
+    const ledger1 = new AuditLedger(config);
+    for (let i = 0; i < 5; i++) {
+      ledger1.append({
+        action: `action_${i}`, riskLevel: 'low',
+        consentRequired: false, dataTokenized: false, injectionDetected: false,
+      });
+    }
+    ledger1.close();
+
+    const ledger2 = new AuditLedger(config);
+    const next = ledger2.append({
+      action: 'after_restart', riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+    expect(next.sequence).toBe(6);
+    expect(ledger2.export().length).toBe(6);
+    expect(ledger2.verify().valid).toBe(true);
+    ledger2.close();
+  });
+
+  test('verify anchors a trimmed chain to its checkpoint', () => {
+    const config = makeConfig(tmpDir);
+    config.maxEntries = 5;
+    const ledger = new AuditLedger(config);
+    for (let i = 0; i < 10; i++) {
+      ledger.append({
+        action: `action_${i}`, riskLevel: 'low',
+        consentRequired: false, dataTokenized: false, injectionDetected: false,
+      });
+    }
+
+    const result = ledger.verify();
+    expect(result.valid).toBe(true);
+    expect(result.verifiedFrom).toBe(6);
+    expect(result.verifiedTo).toBe(10);
+    expect(result.checkpoint?.sequence).toBe(5);
+    expect(result.checkpoint?.hash).toBe(ledger.export()[0].prevHash);
+  });
+
+  test('a full window is trimmed in batches with one checkpoint each', () => {
+    const config = makeConfig(tmpDir);
+    config.maxEntries = 20;
+    const ledger = new AuditLedger(config);
+    for (let i = 0; i < 40; i++) {
+      ledger.append({
+        action: `action_${i}`, riskLevel: 'low',
+        consentRequired: false, dataTokenized: false, injectionDetected: false,
+      });
+    }
+
+    // Over 20 entries at sequences 21, 24, …, 39, each time trimmed to 18
+    expect(ledger.getCheckpoints().map((cp) => cp.sequence)).toEqual([3, 6, 9, 12, 15, 18, 21]);
+    expect(ledger.export().length).toBe(19);
+    expect(ledger.verify()).toMatchObject({ valid: true, verifiedFrom: 22, verifiedTo: 40 });
+    expect(new AuditLedger(config).verify().valid).toBe(true);
+  });
+
+  test('checkpoints survive a restart', () => {
+    const config = makeConfig(tmpDir);
+    config.maxEntries = 3;
+    const ledger1 = new AuditLedger(config);
+    for (let i = 0; i < 6; i++) {
+      ledger1.append({
+        action: `action_${i}`, riskLevel: 'low',
+        consentRequired: false, dataTokenized: false, injectionDetected: false,
+      });
+    }
+
+    const ledger2 = new AuditLedger(config);
+    expect(ledger2.verify().valid).toBe(true);
+    expect(ledger2.getCheckpoints().length).toBeGreaterThan(0);
+  });
+
+  test('verify rejects a forged checkpoint', () => {
+    const config = makeConfig(tmpDir);
+    config.maxEntries = 3;
+    const ledger1 = new AuditLedger(config);
+    for (let i = 0; i < 6; i++) {
+      ledger1.append({
+        action: `action_${i}`, riskLevel: 'low',
+        consentRequired: false, dataTokenized: false, injectionDetected: false,
+      });
+    }
+
+    const data = JSON.parse(readFileSync(config.localPath, 'utf-8'));
+    for (const cp of data.checkpoints) cp.count = 1;
+    writeFileSync(config.localPath, JSON.stringify(data));
+
+    const result = new AuditLedger(config).verify();
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('Checkpoint signature mismatch');
+  });
+
+  test('ed25519 entries carry key ID and public key', () => {
+    const ledger = new AuditLedger({ ...makeConfig(tmpDir), signing: 'ed25519' });
+    const entry = ledger.append({
+      action: 'signed', riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+
+    expect(entry.signatureAlgorithm).toBe('ed25519');
+    expect(entry.keyId).toBe(ledger.getPublicKey()?.keyId);
+    expect(entry.publicKey).toBeTruthy();
+    expect(ledger.verify().valid).toBe(true);
+  });
+
+  test('ed25519 chain verifies offline with only the public key', () => {
+    const config = { ...makeConfig(tmpDir), signing: 'ed25519' as const, maxEntries: 3 };
+    const ledger = new AuditLedger(config);
+    for (let i = 0; i < 5; i++) {
+      ledger.append({
+        action: `action_${i}`, riskLevel: 'low',
+        consentRequired: false, dataTokenized: false, injectionDetected: false,
+      });
+    }
+    const { publicKey } = ledger.getPublicKey()!;
+    expect(publicKey).toContain('BEGIN PUBLIC KEY');
+
+    const result = verifyAuditChain(ledger.export(), {
+      publicKey,
+      checkpoints: ledger.getCheckpoints(),
+    });
+    expect(result.valid).toBe(true);
+    expect(result.verifiedFrom).toBe(3);
+  });
+
+  test('offline verification rejects tampered entries and untrusted keys', () => {
+    const ledger = new AuditLedger({ ...makeConfig(tmpDir), signing: 'ed25519' });
+    for (let i = 0; i < 3; i++) {
+      ledger.append({
+        action: `action_${i}`, riskLevel: 'low',
+        consentRequired: false, dataTokenized: false, injectionDetected: false,
+      });
+    }
+    const { publicKey } = ledger.getPublicKey()!;
+
+    const tampered = ledger.export().map((e) => ({ ...e }));
+    tampered[1].action = 'forged';
+    expect(verifyAuditChain(tampered, { publicKey }).reason).toContain('Content hash mismatch');
+
+    const other = generateKeyPairSync('ed25519').publicKey;
+    const result = verifyAuditChain(ledger.export(), { publicKey: other });
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('No trusted ed25519 key');
+  });
+
+  test('HMAC chains cannot be verified with a public key alone', () => {
+    const ledger = new AuditLedger(makeConfig(tmpDir));
+    ledger.append({
+      action: 'hmac', riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+
+    expect(ledger.getPublicKey()).toBeUndefined();
+    const other = generateKeyPairSync('ed25519').publicKey;
+    expect(verifyAuditChain(ledger.export(), { publicKey: other }).valid).toBe(false);
+  });
+
+  test('rotateKey appends a rotation entry signed with the outgoing key', () => {
+    const config = makeConfig(tmpDir);
+    const ledger = new AuditLedger(config);
+    const before = ledger.append({
+      action: 'before', riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+    const rotation = ledger.rotateKey();
+    const after = ledger.append({
+      action: 'after', riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+
+    expect(rotation.action).toBe('key_rotated');
+    expect(rotation.keyId).toBe(before.keyId);
+    expect(rotation.metadata.previousKeyId).toBe(before.keyId);
+    expect(rotation.metadata.newKeyId).toBe(after.keyId);
+    expect(after.keyId).not.toBe(before.keyId);
+    expect(ledger.verify().valid).toBe(true);
+
+    const keys = new AuditLedger(config).listKeys();
+    expect(keys.length).toBe(2);
+    expect(keys.find((k) => k.keyId === before.keyId)?.retiredAtSequence).toBe(rotation.sequence);
+    expect(keys.find((k) => k.active)?.keyId).toBe(after.keyId);
+  });
+
+  test('verify flags entries signed with a retired key', () => {
+    const config = makeConfig(tmpDir);
+    const ledger = new AuditLedger(config);
+    const rotation = ledger.rotateKey();
+
+    // Simulate a leaked old key being used to sign after its retirement
+    const ringPath = join(tmpDir, 'ledger.keyring.json');
+    const ring = JSON.parse(readFileSync(ringPath, 'utf-8'));
+    ring.activeKeyId = rotation.metadata.previousKeyId;
+    writeFileSync(ringPath, JSON.stringify(ring));
+
+    const reopened = new AuditLedger(config);
+    reopened.append({
+      action: 'forged', riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+
+    const result = reopened.verify();
+    expect(result.valid).toBe(false);
+    expect(result.brokenAtSequence).toBe(rotation.sequence + 1);
+    expect(result.reason).toContain(`retired at sequence ${rotation.sequence}`);
+  });
+
+  test('imports a pre-rotation HMAC key into the key ring', () => {
+    const secret = randomBytes(32);
+    writeFileSync(join(tmpDir, 'ledger.key'), secret.toString('hex'));
+
+    const ledger = new AuditLedger(makeConfig(tmpDir));
+    const entry = ledger.append({
+      action: 'legacy_key', riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+    expect(entry.keyId).toBe(keyIdFor(secret));
+    expect(ledger.listKeys().length).toBe(1);
+  });
+
+  test('offline verification follows ed25519 rotations from the first key', () => {
+    const ledger = new AuditLedger({ ...makeConfig(tmpDir), signing: 'ed25519' });
+    const { publicKey } = ledger.getPublicKey()!;
+    ledger.append({
+      action: 'first', riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+    ledger.rotateKey();
+    ledger.append({
+      action: 'second', riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+
+    expect(verifyAuditChain(ledger.export(), { publicKey }).valid).toBe(true);
+  });
+
+  test('switching signing scheme rotates the key', () => {
+    const config = makeConfig(tmpDir);
+    new AuditLedger(config).append({
+      action: 'hmac', riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+
+    const ledger = new AuditLedger({ ...config, signing: 'ed25519' });
+    const [, rotation] = ledger.export();
+    expect(rotation.action).toBe('key_rotated');
+    expect(rotation.signatureAlgorithm).toBe('hmac-sha256');
+    expect(rotation.metadata.algorithm).toBe('ed25519');
+    expect(ledger.verify().valid).toBe(true);
+  });
+
+  test('new entries use canonical hashing', () => {
+    const ledger = new AuditLedger(makeConfig(tmpDir));
+    const a = ledger.append({
+      action: 'same', riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+      metadata: { b: 2, a: 1 },
+    });
+    expect(a.hashVersion).toBe(2);
+
+    const reordered = { ...a, metadata: { a: 1, b: 2 } };
+    expect(computeEntryHash(reordered)).toBe(a.hash);
+  });
+
+  test('non-JSON metadata hashes the same after a reload', () => {
+    const config = makeConfig(tmpDir);
+    const ledger1 = new AuditLedger(config);
+    const entry = ledger1.append({
+      action: 'typed_metadata', riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+      metadata: { at: new Date(), bytes: BigInt(42), missing: undefined },
+    });
+    expect(entry.metadata.bytes).toBe('42');
+
+    const ledger2 = new AuditLedger(config);
+    expect(ledger2.verify().valid).toBe(true);
+  });
+
+  test('verifies legacy entries without hashVersion', () => {
+    const secret = randomBytes(32);
+    writeFileSync(join(tmpDir, 'ledger.key'), secret.toString('hex'));
+
+    const legacy: Record<string, unknown> = {
+      id: 'legacy-1',
+      sequence: 1,
+      prevHash: '0'.repeat(64),
+      timestamp: new Date().toISOString(),
+      action: 'legacy',
+      riskLevel: 'low',
+      consentRequired: false,
+      dataTokenized: false,
+      injectionDetected: false,
+      metadata: { sessionId: 's1' },
+    };
+    legacy.hash = createHash('sha256').update(JSON.stringify({
+      id: legacy.id, sequence: legacy.sequence, timestamp: legacy.timestamp,
+      action: legacy.action, toolName: undefined, riskLevel: legacy.riskLevel,
+      consentRequired: legacy.consentRequired, consentGranted: undefined,
+      dataTokenized: legacy.dataTokenized, injectionDetected: legacy.injectionDetected,
+      metadata: legacy.metadata,
+    })).digest('hex');
+    legacy.signature = createHmac('sha256', secret)
+      .update(`1|legacy-1|${legacy.hash}|${legacy.prevHash}`)
+      .digest('hex');
+    writeFileSync(join(tmpDir, 'ledger.json'), JSON.stringify({
+      entries: [legacy], sequence: 1, lastHash: legacy.hash,
+    }));
+
+    const ledger = new AuditLedger(makeConfig(tmpDir));
+    ledger.append({
+      action: 'modern', riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+    expect(ledger.verify().valid).toBe(true);
+  });
+
+  test('query filters by session, tool, risk and flags', () => {
+    const ledger = new AuditLedger(makeConfig(tmpDir));
+    const base = { consentRequired: false, dataTokenized: false, injectionDetected: false };
+    ledger.append({ ...base, action: 'tool_call', toolName: 'read', riskLevel: 'low', sessionId: 'a' });
+    ledger.append({ ...base, action: 'tool_call', toolName: 'exec', riskLevel: 'critical', sessionId: 'b' });
+    ledger.append({ ...base, action: 'injection_detected', riskLevel: 'high', sessionId: 'a', injectionDetected: true });
+    // Entries written before sessionId was a top-level field
+    ledger.append({ ...base, action: 'llm_output', riskLevel: 'none', metadata: { sessionId: 'a' } });
+
+    expect(ledger.query({ sessionId: 'a' }).entries.map((e) => e.sequence)).toEqual([1, 3, 4]);
+    expect(ledger.query({ toolName: ['exec', 'read'] }).entries.length).toBe(2);
+    expect(ledger.query({ minRiskLevel: 'high' }).entries.map((e) => e.sequence)).toEqual([2, 3]);
+    expect(ledger.query({ maxRiskLevel: 'low' }).entries.map((e) => e.sequence)).toEqual([1, 4]);
+    expect(ledger.query({ injectionDetected: true }).entries[0].action).toBe('injection_detected');
+    expect(ledger.query({ fromSequence: 2, toSequence: 3 }).entries.length).toBe(2);
+    expect(ledger.query({ until: new Date(0) }).entries).toEqual([]);
+  });
+
+  test('query pages through results with a cursor', () => {
+    const ledger = new AuditLedger(makeConfig(tmpDir));
+    for (let i = 0; i < 5; i++) {
+      ledger.append({
+        action: 'test', riskLevel: 'low',
+        consentRequired: false, dataTokenized: false, injectionDetected: false,
+      });
+    }
+
+    const first = ledger.query({ limit: 2 });
+    expect(first.entries.map((e) => e.sequence)).toEqual([1, 2]);
+    const second = ledger.query({ limit: 2, cursor: first.nextCursor });
+    expect(second.entries.map((e) => e.sequence)).toEqual([3, 4]);
+    const last = ledger.query({ limit: 2, cursor: second.nextCursor });
+    expect(last.entries.map((e) => e.sequence)).toEqual([5]);
+    expect(last.nextCursor).toBeUndefined();
+
+    expect(() => ledger.query({ cursor: 'not-a-cursor' })).toThrow('Invalid audit query cursor');
+  });
+
+  test('jsonl query reaches entries trimmed from memory', () => {
+    const ledger = new AuditLedger({ ...makeConfig(tmpDir), storage: 'jsonl', maxEntries: 2 });
+    for (let i = 0; i < 6; i++) {
+      ledger.append({
+        action: i % 2 ? 'odd' : 'even', riskLevel: 'low',
+        consentRequired: false, dataTokenized: false, injectionDetected: false,
+      });
+    }
+
+    expect(ledger.export().length).toBe(2);
+    expect(ledger.query({ action: 'even' }).entries.map((e) => e.sequence)).toEqual([1, 3, 5]);
+    ledger.close();
+  });
+
+  test('encrypts the JSON ledger at rest and verifies after reload', () => {
+    const config = { ...makeConfig(tmpDir), encryption: {} };
+    const ledger = new AuditLedger(config);
+    ledger.append({
+      action: 'tool_call', toolName: 'deploy_prod', riskLevel: 'high', sessionId: 'secret-session',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+
+    const raw = readFileSync(join(tmpDir, 'ledger.json'), 'utf-8');
+    expect(JSON.parse(raw).enc).toBe('aes-256-gcm');
+    expect(raw).not.toContain('deploy_prod');
+    expect(raw).not.toContain('secret-session');
+
+    const reloaded = new AuditLedger(config);
+    expect(reloaded.export()[0].toolName).toBe('deploy_prod');
+    expect(reloaded.export()[0].hash).toBe(ledger.export()[0].hash);
+    expect(reloaded.verify().valid).toBe(true);
+  });
+
+  test('encrypts each JSONL line with a key from the environment', () => {
+    process.env.AIR_TEST_LEDGER_KEY = randomBytes(32).toString('base64');
+    try {
+      const config = { ...makeConfig(tmpDir), storage: 'jsonl' as const, encryption: { keyEnv: 'AIR_TEST_LEDGER_KEY' } };
+      const ledger = new AuditLedger(config);
+      for (let i = 0; i < 3; i++) {
+        ledger.append({
+          action: 'tool_call', toolName: 'exec', riskLevel: 'low',
+          consentRequired: false, dataTokenized: false, injectionDetected: false,
+        });
+      }
+      ledger.close();
+
+      const segmentsDir = join(tmpDir, 'ledger.segments');
+      const segment = readdirSync(segmentsDir).find((f) => f.endsWith('.jsonl'))!;
+      const lines = readFileSync(join(segmentsDir, segment), 'utf-8').trim().split('\n');
+      expect(lines.length).toBe(3);
+      expect(lines.every((l) => JSON.parse(l).enc === 'aes-256-gcm')).toBe(true);
+
+      const reloaded = new AuditLedger(config);
+      expect(reloaded.export().map((e) => e.sequence)).toEqual([1, 2, 3]);
+      expect(reloaded.verify().valid).toBe(true);
+      reloaded.close();
+    } finally {
+      delete process.env.AIR_TEST_LEDGER_KEY;
+    }
+  });
+
+  test('refuses to open an encrypted ledger without the right key', () => {
+    new AuditLedger({ ...makeConfig(tmpDir), encryption: {} }).append({
+      action: 'test', riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+    const before = readFileSync(join(tmpDir, 'ledger.json'), 'utf-8');
+
+    expect(() => new AuditLedger(makeConfig(tmpDir))).toThrow('encrypted at rest');
+    const wrongKey = join(tmpDir, 'other.key');
+    writeFileSync(wrongKey, randomBytes(32).toString('hex'));
+    expect(() => new AuditLedger({ ...makeConfig(tmpDir), encryption: { keyFile: wrongKey } }))
+      .toThrow('was encrypted with key');
+    // Never mistaken for corruption and overwritten
+    expect(readFileSync(join(tmpDir, 'ledger.json'), 'utf-8')).toBe(before);
+  });
+
+  function appendMany(ledger: AuditLedger, count: number): void {
+    for (let i = 0; i < count; i++) {
+      ledger.append({
+        action: 'tool_call', toolName: 'exec', riskLevel: 'low',
+        consentRequired: false, dataTokenized: false, injectionDetected: false,
+      });
+    }
+  }
+
+  test('retention moves old entries into a sealed archive', () => {
+    const config = { ...makeConfig(tmpDir), retention: { maxLiveEntries: 4 } };
+    const ledger = new AuditLedger(config);
+    appendMany(ledger, 10);
+
+    const { archived } = ledger.applyRetention();
+    expect(archived).toMatchObject({ firstSequence: 1, lastSequence: 6, count: 6, sealSequence: 11 });
+    expect(existsSync(join(tmpDir, 'ledger.archives', archived!.file))).toBe(true);
+
+    const live = ledger.export();
+    expect(live.map((e) => e.sequence)).toEqual([7, 8, 9, 10, 11]);
+    expect(live[4].action).toBe('archive_sealed');
+    expect(live[4].metadata.sha256).toBe(archived!.sha256);
+
+    const verification = new AuditLedger(config).verify();
+    expect(verification.valid).toBe(true);
+    expect(verification.checkpoint).toMatchObject({ sequence: 6, reason: 'archive' });
+    expect(ledger.verifyArchive(archived!.file)).toMatchObject({ valid: true, totalEntries: 6 });
+
+    // Nothing further is due
+    expect(ledger.applyRetention().archived).toBeUndefined();
+  });
+
+  test('queries, timelines and call traces include archived entries', () => {
+    const ledger = new AuditLedger({ ...makeConfig(tmpDir), retention: { maxLiveEntries: 2 } });
+    ledger.append({
+      action: 'tool_call', toolName: 'deploy', sessionId: 'old-session', callId: 'call-1', riskLevel: 'high',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+    appendMany(ledger, 4);
+    const { archived } = ledger.applyRetention();
+    expect(archived).toMatchObject({ firstSequence: 1, lastSequence: 3 });
+
+    expect(ledger.query({ toolName: 'deploy' }).entries.map((e) => e.sequence)).toEqual([1]);
+    expect(ledger.query({ limit: 100 }).entries.map((e) => e.sequence)).toEqual([1, 2, 3, 4, 5, 6]);
+    const firstPage = ledger.query({ limit: 2 });
+    expect(ledger.query({ limit: 4, cursor: firstPage.nextCursor }).entries.map((e) => e.sequence)).toEqual([3, 4, 5, 6]);
+    expect(ledger.getSessionTimeline('old-session').events).toHaveLength(1);
+    expect(ledger.getCallTrace('call-1')).toMatchObject({ toolName: 'deploy', status: 'in_progress' });
+    ledger.close();
+  });
+
+  test('archives verify offline and detect tampering', () => {
+    const ledger = new AuditLedger({ ...makeConfig(tmpDir), signing: 'ed25519', retention: { archiveAfterMs: 60_000 } });
+    appendMany(ledger, 3);
+    const { archived } = ledger.applyRetention(new Date(Date.now() + 120_000));
+    const path = join(tmpDir, 'ledger.archives', archived!.file);
+    const publicKey = ledger.getPublicKey()!.publicKey;
+
+    expect(verifyArchive(path, { publicKey }).valid).toBe(true);
+
+    const sealPath = path + '.seal.json';
+    const seal = JSON.parse(readFileSync(sealPath, 'utf-8'));
+    writeFileSync(sealPath, JSON.stringify({ ...seal, metadata: { ...seal.metadata, count: 2 } }));
+    expect(verifyArchive(path, { publicKey }).reason).toMatch(/^Archive seal: Content hash mismatch/);
+    writeFileSync(sealPath, JSON.stringify(seal));
+
+    const bytes = readFileSync(path);
+    bytes[bytes.length - 12] ^= 0xff;
+    writeFileSync(path, bytes);
+    expect(verifyArchive(path, { publicKey }).reason).toBe('Archive digest does not match its seal');
+  });
+
+  test('purging expired archives logs a disposal entry', () => {
+    const ledger = new AuditLedger({
+      ...makeConfig(tmpDir),
+      retention: { maxLiveEntries: 0, archiveRetentionMs: 60_000 },
+    });
+    appendMany(ledger, 3);
+    const { archived } = ledger.applyRetention();
+    expect(ledger.purgeArchives()).toEqual([]);
+
+    const purged = ledger.purgeArchives(new Date(Date.now() + 120_000));
+    expect(purged.map((a) => a.file)).toEqual([archived!.file]);
+    expect(ledger.listArchives()).toEqual([]);
+    expect(existsSync(join(tmpDir, 'ledger.archives', archived!.file))).toBe(false);
+
+    const disposal = ledger.export().at(-1)!;
+    expect(disposal.action).toBe('archive_disposed');
+    expect(disposal.metadata).toMatchObject({ file: archived!.file, sha256: archived!.sha256, reason: 'retention' });
+    expect(ledger.verify().valid).toBe(true);
+  });
+
+  test('jsonl retention archives whole closed segments', () => {
+    const config = {
+      ...makeConfig(tmpDir),
+      storage: 'jsonl' as const,
+      segmentMaxBytes: 2000,
+      retention: { maxLiveEntries: 5 },
+    };
+    const ledger = new AuditLedger(config);
+    appendMany(ledger, 12);
+
+    const { archived } = ledger.applyRetention();
+    expect(archived!.firstSequence).toBe(1);
+    expect(archived!.lastSequence).toBeLessThanOrEqual(7);
+    expect(ledger.verifyArchive(archived!.file).valid).toBe(true);
+    ledger.close();
+
+    const reloaded = new AuditLedger(config);
+    expect(reloaded.export()[0].sequence).toBe(archived!.lastSequence + 1);
+    // Queries still reach the archived entries
+    expect(reloaded.query({ limit: 1 }).entries[0].sequence).toBe(1);
+    expect(reloaded.verify().valid).toBe(true);
+    reloaded.close();
+  });
 });
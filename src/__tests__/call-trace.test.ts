@@ -0,0 +1,92 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createAirTrustPlugin, AirTrustPlugin } from '../index';
+import { PluginContext } from '../types';
+
+describe('Call tracing', () => {
+  let tmpDir: string;
+  let plugin: AirTrustPlugin;
+  let ctx: PluginContext;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+    plugin = createAirTrustPlugin({
+      consentGate: {
+        enabled: true,
+        alwaysRequire: ['deploy'],
+        neverRequire: [],
+        timeoutMs: 100,
+        riskThreshold: 'critical',
+        queuePath: join(tmpDir, 'consent-queue.json'),
+      },
+      auditLedger: {
+        enabled: true,
+        localPath: join(tmpDir, 'ledger.json'),
+        forwardToGateway: false,
+        maxEntries: 100,
+      },
+      vault: {
+        enabled: false,
+        categories: [],
+        customPatterns: [],
+        forwardToGateway: false,
+        ttlMs: 60_000,
+      },
+    });
+    ctx = { sessionId: 's1', sendMessage: jest.fn().mockResolvedValue(undefined) };
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const now = () => new Date().toISOString();
+
+  test('links consent, call and result under the host callId', async () => {
+    const pending = plugin.beforeToolCall(
+      { toolName: 'deploy', args: { env: 'prod' }, sessionId: 's1', callId: 'call-1', timestamp: now() },
+      ctx
+    );
+    await new Promise((r) => setTimeout(r, 20));
+    const message = (ctx.sendMessage as jest.Mock).mock.calls[0][0] as string;
+    plugin.handleConsentResponse(message.match(/approve\s+([a-f0-9-]+)/)![1], true);
+    expect(await pending).toMatchObject({ blocked: false, callId: 'call-1' });
+
+    await plugin.afterToolCall({
+      toolName: 'deploy', args: {}, result: 'ok', durationMs: 5, sessionId: 's1', callId: 'call-1', timestamp: now(),
+    });
+
+    const trace = plugin.getCallTrace('call-1')!;
+    expect(trace.status).toBe('completed');
+    expect(trace.entries.map((e) => e.action)).toEqual(['consent_approved', 'tool_call', 'tool_result']);
+    expect(trace.consent?.consentGranted).toBe(true);
+    expect(trace.result?.metadata.durationMs).toBe(5);
+    expect(plugin.queryAudit({ callId: 'call-1' }).entries.length).toBe(3);
+  });
+
+  test('generates a callId and matches results that arrive without one', async () => {
+    const first = await plugin.beforeToolCall({ toolName: 'search', args: {}, sessionId: 's1', timestamp: now() }, ctx);
+    const second = await plugin.beforeToolCall({ toolName: 'search', args: {}, sessionId: 's1', timestamp: now() }, ctx);
+    expect(first.callId).toBeTruthy();
+    expect(second.callId).not.toBe(first.callId);
+
+    const result = { toolName: 'search', args: {}, result: [], durationMs: 1, sessionId: 's1', timestamp: now() };
+    await plugin.afterToolCall(result);
+    await plugin.afterToolCall(result);
+
+    expect(plugin.getCallTrace(first.callId!)?.entries.map((e) => e.sequence)).toEqual([1, 3]);
+    expect(plugin.getCallTrace(second.callId!)?.entries.map((e) => e.sequence)).toEqual([2, 4]);
+  });
+
+  test('reports a call refused at the consent gate as blocked', async () => {
+    const result = await plugin.beforeToolCall({ toolName: 'deploy', args: {}, sessionId: 's1', timestamp: now() }, ctx);
+    expect(result.blocked).toBe(true);
+
+    const trace = plugin.getCallTrace(result.callId!)!;
+    expect(trace.status).toBe('blocked');
+    expect(trace.consent?.action).toBe('consent_timeout');
+    expect(trace.call).toBeUndefined();
+    expect(plugin.getCallTrace('unknown')).toBeUndefined();
+  });
+});
@@ -0,0 +1,50 @@
+import { canonicalize, toJsonValue } from '../canonical-json';
+
+describe('canonicalize', () => {
+  test('sorts object keys recursively', () => {
+    expect(canonicalize({ b: 1, a: { d: [1, 2], c: 'x' } })).toBe('{"a":{"c":"x","d":[1,2]},"b":1}');
+  });
+
+  test('is independent of key insertion order', () => {
+    expect(canonicalize({ x: 1, y: 2 })).toBe(canonicalize({ y: 2, x: 1 }));
+  });
+
+  test('sorts keys by UTF-16 code units', () => {
+    expect(canonicalize({ 'é': 1, z: 2, '😀': 3, Z: 4 })).toBe(
+      '{"Z":4,"z":2,"é":1,"😀":3}'
+    );
+  });
+
+  test('omits undefined members and nulls undefined array items', () => {
+    expect(canonicalize({ a: undefined, b: [undefined, 1] })).toBe('{"b":[null,1]}');
+  });
+
+  test('serializes numbers in ECMAScript form', () => {
+    expect(canonicalize([1e21, 0.1, -0, 100, NaN, Infinity])).toBe('[1e+21,0.1,0,100,null,null]');
+  });
+
+  test('reduces non-JSON values the way a JSON round-trip would', () => {
+    const date = new Date('2026-01-02T03:04:05.000Z');
+    expect(toJsonValue({ date, big: BigInt('12345678901234567890') })).toEqual({
+      date: '2026-01-02T03:04:05.000Z',
+      big: '12345678901234567890',
+    });
+    expect(canonicalize({ m: new Map([['k', 1]]), s: new Set(['a']) })).toBe('{"m":{"k":1},"s":["a"]}');
+  });
+
+  test('uses own enumerable properties of class instances', () => {
+    class Point {
+      constructor(public x: number, public y: number) {}
+      get norm(): number {
+        return Math.hypot(this.x, this.y);
+      }
+    }
+    expect(canonicalize(new Point(3, 4))).toBe('{"x":3,"y":4}');
+  });
+
+  test('throws on circular structures', () => {
+    const a: Record<string, unknown> = {};
+    a.self = a;
+    expect(() => canonicalize(a)).toThrow(TypeError);
+  });
+});
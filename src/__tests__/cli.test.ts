@@ -0,0 +1,282 @@
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir, userInfo } from 'os';
+import { main, CliIo } from '../cli';
+import { AuditLedger } from '../audit-ledger';
+import { ConsentGate } from '../consent-gate';
+import { AuditLedgerConfig, ConsentGateConfig, PluginContext } from '../types';
+
+function makeConfig(dir: string): AuditLedgerConfig {
+  return {
+    enabled: true,
+    localPath: join(dir, 'ledger.json'),
+    forwardToGateway: false,
+    maxEntries: 100,
+  };
+}
+
+function makeIo(): CliIo & { stdout: () => string; stderr: () => string } {
+  let out = '';
+  let err = '';
+  return {
+    out: (text) => { out += text; },
+    err: (text) => { err += text; },
+    stdout: () => out,
+    stderr: () => err,
+  };
+}
+
+function seed(ledger: AuditLedger): void {
+  ledger.append({
+    action: 'tool_call', toolName: 'fs_read', riskLevel: 'low',
+    consentRequired: false, dataTokenized: false, injectionDetected: false,
+    metadata: { sessionId: 'alpha' },
+  });
+  ledger.append({
+    action: 'tool_call', toolName: 'exec', riskLevel: 'critical',
+    consentRequired: true, consentGranted: true, dataTokenized: false, injectionDetected: false,
+    metadata: { sessionId: 'beta', command: 'export TOKEN=sk-abcdefghijklmnopqrstuvwxyz1234' },
+  });
+  ledger.append({
+    action: 'llm_output', riskLevel: 'none',
+    consentRequired: false, dataTokenized: false, injectionDetected: false,
+    metadata: { sessionId: 'alpha' },
+  });
+}
+
+describe('air-trust CLI', () => {
+  let tmpDir: string;
+  let ledgerPath: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+    ledgerPath = join(tmpDir, 'ledger.json');
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('verify reports a valid chain', async () => {
+    seed(new AuditLedger(makeConfig(tmpDir)));
+    const io = makeIo();
+
+    expect(await main(['verify', '--ledger', ledgerPath], io)).toBe(0);
+    expect(io.stdout()).toContain('Chain valid — 3 entries');
+  });
+
+  test('verify fails on a tampered chain', async () => {
+    seed(new AuditLedger(makeConfig(tmpDir)));
+    const data = JSON.parse(readFileSync(ledgerPath, 'utf-8'));
+    data.entries[1].toolName = 'fs_read';
+    writeFileSync(ledgerPath, JSON.stringify(data));
+    const io = makeIo();
+
+    expect(await main(['verify', '--ledger', ledgerPath], io)).toBe(1);
+    expect(io.stdout()).toContain('Chain broken at sequence 2');
+  });
+
+  test('verify with only a public key', async () => {
+    const ledger = new AuditLedger({ ...makeConfig(tmpDir), signing: 'ed25519' });
+    seed(ledger);
+    const pubPath = join(tmpDir, 'ledger.pub');
+    writeFileSync(pubPath, ledger.getPublicKey()!.publicKey);
+
+    // Assessors get the ledger and public key, but not the key ring
+    rmSync(join(tmpDir, 'ledger.keyring.json'));
+    const io = makeIo();
+
+    expect(await main(['verify', '--ledger', ledgerPath, '--public-key', pubPath, '--json'], io)).toBe(0);
+    expect(JSON.parse(io.stdout()).valid).toBe(true);
+  });
+
+  test('stats summarizes entries', async () => {
+    seed(new AuditLedger(makeConfig(tmpDir)));
+    const io = makeIo();
+
+    expect(await main(['stats', '--ledger', ledgerPath, '--json'], io)).toBe(0);
+    const stats = JSON.parse(io.stdout());
+    expect(stats.totalEntries).toBe(3);
+    expect(stats.byAction.tool_call).toBe(2);
+  });
+
+  test('tail applies filters', async () => {
+    seed(new AuditLedger(makeConfig(tmpDir)));
+    const io = makeIo();
+
+    expect(await main(['tail', '--ledger', ledgerPath, '--session', 'alpha', '-n', '5'], io)).toBe(0);
+    const lines = io.stdout().trim().split('\n');
+    expect(lines.length).toBe(2);
+    expect(lines[0]).toContain('fs_read');
+    expect(lines[1]).toContain('llm_output');
+  });
+
+  test('export writes redacted JSONL', async () => {
+    seed(new AuditLedger(makeConfig(tmpDir)));
+    const io = makeIo();
+
+    expect(await main(['export', '--ledger', ledgerPath, '--format', 'jsonl', '--risk', 'high', '--redact'], io)).toBe(0);
+    const lines = io.stdout().trim().split('\n');
+    expect(lines.length).toBe(1);
+    expect(lines[0]).toContain('[AIR:vault:');
+    expect(lines[0]).not.toContain('sk-abcdefghij');
+  });
+
+  test('export writes CSV', async () => {
+    seed(new AuditLedger(makeConfig(tmpDir)));
+    const io = makeIo();
+
+    expect(await main(['export', '--ledger', ledgerPath, '--format', 'csv', '--tool', 'exec'], io)).toBe(0);
+    const rows = io.stdout().trim().split('\r\n');
+    expect(rows.length).toBe(2);
+    expect(rows[0]).toMatch(/^sequence,id,timestamp,action,toolName/);
+    expect(rows[1]).toMatch(/^2,.*,tool_call,exec,beta,critical,/);
+  });
+
+  test('report renders a session timeline', async () => {
+    seed(new AuditLedger(makeConfig(tmpDir)));
+    const io = makeIo();
+
+    expect(await main(['report', 'alpha', '--ledger', ledgerPath], io)).toBe(0);
+    expect(io.stdout()).toContain('# Session report: alpha');
+    expect(io.stdout()).toContain('Valid: 2 of 2 session entries verified');
+
+    const out = join(tmpDir, 'alpha.json');
+    expect(await main(['report', 'alpha', '--ledger', ledgerPath, '--format', 'json', '--out', out], io)).toBe(0);
+    expect(JSON.parse(readFileSync(out, 'utf-8')).events.map((e: { sequence: number }) => e.sequence)).toEqual([1, 3]);
+    expect(await main(['report', '--ledger', ledgerPath], io)).toBe(2);
+  });
+
+  test('closes the ledgers it opens', async () => {
+    seed(new AuditLedger(makeConfig(tmpDir)));
+    const close = jest.spyOn(AuditLedger.prototype, 'close');
+    try {
+      for (const command of [['verify'], ['stats'], ['export'], ['report', 'alpha']]) {
+        close.mockClear();
+        expect(await main([...command, '--ledger', ledgerPath], makeIo())).toBe(0);
+        expect(close).toHaveBeenCalledTimes(1);
+      }
+    } finally {
+      close.mockRestore();
+    }
+  });
+
+  test('reads an encrypted ledger with the key next to it', async () => {
+    seed(new AuditLedger({ ...makeConfig(tmpDir), encryption: {} }));
+    const io = makeIo();
+
+    expect(await main(['verify', '--ledger', ledgerPath], io)).toBe(0);
+    expect(io.stdout()).toContain('Chain valid — 3 entries');
+  });
+
+  test('reports a missing ledger', async () => {
+    const io = makeIo();
+    expect(await main(['stats', '--ledger', join(tmpDir, 'missing.json')], io)).toBe(2);
+    expect(io.stderr()).toContain('No ledger found');
+  });
+
+  /** A gate in another component, holding a deploy call for consent */
+  async function holdDeploy(queuePath: string, quorum?: ConsentGateConfig['quorum']) {
+    const gate = new ConsentGate(
+      {
+        enabled: true,
+        alwaysRequire: ['deploy'],
+        neverRequire: [],
+        timeoutMs: 5000,
+        riskThreshold: 'high',
+        queuePath,
+        ...(quorum ? { quorum } : {}),
+      },
+      new AuditLedger(makeConfig(tmpDir))
+    );
+    const ctx: PluginContext = { sessionId: 's', sendMessage: jest.fn().mockResolvedValue(undefined) };
+    const pending = gate.intercept(
+      { toolName: 'deploy', args: { env: 'prod' }, sessionId: 's', timestamp: new Date().toISOString() },
+      ctx
+    );
+    await new Promise((r) => setTimeout(r, 50));
+    return { gate, pending };
+  }
+
+  test('consent approve resolves a request held by a gate in another component', async () => {
+    const queuePath = join(tmpDir, 'queue.json');
+    const { gate, pending } = await holdDeploy(queuePath);
+
+    const list = makeIo();
+    expect(await main(['consent', 'list', '--queue', queuePath], list)).toBe(0);
+    const id = list.stdout().split(/\s+/)[0];
+    expect(list.stdout()).toContain('deploy');
+
+    const approve = makeIo();
+    expect(await main(['consent', 'approve', id, '--queue', queuePath], approve)).toBe(0);
+    expect(approve.stdout()).toBe(`Approved ${id} as os:${userInfo().username}\n`);
+
+    const result = await pending;
+    expect(result.blocked).toBe(false);
+    expect(ConsentGate.listQueued(queuePath)).toEqual([]);
+    expect(gate.listGrants('s')).toEqual([]);
+  });
+
+  test('consent approve can create a standing grant', async () => {
+    const queuePath = join(tmpDir, 'queue.json');
+    const { gate, pending } = await holdDeploy(queuePath);
+    const [{ id }] = ConsentGate.listQueued(queuePath);
+
+    const approve = makeIo();
+    expect(await main(['consent', 'approve', id, 'tool', 'for', '1h', '--queue', queuePath, '--approver', 'ops'], approve)).toBe(0);
+    expect(approve.stdout()).toBe(`Approved ${id} as ops with a tool grant\n`);
+
+    expect((await pending).blocked).toBe(false);
+    expect(gate.listGrants('s')).toMatchObject([{ scope: 'tool', toolName: 'deploy' }]);
+  });
+
+  test('consent approve records quorum approvals as the OS user only', async () => {
+    const queuePath = join(tmpDir, 'queue.json');
+    const { pending } = await holdDeploy(queuePath, { tools: { deploy: 2 } });
+    const [{ id }] = ConsentGate.listQueued(queuePath);
+
+    const impersonate = makeIo();
+    expect(await main(['consent', 'approve', id, '--queue', queuePath, '--approver', 'alice'], impersonate)).toBe(2);
+    expect(impersonate.stderr()).toContain('--approver is not accepted');
+
+    // Approving again from the same account replaces the first vote
+    const user = `os:${userInfo().username}`;
+    for (let i = 0; i < 2; i++) {
+      const approve = makeIo();
+      expect(await main(['consent', 'approve', id, '--queue', queuePath], approve)).toBe(0);
+      expect(approve.stdout()).toBe(`Approved ${id} as ${user}\n`);
+    }
+    await new Promise((r) => setTimeout(r, 600));
+    const list = makeIo();
+    await main(['consent', 'list', '--queue', queuePath], list);
+    expect(list.stdout()).toContain('1/2 approvals');
+    expect(ConsentGate.listQueued(queuePath)[0].votes).toMatchObject([{ approver: user, approved: true }]);
+
+    ConsentGate.decideQueued(queuePath, id, false, { approver: 'bob' });
+    expect((await pending).blocked).toBe(true);
+  });
+
+  test('chat and CLI votes count as different approvers, whatever their names', async () => {
+    const queuePath = join(tmpDir, 'queue.json');
+    const { gate, pending } = await holdDeploy(queuePath, { tools: { deploy: 2 } });
+    const [{ id }] = ConsentGate.listQueued(queuePath);
+    // Group members vote from their own accounts
+    expect(statSync(queuePath).mode & 0o777).toBe(0o660);
+
+    const user = userInfo().username;
+    expect(gate.handleReply(`approve ${id}`, 's', user)).toBe(true);
+    expect(await main(['consent', 'approve', id, '--queue', queuePath], makeIo())).toBe(0);
+    expect(await pending).toMatchObject({ blocked: false });
+    const entry = new AuditLedger(makeConfig(tmpDir)).export().find((e) => e.action === 'consent_approved');
+    expect((entry!.metadata.votes as Array<{ approver: string }>).map((v) => v.approver)).toEqual([
+      `chat:${user}`, `os:${user}`,
+    ]);
+  });
+
+  test('consent approve fails for unknown IDs and malformed grants', async () => {
+    const io = makeIo();
+    expect(await main(['consent', 'approve', 'nope', '--queue', join(tmpDir, 'q.json')], io)).toBe(1);
+    expect(await main(['consent', 'approve', 'nope', 'tool', 'for', 'ever', '--queue', join(tmpDir, 'q.json')], io)).toBe(2);
+    expect(io.stderr()).toContain('Invalid grant "tool for ever"');
+  });
+});
@@ -1,6 +1,6 @@
-import { mkdtempSync, rmSync } from 'fs';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
 import { join } from 'path';
-import { tmpdir } from 'os';
+import { hostname, tmpdir } from 'os';
 import { ConsentGate } from '../consent-gate';
 import { AuditLedger } from '../audit-ledger';
 import { ConsentGateConfig, AuditLedgerConfig, PluginContext } from '../types';
@@ -136,6 +136,23 @@ describe('ConsentGate', () => {
     expect(result.blocked).toBe(false);
   });
 
+  test('updates the shared queue under its lock file', async () => {
+    const queuePath = join(tmpDir, 'queue.json');
+    const gate = new ConsentGate({ ...makeConfig(), queuePath }, makeLedger(tmpDir));
+    const result = gate.intercept(
+      { toolName: 'exec', args: {}, sessionId: 'test', timestamp: new Date().toISOString() },
+      makeCtx()
+    );
+    await new Promise((r) => setImmediate(r));
+    const [request] = ConsentGate.listQueued(queuePath);
+
+    // Decisions wait for the queue lock; one left by a process that died is broken
+    writeFileSync(queuePath + '.lock', JSON.stringify({ pid: 2 ** 22 + 1, hostname: hostname(), acquiredAt: '' }));
+    expect(ConsentGate.decideQueued(queuePath, request.id, true, { approver: 'ops' })).toBe(true);
+    expect(existsSync(queuePath + '.lock')).toBe(false);
+    expect((await result).blocked).toBe(false);
+  });
+
   test('formatConsentMessage includes risk and tool info', () => {
     const gate = new ConsentGate(makeConfig(), makeLedger(tmpDir));
     const message = gate.formatConsentMessage({
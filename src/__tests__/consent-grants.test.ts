@@ -0,0 +1,175 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AuditLedger } from '../audit-ledger';
+import { ConsentGate } from '../consent-gate';
+import { parseConsentReply } from '../consent-grants';
+import { createAirTrustPlugin } from '../index';
+import { ConsentGateConfig, PluginContext, ToolCallEvent } from '../types';
+
+describe('parseConsentReply', () => {
+  test('reads approvals with grants, rejections and revocations', () => {
+    expect(parseConsentReply('approve abc-123')).toEqual({ type: 'approve', consentId: 'abc-123' });
+    expect(parseConsentReply('approve abc-123 once')).toEqual({ type: 'approve', consentId: 'abc-123' });
+    expect(parseConsentReply('Approve abc-123 tool for 30m max 5')).toEqual({
+      type: 'approve', consentId: 'abc-123', grant: { scope: 'tool', ttlMs: 30 * 60 * 1000, maxUses: 5 },
+    });
+    expect(parseConsentReply('approve abc-123 args path=src/* mode=w')).toEqual({
+      type: 'approve', consentId: 'abc-123', grant: { scope: 'args', args: { path: 'src/*', mode: 'w' } },
+    });
+    expect(parseConsentReply('approve abc-123 session for 2h')?.type).toBe('approve');
+    expect(parseConsentReply('reject abc-123')).toEqual({ type: 'reject', consentId: 'abc-123' });
+    expect(parseConsentReply('revoke all')).toEqual({ type: 'revoke', grantId: 'all' });
+    expect(parseConsentReply('please approve abc-123')).toBeUndefined();
+  });
+
+  test('falls back to a one-shot approval when the grant is malformed', () => {
+    expect(parseConsentReply('approve abc-123 tool for ever')).toEqual({ type: 'approve', consentId: 'abc-123' });
+    expect(parseConsentReply('approve abc-123 args for 5m')).toEqual({ type: 'approve', consentId: 'abc-123' });
+    expect(parseConsentReply('approve abc-123 tool max 0')).toEqual({ type: 'approve', consentId: 'abc-123' });
+  });
+});
+
+describe('ConsentGate standing grants', () => {
+  let tmpDir: string;
+  let ledger: AuditLedger;
+  let ctx: PluginContext;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+    ledger = new AuditLedger({
+      enabled: true,
+      localPath: join(tmpDir, 'ledger.json'),
+      forwardToGateway: false,
+      maxEntries: 100,
+    });
+    ctx = { sessionId: 's1', sendMessage: jest.fn().mockResolvedValue(undefined) };
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function makeGate(overrides: Partial<ConsentGateConfig> = {}): ConsentGate {
+    return new ConsentGate(
+      { enabled: true, alwaysRequire: ['fs_write', 'exec'], neverRequire: [], timeoutMs: 200, riskThreshold: 'high', ...overrides },
+      ledger
+    );
+  }
+
+  const call = (toolName: string, args: Record<string, unknown>, sessionId = 's1'): ToolCallEvent => ({
+    toolName, args, sessionId, callId: `c-${Math.random()}`, timestamp: new Date().toISOString(),
+  });
+
+  /** Intercept a call and answer its consent prompt with `reply` */
+  async function answer(gate: ConsentGate, event: ToolCallEvent, reply: (id: string) => string) {
+    const result = gate.intercept(event, ctx);
+    await new Promise((r) => setImmediate(r));
+    const [request] = gate.listPending();
+    gate.handleReply(reply(request.id), event.sessionId);
+    return result;
+  }
+
+  test('a tool grant covers later calls in the session until its uses run out', async () => {
+    const gate = makeGate();
+    const first = await answer(gate, call('fs_write', { path: 'a.ts' }), (id) => `approve ${id} tool max 2`);
+    expect(first.blocked).toBe(false);
+    const [grant] = gate.listGrants('s1');
+    expect(grant).toMatchObject({ scope: 'tool', toolName: 'fs_write', sessionId: 's1', maxUses: 2, uses: 0 });
+    expect(first.grantId).toBe(grant.id);
+
+    expect(await gate.intercept(call('fs_write', { path: 'b.ts' }), ctx)).toEqual({ blocked: false, grantId: grant.id });
+    expect(await gate.intercept(call('fs_write', { path: 'c.ts' }), ctx)).toEqual({ blocked: false, grantId: grant.id });
+    expect(ctx.sendMessage).toHaveBeenCalledTimes(1);
+    expect(gate.listGrants()).toEqual([]);
+
+    const entries = ledger.export();
+    expect(entries.map((e) => e.action)).toEqual(['consent_approved', 'consent_grant_used', 'consent_grant_used']);
+    expect(entries[0].metadata).toMatchObject({ grantId: grant.id, grantScope: 'tool' });
+    expect(entries[2].metadata).toMatchObject({ grantId: grant.id, consentId: grant.consentId, uses: 2 });
+
+    // Other sessions still ask
+    const other = await answer(gate, call('fs_write', { path: 'b.ts' }, 's2'), (id) => `reject ${id}`);
+    expect(other.blocked).toBe(true);
+  });
+
+  test('grants do not cover riskier calls, other tools or non-matching args', async () => {
+    const gate = makeGate();
+    await answer(gate, call('fs_write', { path: 'x' }), (id) => `approve ${id} session`);
+    expect((await gate.intercept(call('exec', { command: 'ls src' }), ctx)).grantId).toBeDefined();
+
+    const risky = await answer(gate, call('exec', { command: 'rm -rf /' }), (id) => `reject ${id}`);
+    expect(risky.blocked).toBe(true);
+
+    gate.revokeGrants('s1');
+    await answer(gate, call('fs_write', { path: 'src/a.ts' }), (id) => `approve ${id} args path=src/*`);
+    expect((await gate.intercept(call('fs_write', { path: 'src/b.ts' }), ctx)).blocked).toBe(false);
+    const outside = await answer(gate, call('fs_write', { path: 'etc/b.ts' }), (id) => `reject ${id}`);
+    expect(outside.blocked).toBe(true);
+  });
+
+  test('an args grant covers an array only when every element matches', async () => {
+    const gate = makeGate();
+    await answer(gate, call('fs_write', { paths: ['/tmp/a'] }), (id) => `approve ${id} args paths=/tmp/*`);
+    expect((await gate.intercept(call('fs_write', { paths: ['/tmp/b', '/tmp/c'] }), ctx)).blocked).toBe(false);
+
+    for (const paths of [['/tmp/b', '/home/u/.ssh/id_rsa'], [], undefined]) {
+      const held = await answer(gate, call('fs_write', { paths }), (id) => `reject ${id}`);
+      expect(held.blocked).toBe(true);
+    }
+    expect(ctx.sendMessage).toHaveBeenCalledTimes(4);
+  });
+
+  test('grants expire, can be revoked, and disabled scopes approve once', async () => {
+    const gate = makeGate({ grants: { defaultTtlMs: 30, scopes: ['call', 'tool'] } });
+    await answer(gate, call('fs_write', { path: 'a' }), (id) => `approve ${id} call`);
+    expect(gate.listGrants()).toHaveLength(1);
+    await new Promise((r) => setTimeout(r, 40));
+    expect(gate.listGrants()).toEqual([]);
+
+    await answer(gate, call('fs_write', { path: 'a' }), (id) => `approve ${id} session for 1h`);
+    expect(gate.listGrants()).toEqual([]);
+
+    await answer(gate, call('fs_write', { path: 'a' }), (id) => `approve ${id} tool for 1h`);
+    const [grant] = gate.listGrants();
+    expect(gate.handleReply(`revoke ${grant.id}`, 's1')).toBe(true);
+    expect(gate.revokeGrant(grant.id)).toBe(false);
+    const revoked = ledger.export().at(-1)!;
+    expect(revoked).toMatchObject({ action: 'consent_grant_revoked', toolName: 'fs_write' });
+    expect(revoked.metadata).toMatchObject({ grantId: grant.id, uses: 0 });
+  });
+
+  test('grants can be created from the shared queue', async () => {
+    const queuePath = join(tmpDir, 'consent-queue.json');
+    const gate = makeGate({ queuePath, timeoutMs: 2000 });
+    const result = gate.intercept(call('fs_write', { path: 'a' }), ctx);
+    await new Promise((r) => setImmediate(r));
+    const [request] = ConsentGate.listQueued(queuePath);
+    ConsentGate.decideQueued(queuePath, request.id, true, { grant: { scope: 'tool', maxUses: 1 } });
+
+    expect((await result).blocked).toBe(false);
+    expect(gate.listGrants()).toMatchObject([{ scope: 'tool', consentId: request.id, maxUses: 1 }]);
+  });
+
+  test('a call grant matches the original arguments, not their vault tokens', async () => {
+    const plugin = createAirTrustPlugin({
+      consentGate: { enabled: true, alwaysRequire: ['send_email'], neverRequire: [], timeoutMs: 200, riskThreshold: 'critical' },
+      auditLedger: { enabled: true, localPath: join(tmpDir, 'plugin-ledger.json'), forwardToGateway: false, maxEntries: 100 },
+      vault: { enabled: true, categories: ['pii'], customPatterns: [], forwardToGateway: false, ttlMs: 60_000 },
+    });
+    const send = (to: string) =>
+      plugin.beforeToolCall({ toolName: 'send_email', args: { to }, sessionId: 's1', timestamp: new Date().toISOString() }, ctx);
+
+    const first = send('alice@example.com');
+    await new Promise((r) => setTimeout(r, 20));
+    const message = (ctx.sendMessage as jest.Mock).mock.calls[0][0] as string;
+    expect(message).not.toContain('alice@example.com');
+    plugin.handleConsentResponse(message.match(/approve\s+([a-f0-9-]+)/)![1], true, { grant: { scope: 'call' } });
+    expect((await first).blocked).toBe(false);
+    const [grant] = plugin.listConsentGrants('s1');
+
+    expect(await send('alice@example.com')).toMatchObject({ blocked: false, grantId: grant.id });
+    expect((await send('bob@example.com')).blocked).toBe(true);
+    expect(ctx.sendMessage).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,161 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import { AuditLedger } from '../audit-ledger';
+import { ConsentGate } from '../consent-gate';
+import { ConsentPolicy, matchesGlob } from '../consent-policy';
+import { ConsentGateConfig, PluginContext, PolicyRule } from '../types';
+
+const RULES: PolicyRule[] = [
+  { id: 'no-rm-rf', tools: ['exec', 'shell*'], args: { command: { matches: '\\brm\\s+-rf\\b' } }, outcome: 'deny' },
+  { id: 'ls-ok', tools: ['exec'], args: { command: { matches: '^ls(\\s|$)' } }, outcome: 'allow', riskLevel: 'low' },
+  { id: 'tmp-writes', tools: ['fs_write'], args: { path: { pathPrefix: ['/tmp'] } }, outcome: 'allow' },
+  { id: 'ssh-keys', tools: ['fs_*'], args: { path: { pathPrefix: ['~/.ssh'] } }, outcome: 'deny' },
+  { id: 'small-refunds', tools: ['refund'], args: { amount: { min: 0, max: 50 } }, sessions: ['support-*'], outcome: 'allow' },
+  { id: 'prod-targets', args: { 'options.env': { oneOf: ['prod', 'production'] } }, outcome: 'require_consent' },
+  { id: 'forced', args: { flags: { equals: '--force' } }, outcome: 'require_consent' },
+];
+
+describe('ConsentPolicy', () => {
+  const policy = new ConsentPolicy(RULES);
+  const match = (toolName: string, args: Record<string, unknown>, sessionId?: string) =>
+    policy.match({ toolName, args, sessionId })?.id;
+
+  test('matches tool globs and argument regexes in order', () => {
+    expect(match('exec', { command: 'ls -la' })).toBe('ls-ok');
+    expect(match('exec', { command: 'ls; rm -rf /' })).toBe('no-rm-rf');
+    expect(match('shell_run', { command: 'sudo rm -rf /var' })).toBe('no-rm-rf');
+    expect(match('exec', { command: 'cat /etc/hosts' })).toBeUndefined();
+    expect(matchesGlob('fs_?rite', 'fs_write')).toBe(true);
+    expect(matchesGlob('fs.*', 'fs_write')).toBe(false);
+  });
+
+  test('resolves paths before checking prefixes', () => {
+    expect(match('fs_write', { path: '/tmp/out.txt' })).toBe('tmp-writes');
+    expect(match('fs_write', { path: '/tmp' })).toBe('tmp-writes');
+    expect(match('fs_write', { path: '/tmpfoo/x' })).toBeUndefined();
+    expect(match('fs_write', { path: '/tmp/../etc/passwd' })).toBeUndefined();
+    expect(match('fs_write', { path: join(homedir(), '.ssh', 'authorized_keys') })).toBe('ssh-keys');
+    expect(match('fs_read', { path: '~/.ssh/id_ed25519' })).toBe('ssh-keys');
+  });
+
+  test('checks numeric ranges, sessions, nested and array arguments', () => {
+    expect(match('refund', { amount: 20 }, 'support-42')).toBe('small-refunds');
+    expect(match('refund', { amount: '49.5' }, 'support-42')).toBe('small-refunds');
+    expect(match('refund', { amount: 500 }, 'support-42')).toBeUndefined();
+    expect(match('refund', { amount: 'lots' }, 'support-42')).toBeUndefined();
+    expect(match('refund', { amount: 20 }, 'sales-1')).toBeUndefined();
+    expect(match('deploy', { options: { env: 'prod' } })).toBe('prod-targets');
+    expect(match('deploy', { options: { env: 'staging' } })).toBeUndefined();
+    expect(match('git_push', { flags: ['--verbose', '--force'] })).toBe('forced');
+  });
+
+  test('allows array arguments only when every element matches', () => {
+    expect(match('fs_write', { path: ['/tmp/a', '/tmp/b'] })).toBe('tmp-writes');
+    expect(match('fs_write', { path: ['/tmp/a', '/etc/shadow'] })).toBeUndefined();
+    expect(match('fs_write', { path: [] })).toBeUndefined();
+    expect(match('fs_read', { path: ['/tmp/a', '~/.ssh/id_ed25519'] })).toBe('ssh-keys');
+  });
+
+  test('resolves relative paths against the call cwd, then the workspace', () => {
+    const scoped = new ConsentPolicy(
+      [{ id: 'in-workspace', tools: ['fs_write'], args: { path: { pathPrefix: ['/work/app'] } }, outcome: 'allow' }],
+      { workspace: ['/work/app'] }
+    );
+    const id = (args: Record<string, unknown>) => scoped.match({ toolName: 'fs_write', args })?.id;
+    expect(id({ path: 'src/index.ts' })).toBe('in-workspace');
+    expect(id({ path: '../other/x' })).toBeUndefined();
+    expect(id({ path: 'x', cwd: '/etc' })).toBeUndefined();
+    expect(id({ path: 'x', cwd: 'lib' })).toBe('in-workspace');
+  });
+
+  test('applies time windows in the configured time zone', () => {
+    const nights = new ConsentPolicy([
+      { id: 'nights', time: { from: '22:00', to: '06:00', timezone: 'UTC' }, outcome: 'deny' },
+      { id: 'weekend', time: { from: '00:00', to: '23:59', days: [0, 6], timezone: 'UTC' }, outcome: 'deny' },
+    ]);
+    const at = (iso: string) => nights.match({ toolName: 'deploy', args: {} }, new Date(iso))?.id;
+    expect(at('2026-03-04T23:30:00Z')).toBe('nights');   // Wednesday
+    expect(at('2026-03-05T05:59:00Z')).toBe('nights');
+    expect(at('2026-03-05T06:00:00Z')).toBeUndefined();
+    expect(at('2026-03-07T12:00:00Z')).toBe('weekend');  // Saturday
+  });
+
+  test('rejects malformed rules', () => {
+    expect(() => new ConsentPolicy([{ id: 'a', args: { x: { matches: '(' } }, outcome: 'deny' }]))
+      .toThrow('Invalid policy rule "a"');
+    expect(() => new ConsentPolicy([{ id: 'b', time: { from: '25:00', to: '06:00' }, outcome: 'deny' }]))
+      .toThrow('time "25:00" is not HH:MM');
+    expect(() => new ConsentPolicy([{ id: 'c', time: { from: '01:00', to: '02:00', timezone: 'Mars/Base' }, outcome: 'deny' }]))
+      .toThrow('Invalid policy rule "c"');
+    expect(() => new ConsentPolicy([{ id: 'd', outcome: 'allow' }, { id: 'd', outcome: 'deny' }]))
+      .toThrow('Duplicate policy rule id "d"');
+  });
+});
+
+describe('ConsentGate with a policy', () => {
+  let tmpDir: string;
+  let ledger: AuditLedger;
+  let gate: ConsentGate;
+  let ctx: PluginContext;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+    ledger = new AuditLedger({
+      enabled: true,
+      localPath: join(tmpDir, 'ledger.json'),
+      forwardToGateway: false,
+      maxEntries: 100,
+    });
+    const config: ConsentGateConfig = {
+      enabled: true,
+      alwaysRequire: ['exec'],
+      neverRequire: ['fs_write'],
+      timeoutMs: 50,
+      riskThreshold: 'high',
+      policy: RULES,
+    };
+    gate = new ConsentGate(config, ledger);
+    ctx = { sessionId: 's1', sendMessage: jest.fn().mockResolvedValue(undefined) };
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const call = (toolName: string, args: Record<string, unknown>) => ({
+    toolName, args, sessionId: 's1', callId: 'c1', timestamp: new Date().toISOString(),
+  });
+
+  test('denies without asking and records the rule', async () => {
+    const result = await gate.intercept(call('exec', { command: 'rm -rf /' }), ctx);
+
+    expect(result).toMatchObject({ blocked: true, policyRule: 'no-rm-rf' });
+    expect(result.reason).toContain('denied by policy');
+    expect(ctx.sendMessage).not.toHaveBeenCalled();
+    const [entry] = ledger.export();
+    expect(entry).toMatchObject({ action: 'consent_denied', consentGranted: false, callId: 'c1' });
+    expect(entry.metadata.policyRule).toBe('no-rm-rf');
+  });
+
+  test('allows a call the tool-name lists would hold for consent', async () => {
+    expect(gate.evaluate(call('exec', { command: 'ls' }))).toMatchObject({
+      outcome: 'allow', riskLevel: 'low', rule: 'ls-ok',
+    });
+    expect(await gate.intercept(call('exec', { command: 'ls' }), ctx)).toEqual({ blocked: false, policyRule: 'ls-ok' });
+    expect(ctx.sendMessage).not.toHaveBeenCalled();
+  });
+
+  test('requires consent for a tool the lists would let through', async () => {
+    const result = await gate.intercept(call('fs_write', { path: '/tmp/x', options: { env: 'prod' } }), ctx);
+    expect(result).toMatchObject({ blocked: false, policyRule: 'tmp-writes' });
+
+    const held = await gate.intercept(call('deploy_tool', { options: { env: 'production' } }), ctx);
+    expect(held).toMatchObject({ blocked: true, policyRule: 'prod-targets' });
+    expect(ctx.sendMessage).toHaveBeenCalledTimes(1);
+    expect(ledger.export().at(-1)?.metadata.policyRule).toBe('prod-targets');
+
+    expect(gate.evaluate(call('fs_write', { path: '/etc/hosts' }))).toMatchObject({ outcome: 'allow' });
+    expect(gate.evaluate(call('fs_write', { path: '/etc/hosts' })).rule).toBeUndefined();
+  });
+});
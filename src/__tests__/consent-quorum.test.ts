@@ -0,0 +1,147 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AuditLedger } from '../audit-ledger';
+import { ConsentGate } from '../consent-gate';
+import { ConsentGateConfig, PluginContext, ToolCallEvent } from '../types';
+
+describe('ConsentGate quorum approvals', () => {
+  let tmpDir: string;
+  let ledger: AuditLedger;
+  let ctx: PluginContext;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+    ledger = new AuditLedger({
+      enabled: true,
+      localPath: join(tmpDir, 'ledger.json'),
+      forwardToGateway: false,
+      maxEntries: 100,
+    });
+    ctx = { sessionId: 's1', sendMessage: jest.fn().mockResolvedValue(undefined) };
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function makeGate(overrides: Partial<ConsentGateConfig> = {}): ConsentGate {
+    return new ConsentGate(
+      {
+        enabled: true,
+        alwaysRequire: [],
+        neverRequire: [],
+        timeoutMs: 200,
+        riskThreshold: 'high',
+        quorum: { riskLevels: { critical: 2 }, tools: { deploy_prod: 3 } },
+        ...overrides,
+      },
+      ledger
+    );
+  }
+
+  const call = (toolName: string, args: Record<string, unknown> = {}): ToolCallEvent => ({
+    toolName, args, sessionId: 's1', callId: `c-${Math.random()}`, timestamp: new Date().toISOString(),
+  });
+
+  /** Intercept a call and return its result promise and pending request */
+  async function ask(gate: ConsentGate, event: ToolCallEvent) {
+    const result = gate.intercept(event, ctx);
+    await new Promise((r) => setImmediate(r));
+    const [request] = gate.listPending();
+    return { result, request };
+  }
+
+  test('sets the required approvals from policy rules, tools and risk levels', () => {
+    const gate = makeGate({
+      policy: [{ id: 'prod-db', tools: ['db_*'], args: { env: { equals: 'prod' } }, outcome: 'require_consent', approvals: 2 }],
+    });
+    expect(gate.evaluate(call('db_migrate', { env: 'prod' })).requiredApprovals).toBe(2);
+    expect(gate.evaluate(call('deploy_prod')).requiredApprovals).toBe(3);
+    expect(gate.evaluate(call('exec', { command: 'rm -rf /' })).requiredApprovals).toBe(2);
+    expect(gate.evaluate(call('fs_write')).requiredApprovals).toBeUndefined();
+    expect(gate.evaluate(call('fs_read')).requiredApprovals).toBeUndefined();
+  });
+
+  test('resolves once enough distinct named approvers agree', async () => {
+    const gate = makeGate();
+    const { result, request } = await ask(gate, call('exec', { command: 'rm -rf /' }));
+    expect(request).toMatchObject({ requiredApprovals: 2, votes: [] });
+    expect((ctx.sendMessage as jest.Mock).mock.calls[0][0]).toContain(
+      'Needs **2** approvals from different people; any rejection blocks it'
+    );
+
+    expect(gate.handleReply(`approve ${request.id}`, 's1')).toBe(false);
+    expect(gate.handleReply(`approve ${request.id}`, 's1', 'alice')).toBe(true);
+    expect(gate.handleReply(`approve ${request.id} tool for 1h`, 's1', 'alice')).toBe(false);
+    expect(gate.listPending()[0].votes).toMatchObject([{ approver: 'chat:alice', approved: true }]);
+
+    expect(gate.handleResponse(request.id, true, { approver: 'bob', grant: { scope: 'tool' } })).toBe(true);
+    expect((await result).blocked).toBe(false);
+    expect(gate.listGrants()).toEqual([]);
+
+    const [entry] = ledger.export();
+    expect(entry.action).toBe('consent_approved');
+    expect(entry.metadata).toMatchObject({ requiredApprovals: 2 });
+    expect((entry.metadata.votes as Array<{ approver: string }>).map((v) => v.approver)).toEqual(['chat:alice', 'bob']);
+  });
+
+  test('standing grants do not satisfy a quorum', async () => {
+    const gate = makeGate({
+      policy: [{ id: 'prod-deploy', tools: ['deploy'], args: { env: { equals: 'prod' } }, outcome: 'require_consent', approvals: 2 }],
+    });
+    const staging = await ask(gate, call('deploy', { env: 'staging' }));
+    gate.handleReply(`approve ${staging.request.id} tool for 1h`, 's1', 'alice');
+    expect((await staging.result).grantId).toBeDefined();
+    expect(gate.listGrants()).toHaveLength(1);
+
+    const prod = await ask(gate, call('deploy', { env: 'prod' }));
+    expect(prod.request).toMatchObject({ toolName: 'deploy', requiredApprovals: 2 });
+    gate.handleResponse(prod.request.id, true, { approver: 'alice' });
+    gate.handleResponse(prod.request.id, true, { approver: 'bob' });
+    expect(await prod.result).toEqual({ blocked: false, policyRule: 'prod-deploy' });
+    expect(gate.listGrants()[0].uses).toBe(0);
+  });
+
+  test('any rejection vetoes, and timeouts report progress', async () => {
+    const gate = makeGate();
+    const vetoed = await ask(gate, call('exec', { command: 'rm -rf /' }));
+    gate.handleResponse(vetoed.request.id, true, { approver: 'alice' });
+    gate.handleResponse(vetoed.request.id, false, { approver: 'mallory' });
+    expect(await vetoed.result).toEqual({ blocked: true, reason: 'Tool call rejected: rejected by mallory' });
+
+    const stalled = await ask(gate, call('deploy_prod'));
+    gate.handleResponse(stalled.request.id, true, { approver: 'alice' });
+    expect(await stalled.result).toEqual({
+      blocked: true,
+      reason: 'Tool call rejected: approval timed out (1 of 3 approvals: alice)',
+    });
+    expect(ledger.export().at(-1)).toMatchObject({ action: 'consent_timeout' });
+  });
+
+  test('collects approvals from the shared queue', async () => {
+    const queuePath = join(tmpDir, 'consent-queue.json');
+    const gate = makeGate({ queuePath, timeoutMs: 3000 });
+    const result = gate.intercept(call('exec', { command: 'rm -rf /' }), ctx);
+    await new Promise((r) => setImmediate(r));
+    const [request] = ConsentGate.listQueued(queuePath);
+
+    ConsentGate.decideQueued(queuePath, request.id, true, { approver: 'alice' });
+    ConsentGate.decideQueued(queuePath, request.id, true, { approver: 'alice' });
+    await new Promise((r) => setTimeout(r, 700));
+    expect(ConsentGate.listQueued(queuePath)[0].votes).toMatchObject([{ approver: 'alice', approved: true }]);
+
+    ConsentGate.decideQueued(queuePath, request.id, true, { approver: 'bob' });
+    expect((await result).blocked).toBe(false);
+    expect(ConsentGate.listQueued(queuePath)).toEqual([]);
+  });
+
+  test('rejects invalid approval counts', () => {
+    expect(() => makeGate({ quorum: { riskLevels: { critical: 0 } } })).toThrow(
+      'Invalid quorum.riskLevels.critical: expected a whole number of at least 1, got 0'
+    );
+    expect(() => makeGate({ policy: [{ id: 'r', tools: ['x'], outcome: 'require_consent', approvals: 1.5 }] })).toThrow(
+      'Invalid approvals of policy rule "r"'
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import { spawn, spawnSync } from 'child_process';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { hostname, tmpdir } from 'os';
+import { join } from 'path';
+import { AuditLedger } from '../audit-ledger';
+import { FileLock } from '../file-lock';
+import { AuditLedgerConfig } from '../types';
+
+// Lets a test run code just before a lock file is moved aside to be broken
+const beforeRename: { hook?: () => void } = {};
+jest.mock('fs', () => {
+  const actual = jest.requireActual('fs');
+  return {
+    ...actual,
+    renameSync: (from: string, to: string) => {
+      beforeRename.hook?.();
+      actual.renameSync(from, to);
+    },
+  };
+});
+
+/**
+ * Child process that loads the TypeScript sources directly, waits for a
+ * `go` file so every writer starts together, then appends its entries.
+ */
+const WRITER = `
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf-8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022, esModuleInterop: true },
+  });
+  module._compile(outputText, filename);
+};
+const { AuditLedger } = require(${JSON.stringify(join(__dirname, '..', 'audit-ledger.ts'))});
+const [ledgerPath, storage, writer, count] = process.argv.slice(1);
+const dir = path.dirname(ledgerPath);
+
+fs.writeFileSync(path.join(dir, 'ready-' + writer), '');
+while (!fs.existsSync(path.join(dir, 'go'))) {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 5);
+}
+
+const ledger = new AuditLedger({ enabled: true, localPath: ledgerPath, forwardToGateway: false, maxEntries: 1000, storage });
+for (let i = 0; i < Number(count); i++) {
+  ledger.append({
+    action: 'tool_call', toolName: 'exec', riskLevel: 'low',
+    consentRequired: false, dataTokenized: false, injectionDetected: false,
+    metadata: { writer, i },
+  });
+}
+ledger.close();
+`;
+
+function runWriters(dir: string, config: AuditLedgerConfig, writers: number, count: number): Promise<number[]> {
+  const exits = Array.from({ length: writers }, (_, writer) => {
+    const child = spawn(
+      process.execPath,
+      ['-e', WRITER, config.localPath, String(config.storage), String(writer), String(count)],
+      { cwd: join(__dirname, '..', '..'), stdio: ['ignore', 'ignore', 'inherit'] }
+    );
+    return new Promise<number>((resolve) => child.on('exit', (code) => resolve(code ?? -1)));
+  });
+
+  // Release every writer at once
+  const started = Date.now();
+  const go = setInterval(() => {
+    const ready = readdirSync(dir).filter((f) => f.startsWith('ready-')).length;
+    if (ready === writers || Date.now() - started > 60_000) {
+      clearInterval(go);
+      writeFileSync(join(dir, 'go'), '');
+    }
+  }, 20);
+  return Promise.all(exits);
+}
+
+describe('FileLock', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+  });
+
+  afterEach(() => {
+    beforeRename.hook = undefined;
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('times out while another holder has the lock, and is re-entrant', () => {
+    const path = join(tmpDir, 'ledger.lock');
+    const holder = new FileLock(path);
+    holder.acquire();
+    holder.acquire();
+    holder.release();
+    expect(existsSync(path)).toBe(true);
+
+    const waiter = new FileLock(path, { timeoutMs: 50 });
+    expect(() => waiter.acquire()).toThrow(`waiting for lock ${path} (held by pid ${process.pid})`);
+
+    holder.release();
+    expect(existsSync(path)).toBe(false);
+    expect(waiter.withLock(() => 'done')).toBe('done');
+  });
+
+  test('breaks a lock left by a process that exited', () => {
+    const path = join(tmpDir, 'ledger.lock');
+    const { pid } = spawnSync(process.execPath, ['-e', '']);
+    writeFileSync(path, JSON.stringify({ pid, hostname: hostname(), acquiredAt: new Date().toISOString() }));
+
+    const lock = new FileLock(path, { timeoutMs: 1000 });
+    lock.acquire();
+    lock.release();
+    expect(existsSync(path)).toBe(false);
+  });
+
+  test('leaves a lock alone that another waiter took over while it was being broken', () => {
+    const path = join(tmpDir, 'ledger.lock');
+    const { pid } = spawnSync(process.execPath, ['-e', '']);
+    writeFileSync(path, JSON.stringify({ pid, hostname: hostname(), acquiredAt: new Date().toISOString() }));
+
+    // Between our stale check and the break, another waiter breaks the lock and takes it
+    const taken = JSON.stringify({ pid: process.pid, hostname: hostname(), acquiredAt: new Date().toISOString() });
+    beforeRename.hook = () => {
+      beforeRename.hook = undefined;
+      unlinkSync(path);
+      writeFileSync(path, taken);
+    };
+
+    const lock = new FileLock(path, { timeoutMs: 100 });
+    expect(() => lock.acquire()).toThrow(`held by pid ${process.pid}`);
+    expect(readFileSync(path, 'utf-8')).toBe(taken);
+    expect(readdirSync(tmpDir)).toEqual(['ledger.lock']);
+  });
+
+  test.each(['json', 'jsonl'] as const)(
+    'several processes append to one %s ledger without forking the chain',
+    async (storage) => {
+      const config: AuditLedgerConfig = {
+        enabled: true,
+        localPath: join(tmpDir, 'ledger.json'),
+        forwardToGateway: false,
+        maxEntries: 1000,
+        storage,
+      };
+      const exitCodes = await runWriters(tmpDir, config, 3, 20);
+      expect(exitCodes).toEqual([0, 0, 0]);
+
+      const ledger = new AuditLedger(config);
+      const entries = ledger.export();
+      expect(entries.map((e) => e.sequence)).toEqual(Array.from({ length: 60 }, (_, i) => i + 1));
+      expect(new Set(entries.map((e) => e.metadata.writer)).size).toBe(3);
+      expect(ledger.listKeys().length).toBe(1);
+      expect(ledger.verify()).toMatchObject({ valid: true, totalEntries: 60 });
+      ledger.close();
+    },
+    120_000
+  );
+});
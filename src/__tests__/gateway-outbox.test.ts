@@ -0,0 +1,176 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { appendFileSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { FileLock } from '../file-lock';
+import { GatewayOutbox } from '../gateway-outbox';
+import { AuditLedger } from '../audit-ledger';
+
+interface Item {
+  id: string;
+  sequence: number;
+}
+
+/** Local gateway that records request bodies and answers with `status()` */
+function startGateway(status: () => number): Promise<{ server: Server; url: string; bodies: any[] }> {
+  const bodies: any[] = [];
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let data = '';
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => {
+      const code = status();
+      if (code < 300) bodies.push({ path: req.url, auth: req.headers.authorization, ...JSON.parse(data) });
+      res.writeHead(code).end();
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}`, bodies });
+    });
+  });
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function items(count: number): Item[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `e${i + 1}`, sequence: i + 1 }));
+}
+
+describe('GatewayOutbox', () => {
+  let tmpDir: string;
+  let server: Server | undefined;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+  });
+
+  afterEach(async () => {
+    if (server) await new Promise((r) => server!.close(r));
+    server = undefined;
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function makeOutbox(url: string, overrides: Record<string, unknown> = {}) {
+    return new GatewayOutbox<Item>({
+      url: `${url}/v1/audit`,
+      apiKey: 'secret',
+      batchKey: 'entries',
+      idOf: (item) => item.id,
+      sequenceOf: (item) => item.sequence,
+      path: join(tmpDir, 'outbox.jsonl'),
+      flushIntervalMs: 60_000,
+      ...overrides,
+    });
+  }
+
+  test('sends queued items in batches and advances the watermark', async () => {
+    const gateway = await startGateway(() => 200);
+    server = gateway.server;
+    const outbox = makeOutbox(gateway.url, { batchSize: 2 });
+
+    for (const item of items(5)) outbox.enqueue(item);
+    await outbox.flush();
+
+    expect(gateway.bodies.map((b) => b.entries.length)).toEqual([2, 2, 1]);
+    expect(gateway.bodies[0].auth).toBe('Bearer secret');
+    expect(outbox.stats()).toMatchObject({ pending: 0, sent: 5, ackedSequence: 5, healthy: true });
+    expect(readFileSync(join(tmpDir, 'outbox.jsonl'), 'utf-8').trim()).toBe('{"ackedSequence":5}');
+    outbox.close();
+  });
+
+  test('keeps items and backs off while the gateway fails', async () => {
+    let failures = 2;
+    const gateway = await startGateway(() => (failures-- > 0 ? 503 : 200));
+    server = gateway.server;
+    const outbox = makeOutbox(gateway.url, { initialBackoffMs: 20, maxBackoffMs: 40 });
+
+    for (const item of items(3)) outbox.enqueue(item);
+    await outbox.flush();
+
+    const stats = outbox.stats();
+    expect(stats).toMatchObject({ pending: 3, consecutiveFailures: 1, healthy: false });
+    expect(stats.lastError).toBe('Gateway responded 503');
+    expect(stats.nextRetryAt).toBeDefined();
+
+    await sleep(200);
+    expect(outbox.stats()).toMatchObject({ pending: 0, sent: 3, consecutiveFailures: 0, healthy: true });
+    expect(gateway.bodies.length).toBe(1);
+    outbox.close();
+  });
+
+  test('survives a restart and deduplicates by ID', async () => {
+    const unreachable = 'http://127.0.0.1:1';
+    const first = makeOutbox(unreachable);
+    for (const item of items(3)) first.enqueue(item);
+    first.enqueue({ id: 'e2', sequence: 2 });
+    first.close();
+
+    const gateway = await startGateway(() => 200);
+    server = gateway.server;
+    const second = makeOutbox(gateway.url);
+    second.enqueue({ id: 'e3', sequence: 3 });
+    expect(second.stats().pending).toBe(3);
+
+    await second.flush();
+    expect(gateway.bodies[0].entries.map((e: Item) => e.id)).toEqual(['e1', 'e2', 'e3']);
+
+    // Already acknowledged — ignored
+    second.enqueue({ id: 'e1', sequence: 1 });
+    expect(second.stats().pending).toBe(0);
+    second.close();
+  });
+
+  test('shares the queue file with other processes', async () => {
+    const path = join(tmpDir, 'outbox.jsonl');
+    const live = process.ppid;
+    const dead = 2 ** 22 + 1;
+    const line = (id: string, sequence: number, pid: number) => JSON.stringify({ queuedAt: 1, item: { id, sequence }, pid });
+    writeFileSync(path, ['{"ackedSequence":0}', line('f1', 1, live), line('d2', 2, dead)].join('\n') + '\n');
+
+    const gateway = await startGateway(() => 200);
+    server = gateway.server;
+    const outbox = makeOutbox(gateway.url, { lock: new FileLock(join(tmpDir, 'outbox.lock')) });
+    outbox.enqueue({ id: 'f1', sequence: 1 });
+    outbox.enqueue({ id: 'e3', sequence: 3 });
+    // Another process appends while this one is running
+    appendFileSync(path, line('f4', 4, live) + '\n');
+    await outbox.flush();
+
+    expect(gateway.bodies[0].entries.map((e: Item) => e.id)).toEqual(['d2', 'e3']);
+    const lines = readFileSync(path, 'utf-8').trim().split('\n');
+    expect(lines).toEqual(['{"ackedSequence":3}', line('f1', 1, live), line('f4', 4, live)]);
+    expect(readdirSync(tmpDir).filter((f) => f.endsWith('.tmp'))).toEqual([]);
+    outbox.close();
+  });
+
+  test('audit ledger forwards entries and reports forwarding health', async () => {
+    const gateway = await startGateway(() => 200);
+    server = gateway.server;
+    const ledger = new AuditLedger(
+      {
+        enabled: true,
+        localPath: join(tmpDir, 'ledger.json'),
+        forwardToGateway: true,
+        maxEntries: 100,
+        outbox: { flushIntervalMs: 60_000 },
+      },
+      gateway.url,
+      'gw-key'
+    );
+    for (let i = 0; i < 3; i++) {
+      ledger.append({
+        action: 'test', riskLevel: 'low',
+        consentRequired: false, dataTokenized: false, injectionDetected: false,
+      });
+    }
+    expect(ledger.stats().forwarding).toMatchObject({ pending: 3, healthy: true });
+
+    await ledger.flushForwarding();
+    expect(gateway.bodies[0].path).toBe('/v1/audit');
+    expect(gateway.bodies[0].entries.map((e: Item) => e.sequence)).toEqual([1, 2, 3]);
+    expect(ledger.stats().forwarding).toMatchObject({ pending: 0, sent: 3, ackedSequence: 3 });
+    ledger.close();
+  });
+});
@@ -0,0 +1,68 @@
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { randomBytes } from 'crypto';
+import { LedgerCipher } from '../ledger-cipher';
+import { AuditLedger } from '../audit-ledger';
+import { keyIdFor } from '../ledger-signer';
+
+// Lets a test run code just before the key file is linked into place
+const beforeLink: { hook?: () => void } = {};
+jest.mock('fs', () => {
+  const actual = jest.requireActual('fs');
+  return {
+    ...actual,
+    linkSync: (existing: string, target: string) => {
+      beforeLink.hook?.();
+      actual.linkSync(existing, target);
+    },
+  };
+});
+
+describe('LedgerCipher', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+  });
+
+  afterEach(() => {
+    beforeLink.hook = undefined;
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('creates a key file once and reuses it', () => {
+    const keyFile = join(tmpDir, 'ledger.enc.key');
+    const first = LedgerCipher.fromConfig({}, keyFile);
+    expect(LedgerCipher.fromConfig({}, keyFile).keyId).toBe(first.keyId);
+    expect(readdirSync(tmpDir)).toEqual(['ledger.enc.key']);
+    expect(() => LedgerCipher.fromConfig({}, join(tmpDir, 'missing.key'), false)).toThrow('not found');
+  });
+
+  test('keeps the key file another process created first', () => {
+    const keyFile = join(tmpDir, 'ledger.enc.key');
+    const theirs = randomBytes(32);
+    // The other process writes its key between our existence check and link
+    beforeLink.hook = () => writeFileSync(keyFile, theirs.toString('hex'));
+
+    const cipher = LedgerCipher.fromConfig({}, keyFile);
+    expect(cipher.keyId).toBe(keyIdFor(theirs));
+    expect(readdirSync(tmpDir)).toEqual(['ledger.enc.key']);
+  });
+
+  test('creates the key file for a ledger in a directory that does not exist yet', () => {
+    const dir = join(tmpDir, 'fresh', 'nested');
+    const config = { enabled: true, localPath: join(dir, 'ledger.json'), forwardToGateway: false, maxEntries: 100, encryption: {} };
+    const ledger = new AuditLedger(config);
+    ledger.append({
+      action: 'tool_call', toolName: 'fs_read', riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+    ledger.close();
+
+    expect(readdirSync(dir)).toContain('ledger.enc.key');
+    const reopened = new AuditLedger(config);
+    expect(reopened.verify().valid).toBe(true);
+    reopened.close();
+  });
+});
@@ -0,0 +1,102 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AuditLedger } from '../audit-ledger';
+import { MemoryStorage } from '../ledger-storage';
+import { sqliteAvailable } from '../sqlite-storage';
+import { AuditEntry, AuditLedgerConfig, LedgerStorage } from '../types';
+
+describe('Ledger storage backends', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function makeConfig(storage: AuditLedgerConfig['storage']): AuditLedgerConfig {
+    return {
+      enabled: true,
+      localPath: join(tmpDir, 'ledger.json'),
+      forwardToGateway: false,
+      maxEntries: 100,
+      storage,
+    };
+  }
+
+  function appendOne(ledger: AuditLedger, toolName = 'exec') {
+    return ledger.append({
+      action: 'tool_call', toolName, riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+  }
+
+  test('memory storage keeps the ledger and its keys off disk', () => {
+    const ledger = new AuditLedger(makeConfig('memory'));
+    appendOne(ledger);
+    appendOne(ledger);
+
+    expect(ledger.verify().valid).toBe(true);
+    expect(ledger.query({ toolName: 'exec' }).entries.length).toBe(2);
+    expect(ledger.listKeys().length).toBe(1);
+    ledger.close();
+    expect(readdirSync(tmpDir)).toEqual([]);
+  });
+
+  test('reopens a JSON ledger with the same chain and key ring', () => {
+    const first = new AuditLedger(makeConfig('json'));
+    appendOne(first);
+    const head = appendOne(first);
+    first.close();
+    expect(existsSync(join(tmpDir, 'ledger.keyring.json'))).toBe(true);
+
+    const reopened = new AuditLedger(makeConfig(undefined));
+    const next = appendOne(reopened);
+    expect(next.sequence).toBe(3);
+    expect(next.prevHash).toBe(head.hash);
+    expect(reopened.verify().valid).toBe(true);
+    reopened.close();
+  });
+
+  test('accepts a custom LedgerStorage instance', () => {
+    const appended: number[] = [];
+    class RecordingStorage extends MemoryStorage {
+      append(entry: AuditEntry): void {
+        appended.push(entry.sequence);
+        super.append(entry);
+      }
+    }
+    const storage: LedgerStorage = new RecordingStorage();
+
+    const ledger = new AuditLedger(makeConfig(storage));
+    appendOne(ledger);
+    appendOne(ledger);
+    ledger.close();
+    expect(appended).toEqual([1, 2]);
+    expect(storage.loadKeys()).toContain('activeKeyId');
+
+    // The same backend carries the chain and keys into a new ledger
+    const reopened = new AuditLedger(makeConfig(storage));
+    expect(appendOne(reopened).sequence).toBe(3);
+    expect(reopened.verify().valid).toBe(true);
+    reopened.close();
+  });
+
+  (sqliteAvailable() ? test : test.skip)('stores entries and keys in SQLite', () => {
+    const ledger = new AuditLedger(makeConfig('sqlite'));
+    for (let i = 0; i < 3; i++) appendOne(ledger, i === 1 ? 'read' : 'exec');
+    ledger.close();
+    expect(existsSync(join(tmpDir, 'ledger.sqlite'))).toBe(true);
+    expect(existsSync(join(tmpDir, 'ledger.keyring.json'))).toBe(false);
+
+    // Queries read the database, not just the in-memory window
+    const reopened = new AuditLedger({ ...makeConfig('sqlite'), maxEntries: 1 });
+    const [head] = reopened.getRecent(1);
+    expect(reopened.query({ toolName: 'exec' }).entries.map((e) => e.sequence)).toEqual([1, 3]);
+    expect(appendOne(reopened)).toMatchObject({ sequence: 4, prevHash: head.hash });
+    reopened.close();
+  });
+});
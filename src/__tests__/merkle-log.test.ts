@@ -0,0 +1,130 @@
+import { mkdtempSync, rmSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createHash } from 'crypto';
+import { leafHash, MerkleLog, rootFromAuditPath } from '../merkle-log';
+import { AuditLedger, verifyInclusionProof } from '../audit-ledger';
+import { AuditEntry, AuditLedgerConfig } from '../types';
+
+function makeConfig(dir: string, overrides: Partial<AuditLedgerConfig> = {}): AuditLedgerConfig {
+  return {
+    enabled: true,
+    localPath: join(dir, 'ledger.json'),
+    forwardToGateway: false,
+    maxEntries: 100,
+    signing: 'ed25519',
+    merkle: { treeHeadInterval: 5 },
+    ...overrides,
+  };
+}
+
+function appendMany(ledger: AuditLedger, count: number): AuditEntry[] {
+  return Array.from({ length: count }, (_, i) =>
+    ledger.append({
+      action: 'tool_call', toolName: `tool_${i}`, riskLevel: 'low',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    })
+  );
+}
+
+function fakeEntry(sequence: number): AuditEntry {
+  const hash = createHash('sha256').update(String(sequence)).digest('hex');
+  return { sequence, hash } as AuditEntry;
+}
+
+describe('MerkleLog', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('audit paths lead to the root for every leaf and tree size', () => {
+    const log = new MerkleLog(join(tmpDir, 'ledger'), 1);
+    const entries = Array.from({ length: 13 }, (_, i) => fakeEntry(i + 1));
+    entries.forEach((e) => log.append(e));
+
+    // Two leaves: root is the node hash of both leaves
+    const pair = createHash('sha256')
+      .update(Buffer.from([0x01]))
+      .update(leafHash(entries[0].hash))
+      .update(leafHash(entries[1].hash))
+      .digest();
+    expect(log.root(2).equals(pair)).toBe(true);
+
+    for (let size = 1; size <= 13; size++) {
+      const root = log.root(size);
+      for (let index = 0; index < size; index++) {
+        const path = log.auditPath(index, size);
+        expect(rootFromAuditPath(leafHash(entries[index].hash), index, size, path)?.equals(root)).toBe(true);
+      }
+    }
+
+    const path = log.auditPath(3, 13);
+    expect(rootFromAuditPath(leafHash(entries[4].hash), 3, 13, path)?.equals(log.root(13))).toBe(false);
+    expect(rootFromAuditPath(leafHash(entries[3].hash), 13, 13, path)).toBeUndefined();
+  });
+
+  test('ledger publishes signed tree heads and proves single entries offline', () => {
+    const ledger = new AuditLedger(makeConfig(tmpDir));
+    const entries = appendMany(ledger, 12);
+
+    const heads = ledger.query({ action: 'tree_head' }).entries;
+    expect(heads.map((h) => h.metadata.treeSize)).toEqual([5, 10]);
+
+    const proof = ledger.getInclusionProof(entries[2].id)!;
+    expect(proof).toMatchObject({ leafIndex: 2, treeSize: 10 });
+    expect(proof.treeHead.id).toBe(heads[1].id);
+
+    const { publicKey } = ledger.getPublicKey()!;
+    expect(verifyInclusionProof(proof, { publicKey })).toEqual({ valid: true });
+
+    // Tampered entry, path or tree head all fail
+    const tampered = { ...proof, entry: { ...proof.entry, toolName: 'other' } };
+    expect(verifyInclusionProof(tampered, { publicKey }).reason).toContain('Content hash mismatch');
+    const badPath = { ...proof, auditPath: [...proof.auditPath].reverse() };
+    expect(verifyInclusionProof(badPath, { publicKey }).reason).toBe(
+      'Audit path does not lead to the tree head root'
+    );
+    const forgedHead = {
+      ...proof,
+      treeHead: { ...proof.treeHead, metadata: { ...proof.treeHead.metadata, rootHash: '00'.repeat(32) } },
+    };
+    expect(verifyInclusionProof(forgedHead, { publicKey }).valid).toBe(false);
+
+    // Newer than the latest head until another is published
+    expect(() => ledger.getInclusionProof(entries[11].id)).toThrow('not covered by a tree head');
+    ledger.publishTreeHead();
+    expect(verifyInclusionProof(ledger.getInclusionProof(entries[11].id)!, { publicKey }).valid).toBe(true);
+    expect(ledger.getInclusionProof('missing')).toBeUndefined();
+    expect(ledger.verify().valid).toBe(true);
+  });
+
+  test('proves archived entries and rebuilds lost leaves on load', () => {
+    const config = makeConfig(tmpDir, { retention: { maxLiveEntries: 4 } });
+    const ledger = new AuditLedger(config);
+    const entries = appendMany(ledger, 8);
+    ledger.applyRetention();
+    ledger.publishTreeHead();
+
+    const { publicKey } = ledger.getPublicKey()!;
+    expect(verifyInclusionProof(ledger.getInclusionProof(entries[0].id)!, { publicKey }).valid).toBe(true);
+    const rootBefore = ledger.getInclusionProof(entries[7].id)!.treeHead.metadata.rootHash;
+
+    // Leaves for entries still live are rebuilt from the chain
+    const merkle = new MerkleLog(join(tmpDir, 'ledger'), 1);
+    merkle.truncate(merkle.treeSize - 3);
+    const reopened = new AuditLedger(config);
+    const proof = reopened.getInclusionProof(entries[7].id)!;
+    expect(proof.treeHead.metadata.rootHash).toBe(rootBefore);
+    expect(verifyInclusionProof(proof, { publicKey }).valid).toBe(true);
+
+    // Leaves for archived entries cannot be
+    unlinkSync(join(tmpDir, 'ledger.merkle.leaves'));
+    expect(() => new AuditLedger(config)).toThrow('Cannot rebuild Merkle leaves');
+  });
+});
@@ -0,0 +1,135 @@
+import { createHash } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createAirTrustPlugin } from '../index';
+import { DataVault } from '../data-vault';
+import { captureToolResult, resultCaptureMode, resultDigest } from '../result-capture';
+import { ToolResultEvent } from '../types';
+
+const SECRET = 'sk-abcdefghijklmnopqrstuvwxyz1234';
+
+function makeVault(): DataVault {
+  return new DataVault({ enabled: true, categories: [], customPatterns: [], forwardToGateway: false, ttlMs: 60_000 });
+}
+
+function makeEvent(overrides?: Partial<ToolResultEvent>): ToolResultEvent {
+  return {
+    toolName: 'http_get',
+    args: {},
+    result: { status: 200, body: `token=${SECRET}` },
+    durationMs: 12,
+    sessionId: 's1',
+    timestamp: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+describe('Result capture', () => {
+  test('picks the per-tool mode, falling back to the default', () => {
+    const config = { default: 'none' as const, tools: { exec: 'full' as const } };
+    expect(resultCaptureMode('exec', config)).toBe('full');
+    expect(resultCaptureMode('search', config)).toBe('none');
+    expect(resultCaptureMode('search')).toBe('digest');
+  });
+
+  test('digest mode records size and the digest of the original result only', () => {
+    const event = makeEvent();
+    const { metadata, tokenized } = captureToolResult(event, undefined, makeVault());
+
+    expect(metadata).toEqual({
+      durationMs: 12,
+      status: 'ok',
+      resultCapture: 'digest',
+      resultSize: Buffer.byteLength(`{"body":"token=${SECRET}","status":200}`),
+      resultSha256: resultDigest({ status: 200, body: `token=${SECRET}` }),
+    });
+    expect(tokenized).toBe(false);
+    expect(resultDigest('plain text')).toBe(createHash('sha256').update('plain text').digest('hex'));
+  });
+
+  test('preview and full modes tokenize what they store', () => {
+    const vault = makeVault();
+    const preview = captureToolResult(makeEvent(), { default: 'preview', previewLength: 20 }, vault);
+    expect(preview.tokenized).toBe(true);
+    expect(preview.metadata.resultPreview).toHaveLength(20);
+    expect(preview.metadata.resultTruncated).toBe(true);
+
+    const full = captureToolResult(makeEvent(), { default: 'full' }, vault);
+    const stored = full.metadata.result as { status: number; body: string };
+    expect(stored.status).toBe(200);
+    expect(stored.body).toMatch(/^token=\[AIR:vault:/);
+    expect(JSON.stringify(full.metadata)).not.toContain(SECRET);
+    expect(full.metadata.resultSha256).toBe(resultDigest(makeEvent().result));
+  });
+
+  test('none mode records size and error status', () => {
+    const { metadata } = captureToolResult(
+      makeEvent({ result: undefined, error: `Unauthorized: ${SECRET}` }),
+      { default: 'none' },
+      makeVault()
+    );
+    expect(metadata).toMatchObject({ status: 'error', resultCapture: 'none', resultSize: 4 });
+    expect(metadata.error).toMatch(/^Unauthorized: \[AIR:vault:/);
+    expect(metadata.error).not.toContain(SECRET);
+    expect(metadata.resultSha256).toBeUndefined();
+  });
+
+  test('marks results that cannot be serialized instead of throwing', async () => {
+    const cyclic: Record<string, unknown> = { name: 'node' };
+    cyclic.self = cyclic;
+    for (const mode of ['none', 'digest', 'full'] as const) {
+      const { metadata } = captureToolResult(makeEvent({ result: cyclic }), { default: mode }, makeVault());
+      expect(metadata).toEqual({ durationMs: 12, status: 'ok', resultCapture: 'unserializable' });
+    }
+
+    const tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+    try {
+      const plugin = createAirTrustPlugin({
+        auditLedger: { enabled: true, localPath: join(tmpDir, 'ledger.json'), forwardToGateway: false, maxEntries: 100 },
+      });
+      await expect(plugin.afterToolCall(makeEvent({ result: cyclic }))).resolves.toBeUndefined();
+      expect(plugin.exportAudit()[0].metadata.resultCapture).toBe('unserializable');
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test('full mode tokenizes string values, not the JSON text', () => {
+    const result = { url: 'https://x?token=abcdefghijk', items: [`key ${SECRET}`, 3] };
+    const { metadata, tokenized } = captureToolResult(makeEvent({ result }), { default: 'full' }, makeVault());
+
+    const stored = metadata.result as { url: string; items: [string, number] };
+    expect(tokenized).toBe(true);
+    expect(stored.url).toMatch(/^https:\/\/x\?\[AIR:vault:/);
+    expect(stored.items[0]).toMatch(/^key \[AIR:vault:/);
+    expect(stored.items[1]).toBe(3);
+    expect(metadata.resultSha256).toBe(resultDigest(result));
+  });
+
+  test('plugin records captured results on tool_result entries', async () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+    try {
+      const plugin = createAirTrustPlugin({
+        auditLedger: {
+          enabled: true,
+          localPath: join(tmpDir, 'ledger.json'),
+          forwardToGateway: false,
+          maxEntries: 100,
+          resultCapture: { tools: { http_get: 'full' } },
+        },
+      });
+      await plugin.afterToolCall(makeEvent());
+      await plugin.afterToolCall(makeEvent({ toolName: 'search', result: ['a', 'b'] }));
+
+      const [full, digest] = plugin.exportAudit();
+      expect(full.dataTokenized).toBe(true);
+      expect(full.metadata.resultCapture).toBe('full');
+      expect(JSON.stringify(full)).not.toContain(SECRET);
+      expect(digest.metadata).toMatchObject({ resultCapture: 'digest', resultSha256: resultDigest(['a', 'b']) });
+      expect(plugin.verifyChain().valid).toBe(true);
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,109 @@
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SegmentStore } from '../segment-store';
+import { AuditEntry } from '../types';
+
+function makeEntry(sequence: number): AuditEntry {
+  return {
+    id: `entry-${sequence}`,
+    sequence,
+    hash: `hash-${sequence}`,
+    prevHash: `hash-${sequence - 1}`,
+    signature: 'sig',
+    timestamp: new Date().toISOString(),
+    action: `action_${sequence}`,
+    riskLevel: 'low',
+    consentRequired: false,
+    dataTokenized: false,
+    injectionDetected: false,
+    metadata: {},
+  };
+}
+
+describe('SegmentStore', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('appends one JSON line per entry', () => {
+    const store = new SegmentStore(tmpDir);
+    store.append(makeEntry(1));
+    store.append(makeEntry(2));
+    store.close();
+
+    const lines = readFileSync(join(tmpDir, 'segment-000001.jsonl'), 'utf-8')
+      .trim()
+      .split('\n');
+    expect(lines.length).toBe(2);
+    expect(JSON.parse(lines[1]).sequence).toBe(2);
+  });
+
+  test('rotates segments by size and records them in the manifest', () => {
+    const store = new SegmentStore(tmpDir, { maxBytes: 1 });
+    for (let i = 1; i <= 3; i++) store.append(makeEntry(i));
+    store.close();
+
+    const segments = store.list();
+    expect(segments.length).toBe(3);
+    expect(segments[0].closedAt).toBeTruthy();
+    expect(segments[1].firstSequence).toBe(2);
+    expect(segments[1].prevHash).toBe('hash-1');
+    expect(segments[2].closedAt).toBeUndefined();
+    expect(existsSync(join(tmpDir, 'manifest.json'))).toBe(true);
+  });
+
+  test('rotates segments by age', () => {
+    const store = new SegmentStore(tmpDir, { maxAgeMs: 0 });
+    store.append(makeEntry(1));
+    store.append(makeEntry(2));
+    store.close();
+    expect(store.list().length).toBe(2);
+  });
+
+  test('load resumes head and returns the most recent entries', () => {
+    const store = new SegmentStore(tmpDir, { maxBytes: 1 });
+    for (let i = 1; i <= 5; i++) store.append(makeEntry(i));
+    store.close();
+
+    const reopened = new SegmentStore(tmpDir);
+    const head = reopened.load(2);
+    expect(head.sequence).toBe(5);
+    expect(head.lastHash).toBe('hash-5');
+    expect(head.entries.map((e) => e.sequence)).toEqual([4, 5]);
+  });
+
+  test('load drops a torn trailing line', () => {
+    const store = new SegmentStore(tmpDir);
+    store.append(makeEntry(1));
+    store.append(makeEntry(2));
+    store.close();
+
+    const path = join(tmpDir, 'segment-000001.jsonl');
+    appendFileSync(path, '{"id":"entry-3","sequ');
+
+    const reopened = new SegmentStore(tmpDir);
+    const head = reopened.load(0);
+    expect(head.sequence).toBe(2);
+    expect(head.entries.length).toBe(2);
+    expect(readFileSync(path, 'utf-8').endsWith('\n')).toBe(true);
+
+    reopened.append(makeEntry(3));
+    reopened.close();
+    expect(new SegmentStore(tmpDir).load(0).entries.length).toBe(3);
+  });
+
+  test('readRange spans segments', () => {
+    const store = new SegmentStore(tmpDir, { maxBytes: 1 });
+    for (let i = 1; i <= 6; i++) store.append(makeEntry(i));
+    store.close();
+
+    expect(store.readRange(2, 4).map((e) => e.sequence)).toEqual([2, 3, 4]);
+  });
+});
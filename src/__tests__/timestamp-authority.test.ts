@@ -0,0 +1,250 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createHash, generateKeyPairSync, KeyObject, sign, X509Certificate } from 'crypto';
+import {
+  bitString,
+  children,
+  decode,
+  encode,
+  explicit,
+  generalizedTime,
+  integer,
+  octetString,
+  oid,
+  sequence,
+  set,
+  utf8String,
+} from '../asn1';
+import * as timestampAuthority from '../timestamp-authority';
+import { OID, verifyTimestampToken } from '../timestamp-authority';
+import { AuditLedger, verifyAuditChain } from '../audit-ledger';
+import { AuditLedgerConfig, TimestampAnchor } from '../types';
+
+const ED25519 = '1.3.101.112';
+
+function name(commonName: string): Buffer {
+  return sequence(set(sequence(oid('2.5.4.3'), utf8String(commonName))));
+}
+
+/** Minimal Ed25519 X.509 certificate for `subject`, signed by the issuer's key */
+function makeCertificate(
+  subject: string,
+  publicKey: KeyObject,
+  issuer: string,
+  issuerKey: KeyObject,
+  serial: number
+): X509Certificate {
+  const tbs = sequence(
+    explicit(0, integer(2)),
+    integer(serial),
+    sequence(oid(ED25519)),
+    name(issuer),
+    sequence(generalizedTime(new Date(Date.now() - 3600_000)), generalizedTime(new Date(Date.now() + 3600_000))),
+    name(subject),
+    publicKey.export({ type: 'spki', format: 'der' })
+  );
+  return new X509Certificate(sequence(tbs, sequence(oid(ED25519)), bitString(sign(null, tbs, issuerKey))));
+}
+
+/** Stand-in RFC 3161 TSA: an Ed25519 TSA certificate issued by a test CA */
+function startTsa(options: { status?: number } = {}): Promise<{ server: Server; url: string; ca: X509Certificate }> {
+  const caKeys = generateKeyPairSync('ed25519');
+  const tsaKeys = generateKeyPairSync('ed25519');
+  const ca = makeCertificate('Test CA', caKeys.publicKey, 'Test CA', caKeys.privateKey, 1);
+  const tsaCert = makeCertificate('Test TSA', tsaKeys.publicKey, 'Test CA', caKeys.privateKey, 2);
+  let serial = 100;
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const [, imprint, nonce] = children(decode(Buffer.concat(chunks)));
+      if (options.status) {
+        res.writeHead(200).end(sequence(sequence(integer(options.status))));
+        return;
+      }
+      const tstInfo = sequence(
+        integer(1), oid('1.2.3.4.1'), imprint.raw, integer(serial++), generalizedTime(new Date()), nonce.raw
+      );
+      const attributes = Buffer.concat([
+        sequence(oid(OID.CONTENT_TYPE), set(oid(OID.TST_INFO))),
+        sequence(oid(OID.MESSAGE_DIGEST), set(octetString(createHash('sha256').update(tstInfo).digest()))),
+      ]);
+      const signerInfo = sequence(
+        integer(1),
+        sequence(name('Test CA'), integer(2)),
+        sequence(oid(OID.SHA256)),
+        encode(0xa0, attributes),
+        sequence(oid(ED25519)),
+        octetString(sign(null, encode(0x31, attributes), tsaKeys.privateKey))
+      );
+      const signedData = sequence(
+        integer(3),
+        set(sequence(oid(OID.SHA256))),
+        sequence(oid(OID.TST_INFO), explicit(0, octetString(tstInfo))),
+        encode(0xa0, tsaCert.raw),
+        set(signerInfo)
+      );
+      const token = sequence(oid(OID.SIGNED_DATA), explicit(0, signedData));
+      res.writeHead(200, { 'Content-Type': 'application/timestamp-reply' });
+      res.end(sequence(sequence(integer(0)), token));
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}/tsa`, ca });
+    });
+  });
+}
+
+describe('RFC 3161 timestamping', () => {
+  let tmpDir: string;
+  let server: Server | undefined;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+  });
+
+  afterEach(async () => {
+    if (server) await new Promise((r) => server!.close(r));
+    server = undefined;
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function makeLedger(url: string, trustedCertificates?: string[], file = 'ledger.json'): AuditLedger {
+    const config: AuditLedgerConfig = {
+      enabled: true,
+      localPath: join(tmpDir, file),
+      forwardToGateway: false,
+      maxEntries: 100,
+      signing: 'ed25519',
+      timestamping: { url, trustedCertificates },
+    };
+    return new AuditLedger(config);
+  }
+
+  function appendOne(ledger: AuditLedger) {
+    return ledger.append({
+      action: 'tool_call', toolName: 'exec', riskLevel: 'high',
+      consentRequired: false, dataTokenized: false, injectionDetected: false,
+    });
+  }
+
+  test('anchors the chain head and verifies the token in verify()', async () => {
+    const tsa = await startTsa();
+    server = tsa.server;
+    const ledger = makeLedger(tsa.url, [tsa.ca.toString()]);
+    appendOne(ledger);
+    const head = appendOne(ledger);
+
+    const entry = (await ledger.anchorTimestamp())!;
+    const anchor = entry.metadata as unknown as TimestampAnchor;
+    expect(entry.action).toBe('timestamp_anchor');
+    expect(anchor).toMatchObject({ tsaUrl: tsa.url, anchoredSequence: 2, anchoredHash: head.hash });
+
+    const verification = ledger.verify();
+    expect(verification.valid).toBe(true);
+    expect(verification.timestampAnchor).toEqual({ sequence: 2, genTime: anchor.genTime });
+    expect(ledger.stats().timestamping).toEqual({ anchoredSequence: 2, lastAnchorAt: anchor.genTime });
+
+    // Nothing new to anchor
+    expect(await ledger.anchorTimestamp()).toBeUndefined();
+    ledger.close();
+
+    const token = Buffer.from(anchor.token, 'base64');
+    expect(verifyTimestampToken(token, Buffer.from(head.hash, 'hex'), [tsa.ca]).valid).toBe(true);
+    expect(verifyTimestampToken(token, Buffer.alloc(32), [tsa.ca]).reason).toBe(
+      'Token does not cover the anchored hash'
+    );
+  });
+
+  test('checks each anchor token once, however often stats() runs', async () => {
+    const tsa = await startTsa();
+    server = tsa.server;
+    const ledger = makeLedger(tsa.url, [tsa.ca.toString()]);
+    appendOne(ledger);
+    await ledger.anchorTimestamp();
+    appendOne(ledger);
+    await ledger.anchorTimestamp();
+
+    const check = jest.spyOn(timestampAuthority, 'verifyTimestampToken');
+    try {
+      for (let i = 0; i < 3; i++) expect(ledger.stats().chainValid).toBe(true);
+      expect(check).toHaveBeenCalledTimes(2);
+
+      // An exported chain is verified from scratch
+      const exported = verifyAuditChain(ledger.export(), { publicKey: ledger.getPublicKey()!.publicKey });
+      expect(exported.timestampAnchor?.sequence).toBe(3);
+      expect(check).toHaveBeenCalledTimes(4);
+    } finally {
+      check.mockRestore();
+      ledger.close();
+    }
+  });
+
+  test('reports anchors as untrusted when no trust anchor is configured', async () => {
+    const tsa = await startTsa();
+    server = tsa.server;
+    const ledger = makeLedger(tsa.url);
+    const head = appendOne(ledger);
+    const anchor = (await ledger.anchorTimestamp())!.metadata as unknown as TimestampAnchor;
+
+    // The token's own certificate vouches for its signature, so anyone could have made it
+    const token = Buffer.from(anchor.token, 'base64');
+    expect(verifyTimestampToken(token, Buffer.from(head.hash, 'hex'))).toMatchObject({ valid: true, untrusted: true });
+    expect(verifyTimestampToken(token, Buffer.from(head.hash, 'hex'), [tsa.ca]).untrusted).toBeUndefined();
+    expect(ledger.verify()).toMatchObject({
+      valid: true,
+      timestampAnchor: { sequence: 1, genTime: anchor.genTime, untrusted: true },
+    });
+
+    const trusted = verifyAuditChain(ledger.export(), {
+      publicKey: ledger.getPublicKey()!.publicKey,
+      tsaCertificates: [tsa.ca],
+    });
+    expect(trusted.timestampAnchor).toEqual({ sequence: 1, genTime: anchor.genTime });
+    ledger.close();
+  });
+
+  test('rejects tokens from a TSA that does not chain to a trusted certificate', async () => {
+    const tsa = await startTsa();
+    server = tsa.server;
+    const ledger = makeLedger(tsa.url);
+    appendOne(ledger);
+    await ledger.anchorTimestamp();
+
+    // Integrity-only check passes but is untrusted; a different trust anchor does not
+    expect(ledger.verify()).toMatchObject({ valid: true, timestampAnchor: { untrusted: true } });
+    const other = await startTsa();
+    await new Promise((r) => other.server.close(r));
+    const result = verifyAuditChain(ledger.export(), {
+      publicKey: ledger.getPublicKey()!.publicKey,
+      tsaCertificates: [other.ca],
+    });
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe(
+      'Timestamp anchor at sequence 2: TSA certificate does not chain to a trusted certificate'
+    );
+
+    const strict = makeLedger(tsa.url, [other.ca.toString()], 'strict.json');
+    appendOne(strict);
+    await expect(strict.anchorTimestamp()).rejects.toThrow('does not chain to a trusted certificate');
+    expect(strict.stats().timestamping?.lastError).toContain('does not chain');
+    ledger.close();
+    strict.close();
+  });
+
+  test('surfaces a rejected time-stamp request', async () => {
+    const tsa = await startTsa({ status: 2 });
+    server = tsa.server;
+    const ledger = makeLedger(tsa.url);
+    appendOne(ledger);
+    await expect(ledger.anchorTimestamp()).rejects.toThrow('Time-stamp request rejected with status 2');
+    expect(ledger.export().map((e) => e.action)).toEqual(['tool_call']);
+    ledger.close();
+  });
+});
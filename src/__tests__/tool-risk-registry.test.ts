@@ -0,0 +1,108 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AuditLedger } from '../audit-ledger';
+import { ConsentGate } from '../consent-gate';
+import { ToolRiskRegistry } from '../tool-risk-registry';
+
+describe('ToolRiskRegistry', () => {
+  test('matches whole words of compound names, not substrings', () => {
+    const registry = new ToolRiskRegistry();
+    expect(registry.classify('rm')).toBe('high');
+    expect(registry.classify('transform_data')).toBe('low');
+    expect(registry.classify('format_report')).toBe('low');
+    expect(registry.classify('remote_exec')).toBe('critical');
+    expect(registry.classify('executor_status')).toBe('low');
+    expect(registry.explain('run_shell_command')).toMatchObject({
+      riskLevel: 'critical',
+      source: 'builtin',
+      entry: { pattern: '*_shell_*', sideEffect: 'execute', shellCommand: true },
+    });
+  });
+
+  test('ignores case and matches camelCase, dashed and compound destructive names', () => {
+    const registry = new ToolRiskRegistry();
+    for (const name of ['Exec', 'RunShell', 'bash', 'sh', 'run-bash', 'EXECUTE']) {
+      expect(registry.classify(name)).toBe('critical');
+    }
+    for (const name of ['fs_delete_recursive', 'file_write_json', 'git_push_force', 'delete_file', 'remove_file', 'deleteFile', 'FS_WRITE']) {
+      expect(registry.classify(name)).toBe('high');
+    }
+    expect(registry.explain('RunShell')).toMatchObject({ source: 'builtin', entry: { pattern: '*_shell', shellCommand: true } });
+    expect(registry.explain('Fs_Write').reason).toBe('"Fs_Write" declared in the built-in registry (high)');
+    expect(registry.classify('refresh_cache')).toBe('low');
+    expect(registry.classify('rewrite_summary')).toBe('low');
+  });
+
+  test('config beats registrations, which beat built-ins; exact names beat globs', () => {
+    const registry = new ToolRiskRegistry({
+      tools: [
+        { pattern: 'billing_*', riskLevel: 'high', sideEffect: 'write', reversible: false },
+        { pattern: 'billing_lookup', riskLevel: 'low', sideEffect: 'read' },
+      ],
+      defaultRiskLevel: 'medium',
+    });
+    registry.register({ pattern: 'billing_refund', riskLevel: 'low' });
+    registry.register({ pattern: 'fs_write', riskLevel: 'medium', description: 'Sandboxed' });
+
+    expect(registry.explain('billing_refund')).toMatchObject({ riskLevel: 'high', source: 'config' });
+    expect(registry.explain('billing_lookup').reason).toBe('"billing_lookup" declared in config (low)');
+    expect(registry.explain('fs_write')).toMatchObject({ riskLevel: 'medium', source: 'registered' });
+    expect(registry.explain('mystery')).toEqual({
+      toolName: 'mystery',
+      riskLevel: 'medium',
+      source: 'default',
+      reason: 'No registry entry matches "mystery"; using the default (medium)',
+    });
+
+    registry.register({ pattern: 'fs_write', riskLevel: 'none' });
+    expect(registry.classify('fs_write')).toBe('none');
+    expect(registry.unregister('fs_write')).toBe(true);
+    expect(registry.explain('fs_write')).toMatchObject({ riskLevel: 'high', source: 'builtin' });
+  });
+
+  test('rejects malformed entries', () => {
+    expect(() => new ToolRiskRegistry({ tools: [{ pattern: 'x', riskLevel: 'extreme' as never }] }))
+      .toThrow('Invalid tool risk entry "x": unknown risk level "extreme"');
+    expect(() => new ToolRiskRegistry({ defaultRiskLevel: 'toString' as never })).toThrow('Unknown default risk level');
+  });
+});
+
+describe('ConsentGate with a tool registry', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'air-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('classifies and explains with declared entries', () => {
+    const ledger = new AuditLedger({
+      enabled: true,
+      localPath: join(tmpDir, 'ledger.json'),
+      forwardToGateway: false,
+      maxEntries: 100,
+    });
+    const gate = new ConsentGate(
+      {
+        enabled: true,
+        alwaysRequire: [],
+        neverRequire: [],
+        timeoutMs: 50,
+        riskThreshold: 'high',
+        tools: [{ pattern: 'payments_*', riskLevel: 'critical', sideEffect: 'write', reversible: false }],
+      },
+      ledger
+    );
+    gate.registerTool({ pattern: 'container_run', riskLevel: 'high', sideEffect: 'execute', shellCommand: true });
+
+    expect(gate.requiresConsent('payments_transfer')).toBe(true);
+    expect(gate.classifyRisk('container_run', { command: 'ls' })).toBe('low');
+    const explanation = gate.explainRisk('container_run', { command: 'rm -rf /' });
+    expect(explanation).toMatchObject({ riskLevel: 'critical', source: 'registered', shell: { riskLevel: 'critical' } });
+    expect(explanation.reason).toBe('"container_run" declared by registration (high); its command classified as critical risk');
+  });
+});
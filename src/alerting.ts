@@ -0,0 +1,325 @@
+/**
+ * openclaw-air-trust — Alerting
+ *
+ * Tells a human outside the chat when something needs attention: a
+ * blocked injection, a critical tool call that was refused, repeated
+ * detections in one session, a broken chain. Rules are evaluated
+ * against ledger events (see AuditLedger.subscribe()); matching alerts
+ * go to every configured sink — a webhook with HMAC-signed payloads, a
+ * JSONL file, stdout, or any object implementing AlertSink.
+ *
+ * Repeats of an alert for the same rule, session and tool are
+ * suppressed for `dedupeWindowMs` (the next alert reports how many),
+ * and at most `rateLimit.maxAlerts` are sent per window, so a noisy
+ * session cannot flood the channel. Delivery failures are counted in
+ * stats() and never affect the agent.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { AuditLedger } from './audit-ledger';
+import { entrySessionId } from './audit-query';
+import {
+  Alert,
+  AlertingConfig,
+  AlertRule,
+  AlertSeverity,
+  AlertSink,
+  AlertSinkConfig,
+  AlertStats,
+  AuditEntry,
+  LedgerEvent,
+  RiskLevel,
+  RISK_ORDER,
+} from './types';
+
+const DEFAULT_DEDUPE_WINDOW_MS = 5 * 60 * 1000;
+const DEFAULT_RATE_LIMIT = { maxAlerts: 20, windowMs: 60 * 1000 };
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** Sessions tracked per rule for thresholds and deduplication */
+const MAX_TRACKED_KEYS = 1000;
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { name: 'injection_blocked', events: ['injection_detected'], metadata: { blocked: true }, severity: 'critical' },
+  {
+    name: 'consent_denied',
+    actions: ['consent_rejected', 'consent_timeout', 'consent_denied'],
+    minRiskLevel: 'critical',
+  },
+  {
+    name: 'repeated_injections',
+    events: ['injection_detected'],
+    threshold: { count: 3, windowMs: 10 * 60 * 1000 },
+    severity: 'warning',
+  },
+  { name: 'chain_broken', events: ['verification_failed'] },
+];
+
+export class AlertManager {
+  private rules: AlertRule[];
+  private sinks: AlertSink[];
+  private dedupeWindowMs: number;
+  private rateLimit: { maxAlerts: number; windowMs: number };
+  /** rule + session → times of recent matching events */
+  private occurrences: Map<string, number[]> = new Map();
+  /** rule + session + tool → last alert sent and repeats suppressed since */
+  private recent: Map<string, { sentAt: number; suppressed: number }> = new Map();
+  private sentTimes: number[] = [];
+  private inFlight: Set<Promise<void>> = new Set();
+  private counts: AlertStats = { sent: 0, suppressed: 0, rateLimited: 0, failed: 0 };
+  private unsubscribe: () => void;
+
+  constructor(config: AlertingConfig, ledger: AuditLedger) {
+    this.rules = config.rules ?? DEFAULT_ALERT_RULES;
+    this.sinks = config.sinks.map(createAlertSink);
+    this.dedupeWindowMs = config.dedupeWindowMs ?? DEFAULT_DEDUPE_WINDOW_MS;
+    this.rateLimit = config.rateLimit ?? DEFAULT_RATE_LIMIT;
+    this.unsubscribe = ledger.subscribe((event) => this.handle(event));
+  }
+
+  /** Resolves once every alert raised so far has been delivered or has failed */
+  async flush(): Promise<void> {
+    while (this.inFlight.size > 0) await Promise.all([...this.inFlight]);
+  }
+
+  stats(): AlertStats {
+    return { ...this.counts };
+  }
+
+  /** Stop listening for ledger events */
+  close(): void {
+    this.unsubscribe();
+  }
+
+  // ─── Private ────────────────────────────────────────────────
+
+  private handle(event: LedgerEvent): void {
+    const now = Date.now();
+    for (const rule of this.rules) {
+      if (!ruleMatches(rule, event)) continue;
+      const subject = subjectOf(event);
+
+      let count = 1;
+      if (rule.threshold) {
+        const key = `${rule.name}\u0000${subject.sessionId ?? ''}`;
+        const times = (this.occurrences.get(key) ?? []).filter((t) => now - t < rule.threshold!.windowMs);
+        times.push(now);
+        remember(this.occurrences, key, times);
+        if (times.length < rule.threshold.count) continue;
+        count = times.length;
+      }
+
+      const dedupeKey = `${rule.name}\u0000${subject.sessionId ?? ''}\u0000${subject.toolName ?? ''}`;
+      const previous = this.recent.get(dedupeKey);
+      if (previous && now - previous.sentAt < this.dedupeWindowMs) {
+        previous.suppressed++;
+        this.counts.suppressed++;
+        continue;
+      }
+
+      this.sentTimes = this.sentTimes.filter((t) => now - t < this.rateLimit.windowMs);
+      if (this.sentTimes.length >= this.rateLimit.maxAlerts) {
+        this.counts.rateLimited++;
+        continue;
+      }
+      this.sentTimes.push(now);
+      remember(this.recent, dedupeKey, { sentAt: now, suppressed: 0 });
+
+      this.dispatch(buildAlert(rule, event, count, previous?.suppressed ?? 0));
+    }
+  }
+
+  private dispatch(alert: Alert): void {
+    this.counts.sent++;
+    for (const sink of this.sinks) {
+      const delivery = Promise.resolve()
+        .then(() => sink.send(alert))
+        .catch((err) => {
+          this.counts.failed++;
+          this.counts.lastError = (err as Error).message;
+        })
+        .finally(() => this.inFlight.delete(delivery));
+      this.inFlight.add(delivery);
+    }
+  }
+}
+
+// ─── Sinks ────────────────────────────────────────────────────
+
+/**
+ * POSTs each alert as JSON. With a secret, the request carries
+ * `X-Air-Timestamp` and `X-Air-Signature: sha256=<hex>` — an HMAC over
+ * `<timestamp>.<body>`; receivers check it with verifyAlertSignature().
+ */
+export class WebhookAlertSink implements AlertSink {
+  private options: Extract<AlertSinkConfig, { type: 'webhook' }>;
+
+  constructor(options: Extract<AlertSinkConfig, { type: 'webhook' }>) {
+    this.options = options;
+  }
+
+  async send(alert: Alert): Promise<void> {
+    const body = JSON.stringify(alert);
+    const timestamp = new Date().toISOString();
+    const response = await fetch(this.options.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.options.headers,
+        ...(this.options.secret
+          ? {
+              'X-Air-Timestamp': timestamp,
+              'X-Air-Signature': `sha256=${signAlertPayload(body, this.options.secret, timestamp)}`,
+            }
+          : {}),
+      },
+      body,
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS),
+    });
+    await response.arrayBuffer().catch(() => undefined);
+    if (!response.ok) throw new Error(`Alert webhook responded ${response.status}`);
+  }
+}
+
+/** Appends each alert as a JSON line */
+export class FileAlertSink implements AlertSink {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+    if (!existsSync(dirname(path))) mkdirSync(dirname(path), { recursive: true });
+  }
+
+  send(alert: Alert): void {
+    appendFileSync(this.path, JSON.stringify(alert) + '\n', { mode: 0o600 });
+  }
+}
+
+/** Writes one readable line per alert to stdout */
+export class StdoutAlertSink implements AlertSink {
+  send(alert: Alert): void {
+    process.stdout.write(`[AIR alert] ${alert.severity.toUpperCase()} ${alert.title} (rule ${alert.rule})\n`);
+  }
+}
+
+export function createAlertSink(config: AlertSinkConfig): AlertSink {
+  if ('send' in config) return config;
+  switch (config.type) {
+    case 'webhook':
+      return new WebhookAlertSink(config);
+    case 'file':
+      return new FileAlertSink(config.path);
+    case 'stdout':
+      return new StdoutAlertSink();
+    default:
+      throw new Error(`Unknown alert sink "${(config as { type: string }).type}"`);
+  }
+}
+
+/** HMAC-SHA256 (hex) of `<timestamp>.<body>`, as sent in X-Air-Signature */
+export function signAlertPayload(body: string, secret: string, timestamp: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Check a webhook delivery: `signature` is the X-Air-Signature header,
+ * `timestamp` the X-Air-Timestamp header and `body` the raw request body.
+ */
+export function verifyAlertSignature(body: string, secret: string, timestamp: string, signature: string): boolean {
+  const expected = Buffer.from(`sha256=${signAlertPayload(body, secret, timestamp)}`);
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// ─── Private ────────────────────────────────────────────────
+
+function entryOf(event: LedgerEvent): AuditEntry | undefined {
+  return 'entry' in event ? event.entry : undefined;
+}
+
+function subjectOf(event: LedgerEvent): {
+  sessionId?: string;
+  toolName?: string;
+  riskLevel?: RiskLevel;
+  entry?: AuditEntry;
+} {
+  const entry = entryOf(event);
+  if (entry) {
+    return { sessionId: entrySessionId(entry), toolName: entry.toolName, riskLevel: entry.riskLevel, entry };
+  }
+  if (event.type === 'consent_requested') {
+    return { sessionId: event.sessionId, toolName: event.request.toolName, riskLevel: event.request.riskLevel };
+  }
+  return {};
+}
+
+function ruleMatches(rule: AlertRule, event: LedgerEvent): boolean {
+  if (!(rule.events ?? ['entry_appended']).includes(event.type)) return false;
+  const { riskLevel, entry } = subjectOf(event);
+  if (rule.actions && (!entry || !rule.actions.includes(entry.action))) return false;
+  if (rule.minRiskLevel && (!riskLevel || RISK_ORDER[riskLevel] < RISK_ORDER[rule.minRiskLevel])) return false;
+  if (rule.metadata) {
+    if (!entry) return false;
+    for (const [key, value] of Object.entries(rule.metadata)) {
+      if (entry.metadata[key] !== value) return false;
+    }
+  }
+  return true;
+}
+
+function buildAlert(rule: AlertRule, event: LedgerEvent, count: number, suppressed: number): Alert {
+  const { sessionId, toolName, riskLevel, entry } = subjectOf(event);
+  return {
+    id: randomUUID(),
+    rule: rule.name,
+    severity: rule.severity ?? severityOf(event, riskLevel),
+    timestamp: new Date().toISOString(),
+    title: titleOf(event, count),
+    event: event.type,
+    ...(sessionId ? { sessionId } : {}),
+    ...(toolName ? { toolName } : {}),
+    ...(entry ? { action: entry.action, entryId: entry.id, sequence: entry.sequence } : {}),
+    ...(riskLevel ? { riskLevel } : {}),
+    count,
+    suppressed,
+  };
+}
+
+function severityOf(event: LedgerEvent, riskLevel?: RiskLevel): AlertSeverity {
+  if (event.type === 'verification_failed') return 'critical';
+  if (event.type === 'forwarding_failed') return 'warning';
+  if (riskLevel === 'critical') return 'critical';
+  return riskLevel === 'high' ? 'warning' : 'info';
+}
+
+function titleOf(event: LedgerEvent, count: number): string {
+  switch (event.type) {
+    case 'verification_failed':
+      return `Audit chain broken at sequence ${event.verification.brokenAtSequence}: ${event.verification.reason}`;
+    case 'forwarding_failed':
+      return `Gateway forwarding failing (${event.outbox.consecutiveFailures} attempts): ${event.error}`;
+    case 'consent_requested':
+      return `Consent requested for ${event.request.toolName} (${event.request.riskLevel} risk)`;
+    default: {
+      const { entry } = event;
+      const session = entrySessionId(entry);
+      return [
+        count > 1 ? `${count}× ${entry.action}` : entry.action,
+        entry.toolName,
+        `(${entry.riskLevel} risk)`,
+        session ? `in session ${session}` : undefined,
+      ]
+        .filter(Boolean)
+        .join(' ');
+    }
+  }
+}
+
+/** Set a map key, evicting the oldest keys beyond MAX_TRACKED_KEYS */
+function remember<V>(map: Map<string, V>, key: string, value: V): void {
+  map.delete(key);
+  map.set(key, value);
+  if (map.size > MAX_TRACKED_KEYS) map.delete(map.keys().next().value!);
+}
@@ -0,0 +1,120 @@
+/**
+ * openclaw-air-trust — Archive Store
+ *
+ * Sealed, gzip-compressed archives of entries moved out of the live
+ * ledger by the retention policy. Each archive is a gzipped JSONL file
+ * holding a contiguous run of entries, next to a seal file containing
+ * the signed `archive_sealed` entry that was appended to the live chain
+ * when the archive was written. The seal records the archive's sequence
+ * range, boundary hashes and SHA-256 digest, so an archive can be
+ * verified on its own long after the live chain has moved on.
+ *
+ * Layout:
+ *   <dir>/archive-000001-004200.jsonl.gz
+ *   <dir>/archive-000001-004200.jsonl.gz.seal.json
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { basename, join } from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
+import { encodeRecord, LedgerCipher, openRecord } from './ledger-cipher';
+import { ArchiveInfo, ArchiveSeal, AuditEntry } from './types';
+
+const SEAL_SUFFIX = '.seal.json';
+
+export class ArchiveStore {
+  private dir: string;
+  private cipher?: LedgerCipher;
+
+  constructor(dir: string, options: { cipher?: LedgerCipher } = {}) {
+    this.dir = dir;
+    this.cipher = options.cipher;
+  }
+
+  /**
+   * Compress a contiguous run of entries into a new archive file and
+   * return the seal describing it. The file is complete on disk before
+   * this returns; the caller records the seal in the chain.
+   */
+  write(entries: AuditEntry[]): ArchiveSeal {
+    if (!existsSync(this.dir)) mkdirSync(this.dir, { recursive: true });
+    const first = entries[0];
+    const last = entries[entries.length - 1];
+    const file = `archive-${pad(first.sequence)}-${pad(last.sequence)}.jsonl.gz`;
+
+    const content = gzipSync(entries.map((e) => encodeRecord(e, this.cipher) + '\n').join(''));
+    const path = join(this.dir, file);
+    writeFileSync(`${path}.tmp`, content);
+    renameSync(`${path}.tmp`, path);
+
+    return {
+      file,
+      firstSequence: first.sequence,
+      lastSequence: last.sequence,
+      count: entries.length,
+      prevHash: first.prevHash,
+      lastHash: last.hash,
+      firstTimestamp: first.timestamp,
+      lastTimestamp: last.timestamp,
+      sha256: createHash('sha256').update(content).digest('hex'),
+      bytes: content.length,
+    };
+  }
+
+  /** Store the signed `archive_sealed` entry next to its archive */
+  saveSeal(file: string, sealEntry: AuditEntry): void {
+    const path = join(this.dir, file + SEAL_SUFFIX);
+    writeFileSync(`${path}.tmp`, JSON.stringify(sealEntry, null, 2));
+    renameSync(`${path}.tmp`, path);
+  }
+
+  /** Sealed archives, oldest first */
+  list(): ArchiveInfo[] {
+    if (!existsSync(this.dir)) return [];
+    return readdirSync(this.dir)
+      .filter((name) => name.endsWith(SEAL_SUFFIX))
+      .map((name) => {
+        const sealEntry = readSeal(join(this.dir, name.slice(0, -SEAL_SUFFIX.length)));
+        return {
+          ...(sealEntry.metadata as unknown as ArchiveSeal),
+          sealSequence: sealEntry.sequence,
+          sealedAt: sealEntry.timestamp,
+        };
+      })
+      .sort((a, b) => a.firstSequence - b.firstSequence);
+  }
+
+  path(file: string): string {
+    return join(this.dir, basename(file));
+  }
+
+  /** Delete an archive and its seal */
+  remove(file: string): void {
+    for (const path of [this.path(file), this.path(file) + SEAL_SUFFIX]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+  }
+}
+
+/** Decompress and decode every entry in an archive file */
+export function readArchive(path: string, cipher?: LedgerCipher): AuditEntry[] {
+  return gunzipSync(readFileSync(path))
+    .toString('utf-8')
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .map((line) => openRecord<AuditEntry>(JSON.parse(line), cipher));
+}
+
+/** The signed `archive_sealed` entry stored next to an archive */
+export function readSeal(archivePath: string): AuditEntry {
+  return JSON.parse(readFileSync(archivePath + SEAL_SUFFIX, 'utf-8'));
+}
+
+export function archiveDigest(path: string): string {
+  return createHash('sha256').update(readFileSync(path)).digest('hex');
+}
+
+function pad(sequence: number): string {
+  return String(sequence).padStart(6, '0');
+}
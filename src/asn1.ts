@@ -0,0 +1,191 @@
+/**
+ * openclaw-air-trust — ASN.1 DER
+ *
+ * Just enough DER encoding and decoding for RFC 3161 time-stamp
+ * requests and responses (and the CMS SignedData inside them). Not a
+ * general-purpose ASN.1 library: only definite lengths, and only the
+ * universal types those structures use.
+ */
+
+export const TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const;
+
+/** A decoded TLV */
+export interface Asn1Node {
+  tag: number;
+  /** Value bytes */
+  content: Buffer;
+  /** The whole encoding, header included */
+  raw: Buffer;
+}
+
+// ─── Encoding ────────────────────────────────────────────────
+
+export function encode(tag: number, content: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([tag]), encodeLength(content.length), content]);
+}
+
+export function sequence(...items: Buffer[]): Buffer {
+  return encode(TAG.SEQUENCE, Buffer.concat(items));
+}
+
+export function set(...items: Buffer[]): Buffer {
+  return encode(TAG.SET, Buffer.concat(items));
+}
+
+/** Context-specific constructed tag [n] wrapping `inner` (EXPLICIT) */
+export function explicit(n: number, inner: Buffer): Buffer {
+  return encode(0xa0 + n, inner);
+}
+
+/** Non-negative INTEGER from a number, bigint or big-endian bytes */
+export function integer(value: number | bigint | Buffer): Buffer {
+  let bytes: Buffer;
+  if (Buffer.isBuffer(value)) {
+    bytes = value;
+  } else {
+    let hex = BigInt(value).toString(16);
+    if (hex.length % 2) hex = '0' + hex;
+    bytes = Buffer.from(hex, 'hex');
+  }
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) start++;
+  bytes = bytes.subarray(start);
+  // Keep the value positive
+  if (bytes[0] & 0x80) bytes = Buffer.concat([Buffer.from([0]), bytes]);
+  return encode(TAG.INTEGER, bytes);
+}
+
+export function boolean(value: boolean): Buffer {
+  return encode(TAG.BOOLEAN, Buffer.from([value ? 0xff : 0]));
+}
+
+export function nullValue(): Buffer {
+  return encode(TAG.NULL, Buffer.alloc(0));
+}
+
+export function octetString(value: Buffer): Buffer {
+  return encode(TAG.OCTET_STRING, value);
+}
+
+export function bitString(value: Buffer): Buffer {
+  return encode(TAG.BIT_STRING, Buffer.concat([Buffer.from([0]), value]));
+}
+
+export function utf8String(value: string): Buffer {
+  return encode(TAG.UTF8_STRING, Buffer.from(value, 'utf-8'));
+}
+
+export function oid(dotted: string): Buffer {
+  const [first, second, ...rest] = dotted.split('.').map(Number);
+  const bytes = [first * 40 + second];
+  for (const arc of rest) {
+    const group = [arc & 0x7f];
+    for (let v = Math.floor(arc / 128); v > 0; v = Math.floor(v / 128)) {
+      group.unshift((v & 0x7f) | 0x80);
+    }
+    bytes.push(...group);
+  }
+  return encode(TAG.OID, Buffer.from(bytes));
+}
+
+/** GeneralizedTime in UTC with whole seconds */
+export function generalizedTime(date: Date): Buffer {
+  const text = date.toISOString().replace(/[-:T]/g, '').replace(/\.\d+Z$/, 'Z');
+  return encode(TAG.GENERALIZED_TIME, Buffer.from(text, 'ascii'));
+}
+
+// ─── Decoding ────────────────────────────────────────────────
+
+/** Decode the TLV starting at `offset` */
+export function decode(buffer: Buffer, offset = 0): Asn1Node {
+  if (offset + 2 > buffer.length) throw new Error('Truncated DER value');
+  const tag = buffer[offset];
+  let length = buffer[offset + 1];
+  let header = 2;
+  if (length & 0x80) {
+    const bytes = length & 0x7f;
+    if (bytes === 0 || bytes > 4) throw new Error('Unsupported DER length');
+    length = 0;
+    for (let i = 0; i < bytes; i++) length = length * 256 + buffer[offset + 2 + i];
+    header += bytes;
+  }
+  const end = offset + header + length;
+  if (end > buffer.length) throw new Error('Truncated DER value');
+  return {
+    tag,
+    content: buffer.subarray(offset + header, end),
+    raw: buffer.subarray(offset, end),
+  };
+}
+
+/** Decode the elements of a constructed value */
+export function children(node: Asn1Node): Asn1Node[] {
+  const items: Asn1Node[] = [];
+  for (let offset = 0; offset < node.content.length; ) {
+    const item = decode(node.content, offset);
+    items.push(item);
+    offset += item.raw.length;
+  }
+  return items;
+}
+
+/** Decode a value and check its tag */
+export function expectTag(node: Asn1Node | undefined, tag: number, what: string): Asn1Node {
+  if (!node || node.tag !== tag) throw new Error(`Malformed ${what}`);
+  return node;
+}
+
+export function readOid(node: Asn1Node): string {
+  const bytes = node.content;
+  const arcs = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let value = 0;
+  for (const byte of bytes.subarray(1)) {
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      arcs.push(value);
+      value = 0;
+    }
+  }
+  return arcs.join('.');
+}
+
+/** INTEGER as unsigned big-endian hex, without leading zero bytes */
+export function readIntegerHex(node: Asn1Node): string {
+  let start = 0;
+  while (start < node.content.length - 1 && node.content[start] === 0) start++;
+  return node.content.subarray(start).toString('hex');
+}
+
+export function readTime(node: Asn1Node): Date {
+  const text = node.content.toString('ascii');
+  const match = /^(\d{2}|\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\.\d+)?Z$/.exec(text);
+  if (!match) throw new Error(`Unsupported time value ${text}`);
+  let year = Number(match[1]);
+  if (node.tag === TAG.UTC_TIME) year += year < 50 ? 2000 : 1900;
+  const [, , month, day, hour, minute, second, fraction] = match;
+  return new Date(
+    Date.UTC(year, Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)) +
+      Math.floor(Number(fraction ?? 0) * 1000)
+  );
+}
+
+// ─── Private ─────────────────────────────────────────────────
+
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) return Buffer.from([length]);
+  const bytes: number[] = [];
+  for (let v = length; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
@@ -0,0 +1,339 @@
+/**
+ * openclaw-air-trust — Audit Exporters
+ *
+ * Serialize audit entries for downstream systems:
+ * - jsonl   one entry per line, exactly as stored
+ * - csv     RFC 4180, one row per entry, metadata as a JSON column
+ * - syslog  RFC 5424 messages carrying an ArcSight CEF payload, for SIEMs
+ * - otlp    OpenTelemetry logs in OTLP/JSON (ExportLogsServiceRequest)
+ *
+ * Every exporter can serialize a whole batch or emit one record at a
+ * time; AuditExportStream wraps the latter as a Node stream so entries
+ * can be piped to a file or socket as they are produced.
+ */
+
+import { hostname } from 'os';
+import { Transform, TransformCallback } from 'stream';
+import { entrySessionId } from './audit-query';
+import { canonicalize } from './canonical-json';
+import { AuditEntry, AuditExportFormat, RiskLevel } from './types';
+
+const PRODUCT_NAME = 'openclaw-air-trust';
+const PRODUCT_VERSION = '0.1.0';
+const CEF_VENDOR = 'AIR Blackbox';
+
+/** Syslog facility 13: log audit */
+const DEFAULT_SYSLOG_FACILITY = 13;
+
+export interface AuditExporter {
+  readonly format: AuditExportFormat;
+  /** MIME type of serialized output */
+  readonly contentType: string;
+  /** Serialize a complete batch as one document */
+  serialize(entries: AuditEntry[]): string;
+  /** Text written once before streamed records (e.g. the CSV header row) */
+  header(): string;
+  /** One self-contained streamed record, including its trailing newline */
+  record(entry: AuditEntry): string;
+}
+
+export interface ExporterOptions {
+  /** Syslog HOSTNAME field (default: this machine's hostname) */
+  hostname?: string;
+  /** Syslog APP-NAME field (default: openclaw-air-trust) */
+  appName?: string;
+  /** Syslog facility code (default: 13, log audit) */
+  facility?: number;
+  /** OTLP resource `service.name` (default: openclaw-air-trust) */
+  serviceName?: string;
+}
+
+export const EXPORT_FORMATS: readonly AuditExportFormat[] = ['jsonl', 'csv', 'syslog', 'otlp'];
+
+export function createExporter(format: AuditExportFormat, options: ExporterOptions = {}): AuditExporter {
+  switch (format) {
+    case 'jsonl':
+      return lineExporter('jsonl', 'application/x-ndjson', (e) => JSON.stringify(e));
+    case 'csv':
+      return csvExporter();
+    case 'syslog':
+      return lineExporter('syslog', 'text/plain', (e) => syslogMessage(e, options));
+    case 'otlp':
+      return otlpExporter(options);
+    default:
+      throw new Error(`Unknown export format "${format as string}"`);
+  }
+}
+
+/**
+ * Object-mode writable, text readable: write AuditEntry objects in,
+ * read serialized records out. The format's header (if any) is emitted
+ * before the first record, or on end when nothing was written.
+ */
+export class AuditExportStream extends Transform {
+  private exporter: AuditExporter;
+  private started = false;
+
+  constructor(exporter: AuditExporter) {
+    super({ writableObjectMode: true });
+    this.exporter = exporter;
+  }
+
+  _transform(entry: AuditEntry, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      this.start();
+      callback(null, this.exporter.record(entry));
+    } catch (err) {
+      callback(err as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.start();
+    callback();
+  }
+
+  private start(): void {
+    if (this.started) return;
+    this.started = true;
+    const header = this.exporter.header();
+    if (header) this.push(header);
+  }
+}
+
+// ─── CSV ──────────────────────────────────────────────────────
+
+const CSV_COLUMNS: Array<[string, (e: AuditEntry) => unknown]> = [
+  ['sequence', (e) => e.sequence],
+  ['id', (e) => e.id],
+  ['timestamp', (e) => e.timestamp],
+  ['action', (e) => e.action],
+  ['toolName', (e) => e.toolName],
+  ['sessionId', (e) => entrySessionId(e)],
+  ['riskLevel', (e) => e.riskLevel],
+  ['consentRequired', (e) => e.consentRequired],
+  ['consentGranted', (e) => e.consentGranted],
+  ['dataTokenized', (e) => e.dataTokenized],
+  ['injectionDetected', (e) => e.injectionDetected],
+  ['callId', (e) => e.callId],
+  ['hash', (e) => e.hash],
+  ['prevHash', (e) => e.prevHash],
+  ['hashVersion', (e) => e.hashVersion],
+  ['signature', (e) => e.signature],
+  ['signatureAlgorithm', (e) => e.signatureAlgorithm ?? 'hmac-sha256'],
+  ['keyId', (e) => e.keyId],
+  ['metadata', (e) => canonicalize(e.metadata)],
+];
+
+function csvExporter(): AuditExporter {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',') + '\r\n';
+  const record = (e: AuditEntry) => CSV_COLUMNS.map(([, get]) => csvCell(get(e))).join(',') + '\r\n';
+  return {
+    format: 'csv',
+    contentType: 'text/csv',
+    serialize: (entries) => header + entries.map(record).join(''),
+    header: () => header,
+    record,
+  };
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// ─── Syslog / CEF ─────────────────────────────────────────────
+
+/** Syslog severity and CEF severity (0–10) per risk level */
+const SEVERITY: Record<RiskLevel, { syslog: number; cef: number }> = {
+  none: { syslog: 6, cef: 0 },      // informational
+  low: { syslog: 5, cef: 3 },       // notice
+  medium: { syslog: 4, cef: 5 },    // warning
+  high: { syslog: 3, cef: 8 },      // error
+  critical: { syslog: 2, cef: 10 }, // critical
+};
+
+function syslogMessage(entry: AuditEntry, options: ExporterOptions): string {
+  const pri = (options.facility ?? DEFAULT_SYSLOG_FACILITY) * 8 + SEVERITY[entry.riskLevel].syslog;
+  const header = [
+    `<${pri}>1`,
+    entry.timestamp,
+    syslogField(options.hostname ?? hostname(), 255),
+    syslogField(options.appName ?? PRODUCT_NAME, 48),
+    '-',                                  // PROCID
+    syslogField(entry.action, 32),        // MSGID
+    '-',                                  // STRUCTURED-DATA
+  ].join(' ');
+  return `${header} ${cefMessage(entry)}`;
+}
+
+/** RFC 5424 header fields are printable US-ASCII without spaces, '-' when empty */
+function syslogField(value: string, maxLength: number): string {
+  const clean = value.replace(/[^\x21-\x7e]/g, '_').slice(0, maxLength);
+  return clean || '-';
+}
+
+function cefMessage(entry: AuditEntry): string {
+  const name = entry.toolName ? `${entry.action} ${entry.toolName}` : entry.action;
+  const header = [
+    'CEF:0',
+    CEF_VENDOR,
+    PRODUCT_NAME,
+    PRODUCT_VERSION,
+    entry.action,
+    name,
+    String(SEVERITY[entry.riskLevel].cef),
+  ].map(cefHeader).join('|');
+
+  const sessionId = entrySessionId(entry);
+  const extension: Array<[string, unknown]> = [
+    ['rt', Date.parse(entry.timestamp)],
+    ['externalId', entry.id],
+    ['act', entry.action],
+    ['cn1Label', 'sequence'], ['cn1', entry.sequence],
+    ['cs1Label', 'toolName'], ['cs1', entry.toolName],
+    ['cs2Label', 'sessionId'], ['cs2', sessionId],
+    ['cs3Label', 'riskLevel'], ['cs3', entry.riskLevel],
+    ['cs4Label', 'hash'], ['cs4', entry.hash],
+    ['cs5Label', 'prevHash'], ['cs5', entry.prevHash],
+    ['cs6Label', 'signature'], ['cs6', entry.signature],
+    ['airSignatureAlgorithm', entry.signatureAlgorithm ?? 'hmac-sha256'],
+    ['airKeyId', entry.keyId],
+    ['airConsentRequired', entry.consentRequired],
+    ['airConsentGranted', entry.consentGranted],
+    ['airDataTokenized', entry.dataTokenized],
+    ['airInjectionDetected', entry.injectionDetected],
+    ['airCallId', entry.callId],
+  ];
+
+  return `${header}|${extension
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${cefValue(String(value))}`)
+    .join(' ')}`;
+}
+
+/** CEF header fields escape backslash and pipe */
+function cefHeader(value: string): string {
+  return value.replace(/[\\|]/g, (c) => `\\${c}`).replace(/[\r\n]+/g, ' ');
+}
+
+/** CEF extension values escape backslash, equals and line breaks */
+function cefValue(value: string): string {
+  return value
+    .replace(/[\\=]/g, (c) => `\\${c}`)
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n');
+}
+
+// ─── OTLP ─────────────────────────────────────────────────────
+
+/** OpenTelemetry SeverityNumber per risk level */
+const OTLP_SEVERITY: Record<RiskLevel, number> = {
+  none: 9,      // INFO
+  low: 10,      // INFO2
+  medium: 13,   // WARN
+  high: 17,     // ERROR
+  critical: 21, // FATAL
+};
+
+type OtlpValue = { stringValue: string } | { boolValue: boolean } | { intValue: string };
+
+function otlpExporter(options: ExporterOptions): AuditExporter {
+  const request = (entries: AuditEntry[]) => ({
+    resourceLogs: [
+      {
+        resource: {
+          attributes: [
+            otlpAttribute('service.name', options.serviceName ?? PRODUCT_NAME),
+            otlpAttribute('service.version', PRODUCT_VERSION),
+          ].filter(isDefined),
+        },
+        scopeLogs: [
+          {
+            scope: { name: PRODUCT_NAME, version: PRODUCT_VERSION },
+            logRecords: entries.map(otlpLogRecord),
+          },
+        ],
+      },
+    ],
+  });
+
+  return {
+    format: 'otlp',
+    contentType: 'application/json',
+    serialize: (entries) => JSON.stringify(request(entries)),
+    header: () => '',
+    // One ExportLogsServiceRequest per line, as the OTel file exporter writes
+    record: (entry) => JSON.stringify(request([entry])) + '\n',
+  };
+}
+
+function otlpLogRecord(entry: AuditEntry) {
+  const timeUnixNano = (BigInt(Date.parse(entry.timestamp)) * 1_000_000n).toString();
+  return {
+    timeUnixNano,
+    observedTimeUnixNano: timeUnixNano,
+    severityNumber: OTLP_SEVERITY[entry.riskLevel],
+    severityText: entry.riskLevel.toUpperCase(),
+    eventName: `air.${entry.action}`,
+    body: { stringValue: entry.toolName ? `${entry.action} ${entry.toolName}` : entry.action },
+    attributes: [
+      otlpAttribute('air.entry.id', entry.id),
+      otlpAttribute('air.action', entry.action),
+      otlpAttribute('air.risk_level', entry.riskLevel),
+      otlpAttribute('gen_ai.tool.name', entry.toolName),
+      otlpAttribute('session.id', entrySessionId(entry)),
+      otlpAttribute('air.call.id', entry.callId),
+      otlpAttribute('air.consent.required', entry.consentRequired),
+      otlpAttribute('air.consent.granted', entry.consentGranted),
+      otlpAttribute('air.data_tokenized', entry.dataTokenized),
+      otlpAttribute('air.injection_detected', entry.injectionDetected),
+      otlpAttribute('air.chain.sequence', entry.sequence),
+      otlpAttribute('air.chain.hash', entry.hash),
+      otlpAttribute('air.chain.prev_hash', entry.prevHash),
+      otlpAttribute('air.chain.hash_version', entry.hashVersion),
+      otlpAttribute('air.chain.signature', entry.signature),
+      otlpAttribute('air.chain.signature_algorithm', entry.signatureAlgorithm ?? 'hmac-sha256'),
+      otlpAttribute('air.chain.key_id', entry.keyId),
+      otlpAttribute('air.metadata', canonicalize(entry.metadata)),
+    ].filter(isDefined),
+  };
+}
+
+function otlpAttribute(
+  key: string,
+  value: string | number | boolean | undefined
+): { key: string; value: OtlpValue } | undefined {
+  if (value === undefined) return undefined;
+  switch (typeof value) {
+    case 'boolean':
+      return { key, value: { boolValue: value } };
+    case 'number':
+      // OTLP/JSON encodes 64-bit integers as strings
+      return { key, value: { intValue: String(value) } };
+    default:
+      return { key, value: { stringValue: value } };
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+function lineExporter(
+  format: AuditExportFormat,
+  contentType: string,
+  line: (entry: AuditEntry) => string
+): AuditExporter {
+  const record = (entry: AuditEntry) => line(entry) + '\n';
+  return {
+    format,
+    contentType,
+    serialize: (entries) => entries.map(record).join(''),
+    header: () => '',
+    record,
+  };
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+  return value !== undefined;
+}
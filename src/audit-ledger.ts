@@ -5,30 +5,121 @@
  * Each entry includes the hash of the previous entry, creating
  * a blockchain-style chain. Modifying any entry breaks the chain.
  *
- * Supports local persistence and non-blocking forwarding to
- * the AIR Blackbox gateway.
+ * Entries are signed with a local HMAC secret, or with an Ed25519
+ * private key whose public key lets third parties verify the chain
+ * offline via verifyAuditChain(). Signing keys live in a KeyRing and
+ * can be rotated; each entry records the ID of the key that signed it.
+ *
+ * Persistence goes through a pluggable LedgerStorage backend (memory,
+ * a single JSON document, append-only JSONL segments or SQLite), with
+ * durable forwarding to the AIR Blackbox gateway through a
+ * GatewayOutbox. Several processes can share one ledger: writes are
+ * serialized with a FileLock and start by catching up with entries the
+ * others appended. Optionally keeps a Merkle tree over entry hashes
+ * (MerkleLog) for per-entry inclusion proofs, and anchors the chain
+ * head with an RFC 3161 Time-Stamp Authority.
  */
 
-import { createHmac, createHash, randomBytes, randomUUID } from 'crypto';
-import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
-import { dirname } from 'path';
+import { createHash, KeyObject, randomUUID, X509Certificate } from 'crypto';
+import { SegmentStore } from './segment-store';
+import { JsonFileStorage, MemoryStorage } from './ledger-storage';
+import { SqliteStorage } from './sqlite-storage';
+import { FileLock } from './file-lock';
+import { GatewayOutbox } from './gateway-outbox';
+import { archiveDigest, ArchiveStore, readArchive, readSeal } from './archive-store';
+import { LedgerCipher } from './ledger-cipher';
+import { leafHash, MERKLE_ALGORITHM, MerkleLog, rootFromAuditPath } from './merkle-log';
+import { loadCertificates, requestTimestamp, verifyTimestampToken } from './timestamp-authority';
+import { canonicalize, toJsonValue } from './canonical-json';
+import { decodeCursor, DEFAULT_QUERY_LIMIT, encodeCursor, entrySessionId, matchesQuery } from './audit-query';
+import { buildSessionTimeline } from './session-timeline';
+import { LedgerEventBus } from './ledger-events';
+import { createEd25519Verifier, LedgerSigner, SignatureVerifier } from './ledger-signer';
+import { KeyInfo, KeyRing } from './key-ring';
 import {
+  ArchiveInfo,
+  ArchiveSeal,
+  ArchiveVerification,
   AuditEntry,
   AuditLedgerConfig,
+  AuditQuery,
+  AuditQueryResult,
+  CallTrace,
+  ChainCheckpoint,
   ChainVerification,
+  InclusionProof,
+  InclusionVerification,
+  LedgerEvent,
+  LedgerEventFilter,
+  LedgerEventListener,
+  LedgerEventOf,
+  LedgerEventType,
+  LedgerStorage,
+  OutboxStats,
+  RetentionConfig,
   RiskLevel,
+  SessionTimeline,
+  SignatureAlgorithm,
+  TimestampAnchor,
+  TimestampingStats,
+  TreeHead,
 } from './types';
 
 const GENESIS_HASH = '0000000000000000000000000000000000000000000000000000000000000000';
 
+/**
+ * Content hash schemes:
+ * 1 — JSON.stringify of a fixed field list (entries written before hashVersion existed)
+ * 2 — RFC 8785-style canonical JSON of every field outside the signing envelope
+ */
+const CURRENT_HASH_VERSION = 2;
+const SUPPORTED_HASH_VERSIONS = [1, 2];
+
+/** Fields excluded from the v2 content hash: the hash itself and the signing envelope */
+const UNHASHED_FIELDS = new Set([
+  'hash',
+  'prevHash',
+  'signature',
+  'signatureAlgorithm',
+  'keyId',
+  'publicKey',
+]);
+
+/** Entries the retention policy itself appends */
+const RETENTION_ACTIONS = new Set(['archive_sealed', 'archive_disposed']);
+
+const DEFAULT_TREE_HEAD_INTERVAL = 1000;
+const DEFAULT_TIMESTAMP_INTERVAL_MS = 60 * 60 * 1000;
+
+/** Checkpoints retained once entries are trimmed — only the newest few can anchor */
+const MAX_CHECKPOINTS = 16;
+
+/** Share of `maxEntries` trimmed at once, so a full window checkpoints once per batch */
+const TRIM_BATCH_RATIO = 0.1;
+
 export class AuditLedger {
   private entries: AuditEntry[] = [];
-  private secret: Buffer;
+  private checkpoints: ChainCheckpoint[] = [];
+  private keyRing?: KeyRing;
+  private signer?: LedgerSigner;
   private lastHash: string = GENESIS_HASH;
   private sequence: number = 0;
   private config: AuditLedgerConfig;
-  private gatewayUrl?: string;
-  private gatewayKey?: string;
+  private storage: LedgerStorage;
+  private basePath: string;
+  private lock?: FileLock;
+  private outbox?: GatewayOutbox<AuditEntry>;
+  private cipher?: LedgerCipher;
+  private archives: ArchiveStore;
+  private merkle?: MerkleLog;
+  private tsaCertificates: X509Certificate[];
+  private timestamping: TimestampingStats = {};
+  private timestampTimer?: ReturnType<typeof setInterval>;
+  /** Hashes of anchor entries whose tokens verify() has already checked */
+  private verifiedAnchors: Set<string> = new Set();
+  private events = new LedgerEventBus();
+  /** Last verification failure reported, so a broken chain is reported once */
+  private reportedFailure?: string;
 
   constructor(
     config: AuditLedgerConfig,
@@ -36,21 +127,66 @@ export class AuditLedger {
     gatewayKey?: string
   ) {
     this.config = config;
-    this.gatewayUrl = gatewayUrl;
-    this.gatewayKey = gatewayKey;
 
-    // Load or generate HMAC key
-    const keyPath = config.localPath.replace(/\.json$/, '') + '.key';
-    if (existsSync(keyPath)) {
-      this.secret = Buffer.from(readFileSync(keyPath, 'utf-8').trim(), 'hex');
-    } else {
-      this.secret = randomBytes(32);
-      this.ensureDir(keyPath);
-      writeFileSync(keyPath, this.secret.toString('hex'), { mode: 0o600 });
+    const basePath = config.localPath.replace(/\.json$/, '');
+    this.basePath = basePath;
+    if (config.encryption) {
+      this.cipher = LedgerCipher.fromConfig(config.encryption, basePath + '.enc.key', !config.readOnly);
     }
+    this.storage = this.createStorage(basePath);
+    this.archives = new ArchiveStore(basePath + '.archives', { cipher: this.cipher });
 
-    // Load existing chain
-    this.loadChain();
+    // Other processes may share the ledger: writes are serialized on a
+    // lock file, and the first process to start creates the key ring
+    const fileBacked = typeof config.storage !== 'object' && config.storage !== 'memory';
+    if (!config.readOnly && config.locking !== false && (config.locking || fileBacked)) {
+      this.lock = new FileLock(basePath + '.lock', config.locking || {});
+    }
+    this.lock?.acquire();
+    try {
+      this.loadKeyRing();
+      this.loadChain();
+      if (config.merkle) this.openMerkle();
+    } finally {
+      this.lock?.release();
+    }
+
+    if (config.forwardToGateway && gatewayUrl && !config.readOnly) {
+      this.outbox = new GatewayOutbox<AuditEntry>({
+        ...config.outbox,
+        url: `${gatewayUrl}/v1/audit`,
+        apiKey: gatewayKey,
+        batchKey: 'entries',
+        idOf: (entry) => entry.id,
+        sequenceOf: (entry) => entry.sequence,
+        path: basePath + '.outbox.jsonl',
+        cipher: this.cipher,
+        lock: this.lock,
+        // History written before forwarding was enabled is not replayed
+        startAfterSequence: this.sequence,
+        onFailure: (error, outbox) =>
+          this.publish({ type: 'forwarding_failed', timestamp: new Date().toISOString(), error, outbox }),
+      });
+      // Re-queue entries persisted locally that never reached the outbox
+      // (a crash between the two writes)
+      for (const entry of this.entriesAfter(this.outbox.watermark)) {
+        this.outbox.enqueue(entry);
+      }
+    }
+
+    this.tsaCertificates = loadCertificates(config.timestamping?.trustedCertificates);
+    if (config.timestamping && !config.readOnly) {
+      this.timestampTimer = setInterval(() => {
+        // Failures are reported in stats() and retried on the next tick
+        this.anchorTimestamp().catch(() => undefined);
+      }, config.timestamping.intervalMs ?? DEFAULT_TIMESTAMP_INTERVAL_MS);
+      if (this.timestampTimer.unref) this.timestampTimer.unref();
+    }
+
+    // Switching signing scheme is a rotation, recorded in the chain
+    if (this.signer && config.signing && config.signing !== this.signer.algorithm) {
+      this.rotateKey(config.signing);
+    }
   }
 
   /**
@@ -60,6 +196,8 @@ export class AuditLedger {
   append(params: {
     action: string;
     toolName?: string;
+    sessionId?: string;
+    callId?: string;
     riskLevel: RiskLevel;
     consentRequired: boolean;
     consentGranted?: boolean;
@@ -67,137 +205,198 @@ export class AuditLedger {
     injectionDetected: boolean;
     metadata?: Record<string, unknown>;
   }): AuditEntry {
+    return this.appendSigned(params);
+  }
+
+  /**
+   * Rotate the signing key. A `key_rotated` entry naming the old and new
+   * key IDs is appended and signed with the outgoing key; every later
+   * entry is signed with the new one. The old key stays in the ring so
+   * earlier entries still verify, and verify() flags anything it signs
+   * after the rotation entry.
+   */
+  rotateKey(algorithm?: SignatureAlgorithm): AuditEntry {
+    return this.withLock(() => {
+      const current = this.requireSigner();
+      const { previous, next } = this.keyRing!.rotate(
+        algorithm ?? current.algorithm,
+        this.sequence + 1
+      );
+      this.signer = next;
+
+      return this.appendSigned(
+        {
+          action: 'key_rotated',
+          riskLevel: 'none',
+          consentRequired: false,
+          dataTokenized: false,
+          injectionDetected: false,
+          metadata: {
+            previousKeyId: previous.keyId,
+            newKeyId: next.keyId,
+            algorithm: next.algorithm,
+            ...(next.publicKey ? { publicKey: next.publicKey } : {}),
+          },
+        },
+        previous
+      );
+    });
+  }
+
+  /** Keys in the ring (public material only) */
+  listKeys(): KeyInfo[] {
+    return this.keyRing?.list() ?? [];
+  }
+
+  /** Sign and persist the next entry, with the active key unless `signer` is given */
+  private appendSigned(
+    params: Parameters<AuditLedger['append']>[0],
+    signer?: LedgerSigner
+  ): AuditEntry {
+    return this.withLock(() => this.writeEntry(params, signer ?? this.requireSigner()));
+  }
+
+  private writeEntry(
+    params: Parameters<AuditLedger['append']>[0],
+    signer: LedgerSigner
+  ): AuditEntry {
     this.sequence++;
 
     const entry: AuditEntry = {
       id: randomUUID(),
       sequence: this.sequence,
       hash: '', // computed below
+      hashVersion: CURRENT_HASH_VERSION,
       prevHash: this.lastHash,
       signature: '', // computed below
       timestamp: new Date().toISOString(),
       action: params.action,
       toolName: params.toolName,
+      sessionId: params.sessionId,
+      callId: params.callId,
       riskLevel: params.riskLevel,
       consentRequired: params.consentRequired,
       consentGranted: params.consentGranted,
       dataTokenized: params.dataTokenized,
       injectionDetected: params.injectionDetected,
-      metadata: params.metadata ?? {},
+      metadata: toJsonValue(params.metadata ?? {}) as Record<string, unknown>,
     };
 
-    // Compute content hash (everything except hash, signature, prevHash)
-    const contentForHash = JSON.stringify({
-      id: entry.id,
-      sequence: entry.sequence,
-      timestamp: entry.timestamp,
-      action: entry.action,
-      toolName: entry.toolName,
-      riskLevel: entry.riskLevel,
-      consentRequired: entry.consentRequired,
-      consentGranted: entry.consentGranted,
-      dataTokenized: entry.dataTokenized,
-      injectionDetected: entry.injectionDetected,
-      metadata: entry.metadata,
-    });
-    entry.hash = createHash('sha256').update(contentForHash).digest('hex');
+    entry.hash = computeEntryHash(entry);
 
-    // HMAC signature chains this entry to the previous one
-    const sigPayload = `${entry.sequence}|${entry.id}|${entry.hash}|${entry.prevHash}`;
-    entry.signature = createHmac('sha256', this.secret)
-      .update(sigPayload)
-      .digest('hex');
+    // Signature chains this entry to the previous one
+    entry.signature = signer.sign(entrySignaturePayload(entry));
+    entry.signatureAlgorithm = signer.algorithm;
+    entry.keyId = signer.keyId;
+    if (signer.publicKey) entry.publicKey = signer.publicKey;
 
     this.lastHash = entry.hash;
     this.entries.push(entry);
 
-    // Trim if over max
-    if (this.config.maxEntries > 0 && this.entries.length > this.config.maxEntries) {
-      this.entries = this.entries.slice(-this.config.maxEntries);
+    // Trim a batch once over max, checkpointing the newest dropped entry
+    // so the retained window can still be verified
+    const max = this.config.maxEntries;
+    if (max > 0 && this.entries.length > max) {
+      const keep = max - Math.floor(max * TRIM_BATCH_RATIO);
+      this.addCheckpoint(this.entries[this.entries.length - keep - 1]);
+      this.entries = this.entries.slice(-keep);
     }
 
     // Persist locally
-    this.saveChain();
+    this.storage.append(entry);
 
-    // Non-blocking forward to gateway
-    if (this.config.forwardToGateway && this.gatewayUrl) {
-      this.forwardEntry(entry).catch(() => {
-        // Silent fail — gateway forwarding is best-effort
-      });
+    // Queue for the gateway; delivery happens in the background
+    this.outbox?.enqueue(entry);
+
+    if (this.merkle) {
+      this.merkle.append(entry);
+      const interval = this.config.merkle?.treeHeadInterval ?? DEFAULT_TREE_HEAD_INTERVAL;
+      const covered = (this.merkle.latestHead?.metadata as TreeHead | undefined)?.treeSize ?? 0;
+      if (entry.action !== 'tree_head' && this.merkle.treeSize - covered >= interval) {
+        this.publishTreeHead();
+      }
+    }
+
+    if (this.events.active) {
+      const timestamp = new Date().toISOString();
+      this.publish({ type: 'entry_appended', timestamp, entry });
+      if (entry.action === 'injection_detected') {
+        this.publish({ type: 'injection_detected', timestamp, entry });
+      }
     }
 
     return entry;
   }
 
   /**
-   * Verify the integrity of the entire chain.
-   * Walks entries in order, checking prevHash linkage and HMAC signatures.
+   * Verify the integrity of the chain with this ledger's own keys.
+   * See verifyAuditChain() for the checks performed.
    */
   verify(): ChainVerification {
-    if (this.entries.length === 0) {
-      return { valid: true, totalEntries: 0 };
-    }
-
-    let expectedPrevHash = GENESIS_HASH;
-
-    for (const entry of this.entries) {
-      // Check prevHash linkage
-      if (entry.prevHash !== expectedPrevHash) {
-        return {
-          valid: false,
-          totalEntries: this.entries.length,
-          brokenAtSequence: entry.sequence,
-          brokenAtId: entry.id,
-          reason: `prevHash mismatch at sequence ${entry.sequence}`,
-        };
-      }
+    const result = verifyAuditChain(this.entries, {
+      checkpoints: this.checkpoints,
+      verifiers: this.keyRing?.verifiers() ?? [],
+      tsaCertificates: this.tsaCertificates,
+      verifiedAnchors: this.verifiedAnchors,
+    });
 
-      // Recompute content hash
-      const contentForHash = JSON.stringify({
-        id: entry.id,
-        sequence: entry.sequence,
-        timestamp: entry.timestamp,
-        action: entry.action,
-        toolName: entry.toolName,
-        riskLevel: entry.riskLevel,
-        consentRequired: entry.consentRequired,
-        consentGranted: entry.consentGranted,
-        dataTokenized: entry.dataTokenized,
-        injectionDetected: entry.injectionDetected,
-        metadata: entry.metadata,
-      });
-      const computedHash = createHash('sha256').update(contentForHash).digest('hex');
-
-      if (entry.hash !== computedHash) {
-        return {
-          valid: false,
-          totalEntries: this.entries.length,
-          brokenAtSequence: entry.sequence,
-          brokenAtId: entry.id,
-          reason: `Content hash mismatch at sequence ${entry.sequence}`,
-        };
-      }
+    const failure = result.valid ? undefined : `${result.brokenAtSequence}:${result.reason}`;
+    if (failure && failure !== this.reportedFailure) {
+      this.publish({ type: 'verification_failed', timestamp: new Date().toISOString(), verification: result });
+    }
+    this.reportedFailure = failure;
+    return result;
+  }
 
-      // Verify HMAC signature
-      const sigPayload = `${entry.sequence}|${entry.id}|${entry.hash}|${entry.prevHash}`;
-      const expectedSig = createHmac('sha256', this.secret)
-        .update(sigPayload)
-        .digest('hex');
-
-      if (entry.signature !== expectedSig) {
-        return {
-          valid: false,
-          totalEntries: this.entries.length,
-          brokenAtSequence: entry.sequence,
-          brokenAtId: entry.id,
-          reason: `Signature mismatch at sequence ${entry.sequence}`,
-        };
-      }
+  /**
+   * Receive ledger events: appended entries, injection detections,
+   * consent requests and decisions, verification and forwarding
+   * failures. Returns a function that ends the subscription.
+   */
+  subscribe(listener: LedgerEventListener, filter?: LedgerEventFilter): () => void {
+    return this.events.subscribe(listener, filter);
+  }
 
-      expectedPrevHash = entry.hash;
-    }
+  /** subscribe() to a single event type, with the listener typed for it */
+  on<K extends LedgerEventType>(
+    type: K,
+    listener: LedgerEventListener<LedgerEventOf<K>>,
+    filter?: Omit<LedgerEventFilter, 'types'>
+  ): () => void {
+    return this.events.subscribe(listener as LedgerEventListener, { ...filter, types: [type] });
+  }
 
-    return { valid: true, totalEntries: this.entries.length };
+  /**
+   * Deliver an event to subscribers. Used by components that log through
+   * the ledger (the consent gate) for events that are not entries.
+   */
+  publish(event: LedgerEvent): void {
+    this.events.emit(event);
+  }
+
+  /**
+   * The active Ed25519 public key (PEM) and key ID, for handing to
+   * external assessors. Ed25519 keys introduced by rotations are
+   * announced in signed `key_rotated` entries, so a verifier trusting an
+   * earlier key also accepts its successors. Undefined in HMAC mode,
+   * where verification requires the secret.
+   */
+  getPublicKey(): { keyId: string; publicKey: string } | undefined {
+    const signer = this.keyRing?.active();
+    if (signer?.algorithm !== 'ed25519' || !signer.publicKey) return undefined;
+    const der = Buffer.from(signer.publicKey, 'base64');
+    const pem = [
+      '-----BEGIN PUBLIC KEY-----',
+      ...(der.toString('base64').match(/.{1,64}/g) ?? []),
+      '-----END PUBLIC KEY-----',
+      '',
+    ].join('\n');
+    return { keyId: signer.keyId, publicKey: pem };
+  }
+
+  /** Checkpoints taken when entries were trimmed, oldest first */
+  getCheckpoints(): ChainCheckpoint[] {
+    return [...this.checkpoints];
   }
 
   /** Get the N most recent entries */
@@ -205,17 +404,294 @@ export class AuditLedger {
     return this.entries.slice(-n);
   }
 
+  /**
+   * Find entries matching the query, one page at a time. With JSONL
+   * or SQLite storage this reads from disk, so entries trimmed from
+   * memory are still found; with memory or JSON storage only retained
+   * entries are searched. Entries moved to archives by retention are
+   * searched too.
+   */
+  query(query: AuditQuery = {}): AuditQueryResult {
+    const limit = Math.max(1, query.limit ?? DEFAULT_QUERY_LIMIT);
+    const after = query.cursor ? decodeCursor(query.cursor) : 0;
+    const from = Math.max(query.fromSequence ?? 1, after + 1);
+    const to = query.toSequence ?? Infinity;
+
+    const source = this.scanAll(from, to, query.since ? new Date(query.since) : undefined);
+
+    const entries: AuditEntry[] = [];
+    for (const entry of source) {
+      if (!matchesQuery(entry, query)) continue;
+      if (entries.length === limit) {
+        return { entries, nextCursor: encodeCursor(entries[entries.length - 1].sequence) };
+      }
+      entries.push(entry);
+    }
+    return { entries };
+  }
+
+  /**
+   * What happened in one agent session, in order, with durations, risk,
+   * blocked actions and how much of it verify() covers. Searches the
+   * same entries as query(); see renderSessionReport() for Markdown and
+   * HTML output.
+   */
+  getSessionTimeline(sessionId: string): SessionTimeline {
+    const entries: AuditEntry[] = [];
+    for (const entry of this.scanAll(1)) {
+      if (entrySessionId(entry) === sessionId) entries.push(entry);
+    }
+    const verification = this.verify();
+    const window = verification.verifiedFrom !== undefined
+      ? { from: verification.verifiedFrom, to: verification.verifiedTo! }
+      : undefined;
+    return buildSessionTimeline(sessionId, entries, verification, window);
+  }
+
+  /**
+   * Everything logged for one tool invocation — consent decision, call
+   * and result — or undefined when no entry carries `callId`. Searches
+   * the same entries as query().
+   */
+  getCallTrace(callId: string): CallTrace | undefined {
+    const entries: AuditEntry[] = [];
+    for (const entry of this.scanAll(1)) {
+      if (entry.callId === callId) entries.push(entry);
+    }
+    if (entries.length === 0) return undefined;
+
+    const consent = entries.find((e) => e.action.startsWith('consent_'));
+    const call = entries.find((e) => e.action === 'tool_call');
+    const result = entries.find((e) => e.action === 'tool_result');
+    const status = result
+      ? 'completed'
+      : consent?.consentGranted === false ? 'blocked' : 'in_progress';
+    return {
+      callId,
+      toolName: entries[0].toolName,
+      sessionId: entries[0].sessionId,
+      status,
+      ...(consent ? { consent } : {}),
+      ...(call ? { call } : {}),
+      ...(result ? { result } : {}),
+      entries,
+    };
+  }
+
   /** Export all entries */
   export(): AuditEntry[] {
     return [...this.entries];
   }
 
-  /** Chain stats */
+  /**
+   * Apply the retention policy: move entries older than `archiveAfterMs`
+   * or beyond `maxLiveEntries` into a sealed archive, then purge archives
+   * past `archiveRetentionMs`. Safe to call repeatedly; a no-op without
+   * a retention policy.
+   */
+  applyRetention(now: Date = new Date()): { archived?: ArchiveInfo; purged: ArchiveInfo[] } {
+    const retention = this.config.retention;
+    if (!retention) return { purged: [] };
+    return this.withLock(() => {
+      const archived = this.archiveThrough(this.retentionCutoff(retention, now));
+      return { ...(archived ? { archived } : {}), purged: this.purgeArchives(now) };
+    });
+  }
+
+  /**
+   * Move live entries up to and including `sequence` into a gzip archive.
+   * A signed `archive_sealed` entry describing the archive is appended to
+   * the chain, and a checkpoint anchors the entries that remain. With
+   * JSONL storage only whole closed segments are moved.
+   */
+  archiveThrough(sequence: number): ArchiveInfo | undefined {
+    return this.withLock(() => {
+      this.requireSigner();
+      const alreadyArchived = this.archives.list().at(-1)?.lastSequence ?? 0;
+      // Finish a move interrupted after the archive was sealed
+      if (alreadyArchived > 0) this.dropArchived(alreadyArchived);
+
+      const through = this.storage.archiveBoundary?.(sequence) ?? sequence;
+      const entries = this.liveEntries(alreadyArchived + 1, through);
+      if (entries.length === 0) return undefined;
+
+      const seal = this.archives.write(entries);
+      const sealEntry = this.append({
+        action: 'archive_sealed',
+        riskLevel: 'none',
+        consentRequired: false,
+        dataTokenized: false,
+        injectionDetected: false,
+        metadata: { ...seal },
+      });
+      this.archives.saveSeal(seal.file, sealEntry);
+      this.dropArchived(seal.lastSequence);
+
+      return { ...seal, sealSequence: sealEntry.sequence, sealedAt: sealEntry.timestamp };
+    });
+  }
+
+  /**
+   * Dispose of archives whose newest entry is older than
+   * `archiveRetentionMs`. A signed `archive_disposed` entry is appended
+   * for each archive before its files are deleted.
+   */
+  purgeArchives(now: Date = new Date()): ArchiveInfo[] {
+    return this.withLock(() => {
+      const retentionMs = this.config.retention?.archiveRetentionMs;
+      if (retentionMs === undefined) return [];
+      this.requireSigner();
+
+      const cutoff = now.getTime() - retentionMs;
+      const expired = this.archives.list().filter((a) => Date.parse(a.lastTimestamp) < cutoff);
+      for (const archive of expired) {
+        this.append({
+          action: 'archive_disposed',
+          riskLevel: 'none',
+          consentRequired: false,
+          dataTokenized: false,
+          injectionDetected: false,
+          metadata: { ...archive, reason: 'retention', retentionMs },
+        });
+        this.archives.remove(archive.file);
+      }
+      return expired;
+    });
+  }
+
+  /** Sealed archives still on disk, oldest first */
+  listArchives(): ArchiveInfo[] {
+    return this.archives.list();
+  }
+
+  /** Verify one archive against its seal with this ledger's keys */
+  verifyArchive(file: string): ArchiveVerification {
+    return verifyArchive(this.archives.path(file), {
+      verifiers: this.keyRing?.verifiers() ?? [],
+      cipher: this.cipher,
+    });
+  }
+
+  /**
+   * Append a signed `tree_head` entry recording the current Merkle tree
+   * size and root. Called automatically every `treeHeadInterval` entries;
+   * call it directly to cover recent entries before handing out proofs.
+   */
+  publishTreeHead(): AuditEntry {
+    return this.withLock(() => {
+      const merkle = this.requireMerkle();
+      const head: TreeHead = {
+        algorithm: MERKLE_ALGORITHM,
+        firstSequence: merkle.firstSequence,
+        treeSize: merkle.treeSize,
+        rootHash: merkle.root().toString('hex'),
+      };
+      const entry = this.append({
+        action: 'tree_head',
+        riskLevel: 'none',
+        consentRequired: false,
+        dataTokenized: false,
+        injectionDetected: false,
+        metadata: { ...head },
+      });
+      merkle.addHead(entry);
+      return entry;
+    });
+  }
+
+  /**
+   * Proof that the entry with this ID is in the ledger, against the
+   * latest published tree head. Live and archived entries can be proven;
+   * returns undefined when the entry is not found or predates the tree.
+   * Throws if the entry is newer than the latest tree head.
+   */
+  getInclusionProof(entryId: string): InclusionProof | undefined {
+    const merkle = this.requireMerkle();
+    const entry = this.findEntry(entryId);
+    if (!entry || entry.sequence < merkle.firstSequence) return undefined;
+
+    const leafIndex = entry.sequence - merkle.firstSequence;
+    const treeHead = merkle.latestHead;
+    const treeSize = (treeHead?.metadata as TreeHead | undefined)?.treeSize ?? 0;
+    if (!treeHead || leafIndex >= treeSize) {
+      throw new Error(
+        `Entry ${entry.sequence} is not covered by a tree head yet; call publishTreeHead() first`
+      );
+    }
+
+    return {
+      entry,
+      leafIndex,
+      treeSize,
+      auditPath: merkle.auditPath(leafIndex, treeSize).map((h) => h.toString('hex')),
+      treeHead,
+    };
+  }
+
+  /**
+   * Timestamp the current chain head with the configured TSA and append
+   * a signed `timestamp_anchor` entry holding the token. Runs every
+   * `intervalMs` on its own; resolves undefined when nothing was
+   * appended since the last anchor.
+   */
+  async anchorTimestamp(): Promise<AuditEntry | undefined> {
+    const timestamping = this.config.timestamping;
+    if (!timestamping) throw new Error('Timestamping is not enabled; set auditLedger.timestamping');
+    this.requireSigner();
+    const head = this.entries[this.entries.length - 1];
+    if (!head || head.action === 'timestamp_anchor') return undefined;
+
+    try {
+      const { token, info } = await requestTimestamp(timestamping.url, Buffer.from(head.hash, 'hex'), {
+        trusted: this.tsaCertificates,
+        timeoutMs: timestamping.requestTimeoutMs,
+      });
+      const anchor: TimestampAnchor = {
+        tsaUrl: timestamping.url,
+        anchoredSequence: head.sequence,
+        anchoredHash: head.hash,
+        ...info,
+        token: token.toString('base64'),
+      };
+      const entry = this.append({
+        action: 'timestamp_anchor',
+        riskLevel: 'none',
+        consentRequired: false,
+        dataTokenized: false,
+        injectionDetected: false,
+        metadata: { ...anchor },
+      });
+      this.timestamping = { anchoredSequence: head.sequence, lastAnchorAt: info.genTime };
+      return entry;
+    } catch (err) {
+      this.timestamping = { ...this.timestamping, lastError: (err as Error).message };
+      throw err;
+    }
+  }
+
+  /**
+   * Send everything queued for the gateway now. Resolves once the outbox
+   * is empty or a send fails (failures are retried in the background).
+   */
+  flushForwarding(): Promise<void> {
+    return this.outbox?.flush() ?? Promise.resolve();
+  }
+
+  /** Release file handles and stop background forwarding */
+  close(): void {
+    this.storage.close();
+    this.outbox?.close();
+    if (this.timestampTimer) clearInterval(this.timestampTimer);
+  }
+
+  /** Chain stats, plus forwarding health when a gateway is configured */
   stats(): {
     totalEntries: number;
     chainValid: boolean;
     earliest?: string;
     latest?: string;
+    forwarding?: OutboxStats;
+    timestamping?: TimestampingStats;
   } {
     const verification = this.verify();
     return {
@@ -223,56 +699,564 @@ export class AuditLedger {
       chainValid: verification.valid,
       earliest: this.entries[0]?.timestamp,
       latest: this.entries[this.entries.length - 1]?.timestamp,
+      ...(this.outbox ? { forwarding: this.outbox.stats() } : {}),
+      ...(this.config.timestamping ? { timestamping: { ...this.timestamping } } : {}),
     };
   }
 
   // ─── Private Methods ────────────────────────────────────────
 
-  private loadChain(): void {
-    if (existsSync(this.config.localPath)) {
-      try {
-        const raw = readFileSync(this.config.localPath, 'utf-8');
-        const data = JSON.parse(raw);
-        this.entries = data.entries ?? [];
-        this.sequence = data.sequence ?? 0;
-        this.lastHash = data.lastHash ?? GENESIS_HASH;
-      } catch {
-        // Corrupted file — start fresh
-        this.entries = [];
-        this.sequence = 0;
-        this.lastHash = GENESIS_HASH;
+  private requireSigner(): LedgerSigner {
+    if (!this.signer) {
+      throw new Error(`Audit ledger ${this.config.localPath} is open read-only`);
+    }
+    return this.signer;
+  }
+
+  private requireMerkle(): MerkleLog {
+    if (!this.merkle) {
+      throw new Error('Merkle tree is not enabled; set auditLedger.merkle');
+    }
+    return this.merkle;
+  }
+
+  /**
+   * Bring the leaf file in line with the chain after a crash between
+   * persisting an entry and recording its leaf (or its tree head)
+   */
+  private syncMerkle(): void {
+    const merkle = this.merkle!;
+    if (merkle.lastSequence > this.sequence) {
+      merkle.truncate(Math.max(0, this.sequence - merkle.firstSequence + 1));
+    }
+    const missingFrom = merkle.lastSequence + 1;
+    for (const entry of this.liveEntries(missingFrom, this.sequence)) {
+      if (entry.sequence !== merkle.lastSequence + 1) break;
+      merkle.append(entry);
+      if (entry.action === 'tree_head' && entry.sequence > (merkle.latestHead?.sequence ?? 0)) {
+        merkle.addHead(entry);
       }
     }
+    if (merkle.lastSequence < this.sequence) {
+      throw new Error(
+        `Cannot rebuild Merkle leaves for entries ${missingFrom}..${this.sequence}: no longer in the live ledger`
+      );
+    }
   }
 
-  private saveChain(): void {
-    this.ensureDir(this.config.localPath);
-    const data = {
-      entries: this.entries,
-      sequence: this.sequence,
-      lastHash: this.lastHash,
-      savedAt: new Date().toISOString(),
+  /** Look an entry up by ID in live storage, then in the archives */
+  private findEntry(id: string): AuditEntry | undefined {
+    for (const entry of this.scanAll(1)) {
+      if (entry.id === id) return entry;
+    }
+    return undefined;
+  }
+
+  /**
+   * Archived entries, then live storage, in sequence order, so reads
+   * cover what retention moved out of the live chain. Entries of a move
+   * interrupted before the live copies were dropped are read once.
+   */
+  private *scanAll(from: number, to: number = Infinity, since?: Date): Generator<AuditEntry> {
+    let next = from;
+    for (const archive of this.archives.list()) {
+      if (archive.lastSequence < next || archive.firstSequence > to) continue;
+      if (!since || Date.parse(archive.lastTimestamp) >= since.getTime()) {
+        for (const entry of readArchive(this.archives.path(archive.file), this.cipher)) {
+          if (entry.sequence >= next && entry.sequence <= to) yield entry;
+        }
+      }
+      next = archive.lastSequence + 1;
+    }
+    yield* this.storage.scan(next, to, since);
+  }
+
+  private addCheckpoint(entry: AuditEntry, reason: ChainCheckpoint['reason'] = 'trim'): void {
+    const checkpoint: Omit<ChainCheckpoint, 'signature'> = {
+      sequence: entry.sequence,
+      hash: entry.hash,
+      count: entry.sequence,
+      timestamp: new Date().toISOString(),
+      reason,
     };
-    writeFileSync(this.config.localPath, JSON.stringify(data, null, 2));
-  }
-
-  private async forwardEntry(entry: AuditEntry): Promise<void> {
-    if (!this.gatewayUrl) return;
-    const url = `${this.gatewayUrl}/v1/audit`;
-    await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(this.gatewayKey ? { Authorization: `Bearer ${this.gatewayKey}` } : {}),
-      },
-      body: JSON.stringify(entry),
+    this.checkpoints.push({
+      ...checkpoint,
+      signature: this.requireSigner().sign(checkpointSignaturePayload(checkpoint)),
+      signatureAlgorithm: this.requireSigner().algorithm,
+      keyId: this.requireSigner().keyId,
     });
+    if (this.checkpoints.length > MAX_CHECKPOINTS) {
+      this.checkpoints = this.checkpoints.slice(-MAX_CHECKPOINTS);
+    }
+    this.storage.saveCheckpoints(this.checkpoints);
+  }
+
+  private createStorage(basePath: string): LedgerStorage {
+    const { storage, readOnly } = this.config;
+    if (typeof storage === 'object') return storage;
+    const keyFile = basePath + '.keyring.json';
+    switch (storage ?? 'json') {
+      case 'memory':
+        return new MemoryStorage();
+      case 'jsonl':
+        return new SegmentStore(basePath + '.segments', {
+          maxBytes: this.config.segmentMaxBytes,
+          maxAgeMs: this.config.segmentMaxAgeMs,
+          readOnly,
+          cipher: this.cipher,
+          keyFile,
+        });
+      case 'sqlite':
+        return new SqliteStorage(basePath + '.sqlite', { readOnly, cipher: this.cipher });
+      default:
+        return new JsonFileStorage(this.config.localPath, { readOnly, cipher: this.cipher, keyFile });
+    }
+  }
+
+  /** Load or create the key ring (importing any pre-rotation key files) */
+  private loadKeyRing(): void {
+    const legacyKeys = this.config.storage === 'memory' ? undefined : this.basePath;
+    if (this.config.readOnly) {
+      this.keyRing = KeyRing.open(this.storage, legacyKeys);
+    } else {
+      this.keyRing = KeyRing.load(this.storage, legacyKeys, this.config.signing ?? 'hmac-sha256');
+      this.signer = this.keyRing.active();
+    }
+  }
+
+  private openMerkle(): void {
+    // A new tree starts at the oldest entry still live
+    const [oldest] = this.storage.scan(1);
+    this.merkle = new MerkleLog(this.basePath, oldest?.sequence ?? this.sequence + 1, {
+      readOnly: this.config.readOnly,
+    });
+    if (!this.config.readOnly) this.syncMerkle();
+  }
+
+  /** Run a write under the cross-process lock, after catching up */
+  private withLock<T>(fn: () => T): T {
+    if (!this.lock) return fn();
+    this.lock.acquire();
+    try {
+      this.catchUp();
+      return fn();
+    } finally {
+      this.lock.release();
+    }
+  }
+
+  /**
+   * Pick up what other processes sharing the ledger wrote since this one
+   * last did: the chain window, the key ring (which they may have
+   * rotated) and the Merkle leaves.
+   */
+  private catchUp(): void {
+    const head = this.storage.head();
+    if (head.sequence === this.sequence && (head.lastHash ?? GENESIS_HASH) === this.lastHash) return;
+    this.loadChain();
+    this.loadKeyRing();
+    if (this.merkle) this.openMerkle();
+  }
+
+  private loadChain(): void {
+    const head = this.storage.load(this.config.maxEntries);
+    this.entries = head.entries;
+    this.sequence = head.sequence;
+    this.lastHash = head.lastHash ?? GENESIS_HASH;
+    this.checkpoints = head.checkpoints;
+  }
+
+  /** Highest sequence to archive under the policy (0 when nothing is due) */
+  private retentionCutoff(retention: RetentionConfig, now: Date): number {
+    let through = 0;
+    if (retention.maxLiveEntries !== undefined) {
+      through = Math.max(through, this.countCutoff(retention.maxLiveEntries));
+    }
+    if (retention.archiveAfterMs !== undefined) {
+      const cutoff = now.getTime() - retention.archiveAfterMs;
+      for (const entry of this.storage.scan(1)) {
+        if (Date.parse(entry.timestamp) >= cutoff) break;
+        through = Math.max(through, entry.sequence);
+      }
+    }
+    return through;
+  }
+
+  /**
+   * Highest sequence to archive so that `maxLive` entries stay live.
+   * Seal and disposal entries don't count, or each run's own seal would
+   * push the ledger over the limit again.
+   */
+  private countCutoff(maxLive: number): number {
+    // Ring buffer of the newest maxLive + 1 counted sequences
+    const window: number[] = new Array(maxLive + 1);
+    let counted = 0;
+    for (const entry of this.storage.scan(1)) {
+      if (RETENTION_ACTIONS.has(entry.action)) continue;
+      window[counted % window.length] = entry.sequence;
+      counted++;
+    }
+    return counted > maxLive ? window[(counted - maxLive - 1) % window.length] : 0;
+  }
+
+  private liveEntries(fromSequence: number, toSequence: number): AuditEntry[] {
+    return [...this.storage.scan(fromSequence, toSequence)];
+  }
+
+  /**
+   * Remove archived entries from live storage, checkpointing the last
+   * one first so the remaining chain stays verifiable
+   */
+  private dropArchived(through: number): void {
+    const [last] = this.liveEntries(through, through);
+    if (!last) return;
+    this.addCheckpoint(last, 'archive');
+    this.entries = this.entries.filter((e) => e.sequence > through);
+    this.storage.dropThrough(through);
+  }
+
+  private entriesAfter(sequence: number): Iterable<AuditEntry> {
+    return this.storage.scan(sequence + 1, Infinity);
+  }
+}
+
+// ─── Chain Verification ──────────────────────────────────────
+
+export interface ChainVerifyOptions {
+  /** Checkpoints that may anchor a chain whose oldest entries were dropped */
+  checkpoints?: ChainCheckpoint[];
+  /** Keys trusted to have signed the chain */
+  verifiers?: SignatureVerifier[];
+  /** Shortcut for a single trusted Ed25519 public key (PEM or base64 SPKI DER) */
+  publicKey?: string | KeyObject;
+  /**
+   * Trusted prevHash of the first entry when the chain does not start at
+   * genesis, used instead of a checkpoint (e.g. taken from a verified seal)
+   */
+  startHash?: string;
+  /**
+   * TSA certificates trusted to sign `timestamp_anchor` tokens. Without
+   * them a token's imprint and signature are checked but not its signer,
+   * and the anchor is reported as untrusted
+   */
+  tsaCertificates?: X509Certificate[];
+  /**
+   * Hashes of `timestamp_anchor` entries whose tokens were already
+   * verified against `tsaCertificates`. Their tokens are not checked
+   * again (the entry hash still is), and newly verified ones are added.
+   */
+  verifiedAnchors?: Set<string>;
+}
+
+/**
+ * Verify a sequence of entries without access to the ledger that wrote
+ * them — e.g. an exported chain checked by an external assessor holding
+ * only the Ed25519 public key.
+ *
+ * Walks entries in order, checking prevHash linkage, content hashes and
+ * signatures. A chain whose oldest entries were trimmed is anchored to
+ * the signed checkpoint taken when they were dropped; the range actually
+ * checked is reported as verifiedFrom/verifiedTo, also on a broken
+ * chain, where it ends just before the break. Public keys embedded
+ * in entries are never trusted on their own — only the keys passed in,
+ * plus Ed25519 keys announced by a `key_rotated` entry that one of those
+ * keys signed. Entries signed by a key after the rotation that retired
+ * it are rejected.
+ */
+export function verifyAuditChain(
+  entries: AuditEntry[],
+  options: ChainVerifyOptions
+): ChainVerification {
+  if (entries.length === 0) {
+    return { valid: true, totalEntries: 0 };
+  }
+
+  const verifiers: SignatureVerifier[] = [
+    ...(options.verifiers ?? []),
+    ...(options.publicKey ? [createEd25519Verifier(options.publicKey)] : []),
+  ];
+  const broken = (entry: { sequence: number; id?: string }, reason: string): ChainVerification => ({
+    valid: false,
+    totalEntries: entries.length,
+    brokenAtSequence: entry.sequence,
+    ...(entry.id ? { brokenAtId: entry.id } : {}),
+    reason,
+    ...(verifiedFrom !== undefined && entry.sequence > verifiedFrom
+      ? { verifiedFrom, verifiedTo: entry.sequence - 1 }
+      : {}),
+  });
+
+  const first = entries[0];
+  let expectedPrevHash = GENESIS_HASH;
+  let startIndex = 0;
+  let anchor: ChainCheckpoint | undefined;
+  let verifiedFrom: number | undefined;
+
+  if (first.sequence > 1 && options.startHash !== undefined) {
+    expectedPrevHash = options.startHash;
+  } else if (first.sequence > 1) {
+    anchor = findAnchor(entries, options.checkpoints ?? []);
+    if (!anchor) {
+      return broken(first, `No trusted checkpoint for sequence ${first.sequence - 1}`);
+    }
+    const payload = checkpointSignaturePayload(anchor);
+    const verifier = findVerifier(verifiers, anchor, payload);
+    if (!verifier?.verify(payload, anchor.signature)) {
+      return broken(anchor, `Checkpoint signature mismatch at sequence ${anchor.sequence}`);
+    }
+    expectedPrevHash = anchor.hash;
+    startIndex = entries.findIndex((e) => e.sequence === anchor!.sequence + 1);
   }
 
-  private ensureDir(filePath: string): void {
-    const dir = dirname(filePath);
-    if (!existsSync(dir)) {
-      mkdirSync(dir, { recursive: true });
+  // Retirement points learned from rotation entries in the chain itself
+  const retiredAt = new Map<string, number>();
+  let timestampAnchor: ChainVerification['timestampAnchor'];
+  // Without a trust anchor a token only proves it matches its own certificate
+  const untrustedTsa = !options.tsaCertificates?.length;
+
+  verifiedFrom = entries[startIndex].sequence;
+  for (const entry of entries.slice(startIndex)) {
+    // Check prevHash linkage
+    if (entry.prevHash !== expectedPrevHash) {
+      return broken(entry, `prevHash mismatch at sequence ${entry.sequence}`);
+    }
+
+    // Recompute content hash under the scheme the entry declares
+    if (!SUPPORTED_HASH_VERSIONS.includes(entry.hashVersion ?? 1)) {
+      return broken(entry, `Unsupported hashVersion ${entry.hashVersion} at sequence ${entry.sequence}`);
+    }
+    const computedHash = computeEntryHash(entry);
+
+    if (entry.hash !== computedHash) {
+      return broken(entry, `Content hash mismatch at sequence ${entry.sequence}`);
+    }
+
+    // Verify signature with a trusted key of the declared scheme
+    const payload = entrySignaturePayload(entry);
+    const verifier = findVerifier(verifiers, entry, payload);
+    if (!verifier) {
+      return broken(
+        entry,
+        `No trusted ${entry.signatureAlgorithm ?? 'hmac-sha256'} key${entry.keyId ? ` ${entry.keyId}` : ''} for sequence ${entry.sequence}`
+      );
+    }
+    if (!verifier.verify(payload, entry.signature)) {
+      return broken(entry, `Signature mismatch at sequence ${entry.sequence}`);
+    }
+
+    // Reject use of a key after the rotation that retired it
+    const retiredSequence = retiredAt.get(verifier.keyId) ?? verifier.retiredAtSequence;
+    if (retiredSequence !== undefined && entry.sequence > retiredSequence) {
+      return broken(
+        entry,
+        `Signed with key ${verifier.keyId} retired at sequence ${retiredSequence}`
+      );
+    }
+
+    if (entry.action === 'timestamp_anchor') {
+      const anchor = entry.metadata as unknown as TimestampAnchor;
+      const anchored = entries[startIndex + anchor.anchoredSequence - entries[startIndex].sequence];
+      if (
+        anchor.anchoredSequence >= entry.sequence ||
+        (anchored?.sequence === anchor.anchoredSequence && anchored.hash !== anchor.anchoredHash)
+      ) {
+        return broken(entry, `Timestamp anchor at sequence ${entry.sequence} does not match the chain`);
+      }
+      if (!options.verifiedAnchors?.has(entry.hash)) {
+        const check = verifyTimestampToken(
+          Buffer.from(anchor.token, 'base64'),
+          Buffer.from(anchor.anchoredHash, 'hex'),
+          options.tsaCertificates
+        );
+        if (!check.valid || check.info?.genTime !== anchor.genTime) {
+          return broken(
+            entry,
+            `Timestamp anchor at sequence ${entry.sequence}: ${check.reason ?? 'genTime does not match the token'}`
+          );
+        }
+        options.verifiedAnchors?.add(entry.hash);
+      }
+      timestampAnchor = {
+        sequence: anchor.anchoredSequence,
+        genTime: anchor.genTime,
+        ...(untrustedTsa ? { untrusted: true } : {}),
+      };
+    }
+
+    if (entry.action === 'key_rotated') {
+      const { previousKeyId, publicKey } = entry.metadata as { previousKeyId?: string; publicKey?: string };
+      if (previousKeyId) retiredAt.set(previousKeyId, entry.sequence);
+      if (publicKey) {
+        const announced = createEd25519Verifier(publicKey);
+        if (!verifiers.some((v) => v.keyId === announced.keyId)) verifiers.push(announced);
+      }
     }
+
+    expectedPrevHash = entry.hash;
+  }
+
+  return {
+    valid: true,
+    totalEntries: entries.length,
+    verifiedFrom,
+    verifiedTo: entries[entries.length - 1].sequence,
+    ...(anchor ? { checkpoint: anchor } : {}),
+    ...(timestampAnchor ? { timestampAnchor } : {}),
+  };
+}
+
+export interface ArchiveVerifyOptions extends ChainVerifyOptions {
+  /** Key for archives of a ledger encrypted at rest */
+  cipher?: LedgerCipher;
+}
+
+/**
+ * Verify a sealed archive on its own: the seal entry's hash and
+ * signature, the archive file's digest against the seal, then every
+ * archived entry's hash, signature and linkage from the seal's prevHash
+ * through to its lastHash. Needs only the archive, its seal file and
+ * the signing keys — not the live chain.
+ */
+export function verifyArchive(path: string, options: ArchiveVerifyOptions): ArchiveVerification {
+  const sealEntry = readSeal(path);
+  const seal = sealEntry.metadata as unknown as ArchiveSeal;
+
+  const sealCheck = verifyAuditChain([sealEntry], { ...options, startHash: sealEntry.prevHash });
+  if (!sealCheck.valid) {
+    return { ...sealCheck, reason: `Archive seal: ${sealCheck.reason}`, seal };
+  }
+
+  const mismatch = (reason: string): ArchiveVerification => ({
+    valid: false,
+    totalEntries: seal.count,
+    brokenAtSequence: seal.firstSequence,
+    reason,
+    seal,
+  });
+  if (archiveDigest(path) !== seal.sha256) {
+    return mismatch('Archive digest does not match its seal');
+  }
+
+  const entries = readArchive(path, options.cipher);
+  const result = verifyAuditChain(entries, { ...options, startHash: seal.prevHash });
+  if (!result.valid) return { ...result, seal };
+
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+  if (
+    entries.length !== seal.count ||
+    first?.sequence !== seal.firstSequence ||
+    first.prevHash !== seal.prevHash ||
+    last.sequence !== seal.lastSequence ||
+    last.hash !== seal.lastHash
+  ) {
+    return mismatch('Archive contents do not match its seal');
+  }
+  return { ...result, seal };
+}
+
+/**
+ * Verify an inclusion proof without access to the ledger: the tree
+ * head's and the entry's own hashes and signatures, then the audit path
+ * from the entry's leaf up to the signed root. Needs only the proof and
+ * the signing keys.
+ */
+export function verifyInclusionProof(
+  proof: InclusionProof,
+  options: ChainVerifyOptions
+): InclusionVerification {
+  const { entry, treeHead } = proof;
+  const invalid = (reason: string): InclusionVerification => ({ valid: false, reason });
+
+  const headCheck = verifyAuditChain([treeHead], { ...options, startHash: treeHead.prevHash });
+  if (!headCheck.valid) return invalid(`Tree head: ${headCheck.reason}`);
+  const entryCheck = verifyAuditChain([entry], { ...options, startHash: entry.prevHash });
+  if (!entryCheck.valid) return invalid(`Entry: ${entryCheck.reason}`);
+
+  const head = treeHead.metadata as unknown as TreeHead;
+  if (treeHead.action !== 'tree_head' || head.algorithm !== MERKLE_ALGORITHM) {
+    return invalid(`Entry ${treeHead.sequence} is not a ${MERKLE_ALGORITHM} tree head`);
+  }
+  if (proof.treeSize !== head.treeSize || proof.leafIndex !== entry.sequence - head.firstSequence) {
+    return invalid('Proof position does not match its tree head');
+  }
+
+  const root = rootFromAuditPath(
+    leafHash(entry.hash),
+    proof.leafIndex,
+    proof.treeSize,
+    proof.auditPath.map((h) => Buffer.from(h, 'hex'))
+  );
+  if (root?.toString('hex') !== head.rootHash) {
+    return invalid('Audit path does not lead to the tree head root');
+  }
+  return { valid: true };
+}
+
+/**
+ * SHA-256 content hash of an entry under its declared hashVersion
+ * (absent means the legacy v1 scheme).
+ */
+export function computeEntryHash(entry: AuditEntry): string {
+  let content: string;
+  if ((entry.hashVersion ?? 1) === 1) {
+    content = JSON.stringify({
+      id: entry.id,
+      sequence: entry.sequence,
+      timestamp: entry.timestamp,
+      action: entry.action,
+      toolName: entry.toolName,
+      riskLevel: entry.riskLevel,
+      consentRequired: entry.consentRequired,
+      consentGranted: entry.consentGranted,
+      dataTokenized: entry.dataTokenized,
+      injectionDetected: entry.injectionDetected,
+      metadata: entry.metadata,
+    });
+  } else {
+    content = canonicalize(
+      Object.fromEntries(Object.entries(entry).filter(([key]) => !UNHASHED_FIELDS.has(key)))
+    );
   }
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function entrySignaturePayload(entry: AuditEntry): string {
+  return `${entry.sequence}|${entry.id}|${entry.hash}|${entry.prevHash}`;
+}
+
+function checkpointSignaturePayload(cp: Omit<ChainCheckpoint, 'signature'>): string {
+  return `checkpoint|${cp.sequence}|${cp.hash}|${cp.count}|${cp.timestamp}|${cp.reason}`;
+}
+
+/**
+ * Pick the verifier for a signed record by its key ID. Records written
+ * before key IDs existed match any key of their scheme that accepts
+ * the signature.
+ */
+function findVerifier(
+  verifiers: SignatureVerifier[],
+  record: { signatureAlgorithm?: SignatureAlgorithm; keyId?: string; signature: string },
+  payload: string
+): SignatureVerifier | undefined {
+  const algorithm = record.signatureAlgorithm ?? 'hmac-sha256';
+  const candidates = verifiers.filter((v) => v.algorithm === algorithm);
+  if (record.keyId) return candidates.find((v) => v.keyId === record.keyId);
+  return candidates.find((v) => v.verify(payload, record.signature)) ?? candidates[0];
+}
+
+/**
+ * Find the checkpoint that anchors the retained window: the one for the
+ * entry just before it, or failing that the earliest one inside it
+ * (e.g. after a crash between writing a checkpoint and its entry).
+ */
+function findAnchor(
+  entries: AuditEntry[],
+  checkpoints: ChainCheckpoint[]
+): ChainCheckpoint | undefined {
+  const first = entries[0].sequence;
+  const last = entries[entries.length - 1].sequence;
+  return checkpoints
+    .filter((cp) => cp.sequence >= first - 1 && cp.sequence < last)
+    .sort((a, b) => a.sequence - b.sequence)[0];
 }
@@ -0,0 +1,65 @@
+/**
+ * openclaw-air-trust — Audit Query
+ *
+ * Filter matching and pagination cursors for AuditLedger.query().
+ * Results are always returned in ascending sequence order; a cursor
+ * encodes the last sequence of the previous page, so paging stays
+ * stable while new entries are appended.
+ */
+
+import { AuditEntry, AuditQuery, RISK_ORDER } from './types';
+
+/** Page size when a query does not set `limit` */
+export const DEFAULT_QUERY_LIMIT = 100;
+
+/** Session an entry belongs to (top-level field, or metadata on older entries) */
+export function entrySessionId(entry: AuditEntry): string | undefined {
+  if (entry.sessionId) return entry.sessionId;
+  const legacy = entry.metadata?.sessionId;
+  return typeof legacy === 'string' ? legacy : undefined;
+}
+
+/** Whether an entry satisfies every filter set on the query (sequence range and cursor excluded) */
+export function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  if (query.sessionId !== undefined && entrySessionId(entry) !== query.sessionId) return false;
+  if (query.callId !== undefined && entry.callId !== query.callId) return false;
+  if (query.toolName !== undefined && !oneOf(entry.toolName, query.toolName)) return false;
+  if (query.action !== undefined && !oneOf(entry.action, query.action)) return false;
+
+  const risk = RISK_ORDER[entry.riskLevel];
+  if (query.minRiskLevel && risk < RISK_ORDER[query.minRiskLevel]) return false;
+  if (query.maxRiskLevel && risk > RISK_ORDER[query.maxRiskLevel]) return false;
+
+  if (query.injectionDetected !== undefined && entry.injectionDetected !== query.injectionDetected) {
+    return false;
+  }
+  if (query.consentGranted !== undefined && entry.consentGranted !== query.consentGranted) {
+    return false;
+  }
+
+  const at = new Date(entry.timestamp).getTime();
+  if (query.since !== undefined && at < new Date(query.since).getTime()) return false;
+  if (query.until !== undefined && at > new Date(query.until).getTime()) return false;
+
+  return true;
+}
+
+export function encodeCursor(lastSequence: number): string {
+  return Buffer.from(JSON.stringify({ after: lastSequence })).toString('base64url');
+}
+
+/** Returns the sequence a cursor resumes after. Throws on a malformed cursor. */
+export function decodeCursor(cursor: string): number {
+  try {
+    const { after } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (Number.isInteger(after) && after >= 0) return after;
+  } catch {
+    // fall through
+  }
+  throw new Error('Invalid audit query cursor');
+}
+
+function oneOf(value: string | undefined, expected: string | string[]): boolean {
+  if (value === undefined) return false;
+  return Array.isArray(expected) ? expected.includes(value) : value === expected;
+}
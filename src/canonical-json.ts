@@ -0,0 +1,100 @@
+/**
+ * openclaw-air-trust — Canonical JSON
+ *
+ * Deterministic serialization for hashing, in the style of RFC 8785
+ * (JSON Canonicalization Scheme): object keys sorted by UTF-16 code
+ * units, no whitespace, numbers and strings in ECMAScript JSON form.
+ *
+ * Values are first reduced to plain JSON data the same way they will
+ * look after a JSON round-trip through storage, so an entry hashes
+ * identically before and after it is persisted:
+ * - undefined object members are omitted (undefined in arrays → null)
+ * - Dates and anything else with toJSON() use that representation
+ * - BigInt becomes its decimal string
+ * - NaN and ±Infinity become null
+ * - Maps become objects, Sets become arrays
+ * - other class instances contribute their own enumerable properties
+ */
+
+/** A value that survives JSON serialization unchanged */
+export type JsonValue =
+  | null
+  | boolean
+  | number
+  | string
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+/**
+ * Reduce any value to plain JSON data. Throws on circular references.
+ */
+export function toJsonValue(value: unknown): JsonValue {
+  return normalize(value, new Set());
+}
+
+/**
+ * Serialize a value canonically. Equal data always produces the same
+ * string regardless of key insertion order or in-memory types.
+ */
+export function canonicalize(value: unknown): string {
+  return serialize(toJsonValue(value));
+}
+
+// ─── Private ──────────────────────────────────────────────────
+
+function normalize(value: unknown, seen: Set<object>): JsonValue {
+  if (value === null || value === undefined) return null;
+
+  switch (typeof value) {
+    case 'boolean':
+    case 'string':
+      return value;
+    case 'number':
+      return Number.isFinite(value) ? value : null;
+    case 'bigint':
+      return value.toString();
+    case 'function':
+    case 'symbol':
+      return null;
+  }
+
+  const obj = value as object;
+  if (typeof (obj as { toJSON?: unknown }).toJSON === 'function') {
+    return normalize((obj as { toJSON: () => unknown }).toJSON(), seen);
+  }
+
+  if (seen.has(obj)) {
+    throw new TypeError('Cannot canonicalize a circular structure');
+  }
+  seen.add(obj);
+
+  let result: JsonValue;
+  if (Array.isArray(obj) || obj instanceof Set) {
+    result = [...(obj as Iterable<unknown>)].map((item) => normalize(item, seen));
+  } else {
+    const source = obj instanceof Map ? Object.fromEntries(obj) : obj;
+    const out: { [key: string]: JsonValue } = {};
+    for (const [key, member] of Object.entries(source)) {
+      if (member === undefined || typeof member === 'function' || typeof member === 'symbol') {
+        continue;
+      }
+      out[key] = normalize(member, seen);
+    }
+    result = out;
+  }
+
+  seen.delete(obj);
+  return result;
+}
+
+function serialize(value: JsonValue): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(serialize).join(',')}]`;
+  }
+  // Default sort compares UTF-16 code units, as RFC 8785 requires
+  const keys = Object.keys(value).sort();
+  return `{${keys.map((k) => `${JSON.stringify(k)}:${serialize(value[k])}`).join(',')}}`;
+}
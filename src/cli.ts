@@ -0,0 +1,538 @@
+#!/usr/bin/env node
+/**
+ * openclaw-air-trust — air-trust CLI
+ *
+ * Inspect and verify a ledger on disk without writing code, and act on
+ * pending consent requests from outside the chat.
+ *
+ *   air-trust verify  [--key FILE | --public-key FILE] [--json]
+ *   air-trust stats   [--json]
+ *   air-trust tail    [-n N] [-f] [filters]
+ *   air-trust export  [--format json|jsonl|csv|syslog|otlp] [--redact] [--out FILE] [filters]
+ *   air-trust report  <session> [--format markdown|html|json] [--out FILE]
+ *   air-trust consent list | approve <id> [grant] | reject <id>  [--approver NAME]
+ *
+ * Common options:
+ *   --ledger FILE  Ledger path (default ~/.openclaw/air-trust/audit-ledger.json)
+ *   --queue FILE   Consent queue (default ~/.openclaw/air-trust/consent-queue.json)
+ *   --encryption-key FILE  Key for a ledger encrypted at rest (default <ledger>.enc.key)
+ *
+ * Filters:
+ *   --session ID  --call ID  --tool NAME  --action NAME  --risk LEVEL (minimum)
+ *   --since TIME  --until TIME (ISO timestamp, or relative: 30m, 2h, 7d)
+ *
+ * The ledger is always opened read-only: no keys are generated and
+ * nothing is written, so it is safe to run against a live agent's files.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { homedir, userInfo } from 'os';
+import { join } from 'path';
+import { parseArgs } from 'util';
+import { AuditLedger, verifyAuditChain } from './audit-ledger';
+import { createExporter, EXPORT_FORMATS } from './audit-exporters';
+import { ConsentGate } from './consent-gate';
+import { parseGrantSpec } from './consent-grants';
+import { DataVault } from './data-vault';
+import { createHmacSigner } from './ledger-signer';
+import { entrySessionId } from './audit-query';
+import { renderSessionReport, TIMELINE_REPORT_FORMATS, TimelineReportFormat } from './session-timeline';
+import {
+  AuditEntry,
+  AuditExportFormat,
+  AuditQuery,
+  ChainVerification,
+  RiskLevel,
+  RISK_ORDER,
+  SessionTimeline,
+} from './types';
+
+const DEFAULT_DIR = join(homedir(), '.openclaw', 'air-trust');
+const TAIL_POLL_MS = 1000;
+
+const USAGE = `Usage: air-trust <command> [options]
+
+Commands:
+  verify              Verify chain integrity (--key FILE | --public-key FILE)
+  stats               Show chain statistics
+  tail                Show recent entries (-n N, -f to follow)
+  export              Export entries (--format json|jsonl|csv|syslog|otlp,
+                      --redact, --out FILE)
+  report SESSION      Session timeline and incident report
+                      (--format markdown|html|json, --out FILE)
+  consent list        List pending consent requests
+  consent approve ID [GRANT]
+                      Approve a pending consent request; GRANT creates a
+                      standing approval: call | tool | session |
+                      args PATH=GLOB..., then [for 30m] [max N]
+  consent reject ID   Reject a pending consent request
+                      Decisions are recorded as os:USER for the OS user,
+                      which is what counts towards quorum approvals (chat
+                      votes count as chat:ID); --approver NAME labels
+                      decisions on single-approval requests only
+
+Options:
+  --ledger FILE       Ledger path (default ~/.openclaw/air-trust/audit-ledger.json)
+  --queue FILE        Consent queue (default ~/.openclaw/air-trust/consent-queue.json)
+  --encryption-key FILE
+                      Key for an encrypted ledger (default <ledger>.enc.key)
+  --json              Machine-readable output (verify, stats)
+
+Filters (tail, export):
+  --session ID  --call ID  --tool NAME  --action NAME  --risk LEVEL
+  --since TIME  --until TIME   (ISO timestamp or relative: 30m, 2h, 7d)
+`;
+
+export interface CliIo {
+  out: (text: string) => void;
+  err: (text: string) => void;
+}
+
+const defaultIo: CliIo = {
+  out: (text) => process.stdout.write(text),
+  err: (text) => process.stderr.write(text),
+};
+
+/**
+ * Run the CLI with the given arguments (excluding `node` and the script).
+ * Resolves to the process exit code.
+ */
+export async function main(argv: string[], io: CliIo = defaultIo): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        ledger: { type: 'string', default: join(DEFAULT_DIR, 'audit-ledger.json') },
+        queue: { type: 'string', default: join(DEFAULT_DIR, 'consent-queue.json') },
+        key: { type: 'string' },
+        'encryption-key': { type: 'string' },
+        'public-key': { type: 'string' },
+        json: { type: 'boolean', default: false },
+        lines: { type: 'string', short: 'n', default: '20' },
+        follow: { type: 'boolean', short: 'f', default: false },
+        format: { type: 'string' },
+        redact: { type: 'boolean', default: false },
+        out: { type: 'string' },
+        session: { type: 'string' },
+        call: { type: 'string' },
+        tool: { type: 'string' },
+        action: { type: 'string' },
+        risk: { type: 'string' },
+        since: { type: 'string' },
+        until: { type: 'string' },
+        approver: { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (err) {
+    io.err(`${(err as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    io.out(USAGE);
+    return command || values.help ? 0 : 2;
+  }
+
+  try {
+    switch (command) {
+      case 'verify':
+        return verifyCommand(values.ledger!, values, io);
+      case 'stats':
+        return statsCommand(values.ledger!, values, io);
+      case 'tail':
+        return await tailCommand(values.ledger!, values, io);
+      case 'export':
+        return exportCommand(values.ledger!, values, io);
+      case 'report':
+        return reportCommand(values.ledger!, rest[0], values, io);
+      case 'consent':
+        return consentCommand(values.queue!, rest, io, values.approver);
+      default:
+        io.err(`Unknown command "${command}"\n\n${USAGE}`);
+        return 2;
+    }
+  } catch (err) {
+    io.err(`air-trust: ${(err as Error).message}\n`);
+    return 2;
+  }
+}
+
+// ─── Commands ─────────────────────────────────────────────────
+
+function verifyCommand(
+  ledgerPath: string,
+  options: { key?: string; 'public-key'?: string; 'encryption-key'?: string; json?: boolean },
+  io: CliIo
+): number {
+  const ledger = openLedger(ledgerPath, options);
+  let result: ChainVerification;
+
+  try {
+    if (options['public-key']) {
+      result = verifyAuditChain(ledger.export(), {
+        publicKey: readFileSync(options['public-key'], 'utf-8'),
+        checkpoints: ledger.getCheckpoints(),
+      });
+    } else if (options.key) {
+      const secret = Buffer.from(readFileSync(options.key, 'utf-8').trim(), 'hex');
+      result = verifyAuditChain(ledger.export(), {
+        verifiers: [createHmacSigner(secret)],
+        checkpoints: ledger.getCheckpoints(),
+      });
+    } else {
+      result = ledger.verify();
+    }
+  } finally {
+    ledger.close();
+  }
+
+  if (options.json) {
+    io.out(JSON.stringify(result, null, 2) + '\n');
+  } else if (result.valid) {
+    const range = result.verifiedFrom !== undefined
+      ? `, verified sequences ${result.verifiedFrom}–${result.verifiedTo}`
+      : '';
+    const anchor = result.checkpoint ? ` (anchored at checkpoint ${result.checkpoint.sequence})` : '';
+    io.out(`✔ Chain valid — ${result.totalEntries} entries${range}${anchor}\n`);
+  } else {
+    io.out(`✘ Chain broken at sequence ${result.brokenAtSequence}: ${result.reason}\n`);
+  }
+  return result.valid ? 0 : 1;
+}
+
+function statsCommand(
+  ledgerPath: string,
+  options: { 'encryption-key'?: string; json?: boolean },
+  io: CliIo
+): number {
+  const ledger = openLedger(ledgerPath, options);
+  let stats: ReturnType<AuditLedger['stats']>;
+  let entries: AuditEntry[];
+  try {
+    stats = ledger.stats();
+    entries = ledger.export();
+  } finally {
+    ledger.close();
+  }
+
+  const byAction: Record<string, number> = {};
+  const byRisk: Record<string, number> = {};
+  for (const entry of entries) {
+    byAction[entry.action] = (byAction[entry.action] ?? 0) + 1;
+    byRisk[entry.riskLevel] = (byRisk[entry.riskLevel] ?? 0) + 1;
+  }
+
+  if (options.json) {
+    io.out(JSON.stringify({ ...stats, byAction, byRisk }, null, 2) + '\n');
+    return 0;
+  }
+
+  io.out(
+    [
+      `Ledger:      ${ledgerPath}`,
+      `Entries:     ${stats.totalEntries}`,
+      `Chain valid: ${stats.chainValid ? 'yes' : 'NO'}`,
+      `Earliest:    ${stats.earliest ?? '-'}`,
+      `Latest:      ${stats.latest ?? '-'}`,
+      ``,
+      `By action:`,
+      ...Object.entries(byAction).map(([k, v]) => `  ${k.padEnd(24)} ${v}`),
+      ``,
+      `By risk:`,
+      ...Object.entries(byRisk).map(([k, v]) => `  ${k.padEnd(24)} ${v}`),
+      ``,
+    ].join('\n')
+  );
+  return 0;
+}
+
+async function tailCommand(
+  ledgerPath: string,
+  options: Record<string, string | boolean | undefined>,
+  io: CliIo
+): Promise<number> {
+  const filter = parseFilter(options);
+  const count = Number(options.lines);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Invalid line count "${options.lines}"`);
+  }
+
+  const ledger = openLedger(ledgerPath, options);
+  const matching = queryAll(ledger, filter);
+  let lastSequence = ledger.export().at(-1)?.sequence ?? 0;
+  ledger.close();
+  for (const entry of count === 0 ? [] : matching.slice(-count)) {
+    io.out(formatEntry(entry) + '\n');
+  }
+  if (!options.follow) return 0;
+
+  // Reopened on each poll to see other processes' appends, and closed
+  // again so no file handles or timers pile up
+  const timer = setInterval(() => {
+    const latest = openLedger(ledgerPath, options);
+    try {
+      for (const entry of queryAll(latest, { ...filter, fromSequence: lastSequence + 1 })) {
+        io.out(formatEntry(entry) + '\n');
+      }
+      lastSequence = latest.export().at(-1)?.sequence ?? lastSequence;
+    } finally {
+      latest.close();
+    }
+  }, TAIL_POLL_MS);
+
+  await new Promise<void>((resolve) => process.once('SIGINT', () => resolve()));
+  clearInterval(timer);
+  return 0;
+}
+
+function exportCommand(
+  ledgerPath: string,
+  options: Record<string, string | boolean | undefined>,
+  io: CliIo
+): number {
+  const filter = parseFilter(options);
+  const ledger = openLedger(ledgerPath, options);
+  let entries: AuditEntry[];
+  try {
+    entries = queryAll(ledger, filter);
+  } finally {
+    ledger.close();
+  }
+
+  if (options.redact) {
+    // Tokenize sensitive values in metadata (tool args, previews) for sharing
+    const vault = new DataVault({
+      enabled: true,
+      categories: [],
+      customPatterns: [],
+      forwardToGateway: false,
+      ttlMs: 0,
+    });
+    entries = entries.map((entry) => ({
+      ...entry,
+      metadata: JSON.parse(vault.tokenize(JSON.stringify(entry.metadata)).result),
+    }));
+  }
+
+  const format = options.format ?? 'json';
+  let output: string;
+  if (format === 'json') {
+    output = JSON.stringify(entries, null, 2) + '\n';
+  } else if (EXPORT_FORMATS.includes(format as AuditExportFormat)) {
+    output = createExporter(format as AuditExportFormat).serialize(entries);
+    if (format === 'otlp') output += '\n';
+  } else {
+    throw new Error(`Unknown export format "${format}"`);
+  }
+
+  if (typeof options.out === 'string') {
+    writeFileSync(options.out, output);
+    io.err(`Exported ${entries.length} entries to ${options.out}\n`);
+  } else {
+    io.out(output);
+  }
+  return 0;
+}
+
+function reportCommand(
+  ledgerPath: string,
+  sessionId: string | undefined,
+  options: Record<string, string | boolean | undefined>,
+  io: CliIo
+): number {
+  if (!sessionId) {
+    io.err(`Usage: air-trust report <session> [--format markdown|html|json] [--out FILE]\n`);
+    return 2;
+  }
+  const format = options.format ?? 'markdown';
+  if (format !== 'json' && !TIMELINE_REPORT_FORMATS.includes(format as TimelineReportFormat)) {
+    throw new Error(`Unknown report format "${format}"`);
+  }
+
+  const ledger = openLedger(ledgerPath, options);
+  let timeline: SessionTimeline;
+  try {
+    timeline = ledger.getSessionTimeline(sessionId);
+  } finally {
+    ledger.close();
+  }
+  const output = format === 'json'
+    ? JSON.stringify(timeline, null, 2) + '\n'
+    : renderSessionReport(timeline, format as TimelineReportFormat);
+
+  if (typeof options.out === 'string') {
+    writeFileSync(options.out, output);
+    io.err(`Wrote report for ${timeline.summary.entries} entries to ${options.out}\n`);
+  } else {
+    io.out(output);
+  }
+  return timeline.verification.chainValid ? 0 : 1;
+}
+
+function consentCommand(queuePath: string, args: string[], io: CliIo, label?: string): number {
+  const [sub, id, ...grantWords] = args;
+
+  if (sub === 'list') {
+    const pending = ConsentGate.listQueued(queuePath);
+    if (pending.length === 0) {
+      io.out('No pending consent requests\n');
+      return 0;
+    }
+    for (const request of pending) {
+      const quorum = (request.requiredApprovals ?? 1) > 1
+        ? `  ${(request.votes ?? []).filter((v) => v.approved).length}/${request.requiredApprovals} approvals`
+        : '';
+      io.out(
+        `${request.id}  ${request.toolName}  ${request.riskLevel.toUpperCase()}  ${request.createdAt}${quorum}\n` +
+        `    ${JSON.stringify(request.toolArgs)}\n`
+      );
+    }
+    return 0;
+  }
+
+  if ((sub === 'approve' || sub === 'reject') && id) {
+    const approved = sub === 'approve';
+    const grant = approved && grantWords.length > 0 ? parseGrantSpec(grantWords) : undefined;
+    if (grantWords.length > 0 && !grant) {
+      io.err(`Invalid grant "${grantWords.join(' ')}" (expected call | tool | session | args PATH=GLOB..., then [for 30m] [max N])\n`);
+      return 2;
+    }
+    // Anyone can type a name, so only the OS account counts towards a quorum
+    const request = ConsentGate.listQueued(queuePath).find((r) => r.id === id);
+    const quorum = (request?.requiredApprovals ?? 1) > 1;
+    if (quorum && label !== undefined) {
+      io.err(`--approver is not accepted for ${id}: it needs ${request!.requiredApprovals} approvals, which are recorded as the OS user\n`);
+      return 2;
+    }
+    const approver = (quorum ? undefined : label) ?? currentUser();
+    if (!approver) {
+      io.err(`Cannot determine the OS user to record as the approver of ${id}\n`);
+      return 1;
+    }
+    if (!ConsentGate.decideQueued(queuePath, id, approved, { approver, grant })) {
+      io.err(`No pending consent request ${id}\n`);
+      return 1;
+    }
+    io.out(`${approved ? 'Approved' : 'Rejected'} ${id} as ${approver}${grant ? ` with a ${grant.scope} grant` : ''}\n`);
+    return 0;
+  }
+
+  io.err(`Usage: air-trust consent list | approve <id> [grant] | reject <id>\n`);
+  return 2;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+/** The OS user, recorded as `os:<user>` for CLI consent decisions */
+function currentUser(): string | undefined {
+  try {
+    const { username } = userInfo();
+    return username ? `os:${username}` : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function openLedger(
+  ledgerPath: string,
+  options: { 'encryption-key'?: string | boolean }
+): AuditLedger {
+  const basePath = ledgerPath.replace(/\.json$/, '');
+  const storage = existsSync(basePath + '.segments')
+    ? 'jsonl'
+    : existsSync(basePath + '.sqlite') ? 'sqlite' : 'json';
+  if (storage === 'json' && !existsSync(ledgerPath)) {
+    throw new Error(`No ledger found at ${ledgerPath}`);
+  }
+
+  const keyFile = typeof options['encryption-key'] === 'string'
+    ? options['encryption-key']
+    : existsSync(basePath + '.enc.key') ? basePath + '.enc.key' : undefined;
+
+  return new AuditLedger({
+    enabled: true,
+    localPath: ledgerPath,
+    forwardToGateway: false,
+    maxEntries: 0,
+    storage,
+    readOnly: true,
+    ...(keyFile ? { encryption: { keyFile } } : {}),
+  });
+}
+
+/** Collect every entry matching a query, following pagination cursors */
+function queryAll(ledger: AuditLedger, query: AuditQuery): AuditEntry[] {
+  const entries: AuditEntry[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = ledger.query({ ...query, cursor });
+    entries.push(...page.entries);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return entries;
+}
+
+function parseFilter(options: Record<string, string | boolean | undefined>): AuditQuery {
+  const str = (key: string) => (typeof options[key] === 'string' ? (options[key] as string) : undefined);
+
+  const risk = str('risk');
+  if (risk !== undefined && !(risk in RISK_ORDER)) {
+    throw new Error(`Unknown risk level "${risk}"`);
+  }
+
+  return {
+    sessionId: str('session'),
+    callId: str('call'),
+    toolName: str('tool'),
+    action: str('action'),
+    minRiskLevel: risk as RiskLevel | undefined,
+    since: parseTime(str('since')),
+    until: parseTime(str('until')),
+  };
+}
+
+/** Parse an ISO timestamp or a relative duration such as 30m, 2h, 7d */
+function parseTime(value?: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const relative = value.match(/^(\d+)([smhd])$/);
+  if (relative) {
+    const unitMs = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as 's' | 'm' | 'h' | 'd'];
+    return new Date(Date.now() - Number(relative[1]) * unitMs);
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid time "${value}"`);
+  }
+  return date;
+}
+
+function formatEntry(entry: AuditEntry): string {
+  const flags = [
+    entry.consentRequired
+      ? `consent=${entry.consentGranted === undefined ? 'pending' : entry.consentGranted ? 'granted' : 'denied'}`
+      : '',
+    entry.dataTokenized ? 'tokenized' : '',
+    entry.injectionDetected ? 'injection' : '',
+    entrySessionId(entry) ? `session=${entrySessionId(entry)}` : '',
+  ].filter(Boolean);
+
+  return [
+    `#${String(entry.sequence).padStart(6, '0')}`,
+    entry.timestamp,
+    entry.action.padEnd(20),
+    (entry.toolName ?? '-').padEnd(16),
+    entry.riskLevel.toUpperCase().padEnd(8),
+    ...flags,
+  ].join('  ').trimEnd();
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
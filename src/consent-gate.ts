@@ -4,96 +4,131 @@
  * Intercepts destructive or sensitive tool calls and holds them
  * pending user approval. Classifies tools by risk level and
  * sends approval requests through OpenClaw's messaging channel.
+ * Risk comes from the tool risk registry (see tool-risk-registry.ts);
+ * exec-style tools are classified by the command they run (see
+ * shell-analyzer.ts), and the analyzer's findings are shown in the
+ * approval message.
  *
  * Flow:
  * 1. before_tool_call fires
- * 2. ConsentGate checks if tool requires consent
- * 3. If yes: sends approval message, waits for response
- * 4. If approved: tool executes normally
- * 5. If rejected/timeout: tool call is blocked
- * 6. All decisions are logged to the audit ledger
+ * 2. ConsentGate evaluates the policy rules, then the tool-name lists
+ * 3. If denied by policy: tool call is blocked without asking
+ * 4. If consent is required: sends approval message, waits for response
+ * 5. If approved: tool executes normally
+ * 6. If rejected/timeout: tool call is blocked
+ * 7. All decisions are logged to the audit ledger, with the policy rule
+ *
+ * An approval can carry a standing grant (`approve <id> tool for 30m`,
+ * see consent-grants.ts); later calls it covers skip steps 4–6 and are
+ * logged as `consent_grant_used` with the grant's ID.
+ *
+ * Requests that need a quorum (`quorum`, or a policy rule's `approvals`)
+ * wait for that many distinct named approvers; any rejection vetoes.
+ * Every response is kept in the request's `votes` and on its entry.
+ * Standing grants are neither created by nor applied to such calls.
+ *
+ * With `queuePath` set, pending requests are also published to a shared
+ * file so another process (the air-trust CLI) can list them and record
+ * decisions, which the gate picks up by polling. Updates of the file
+ * are serialized with a FileLock on `<queuePath>.lock`.
  */
 
 import { randomUUID } from 'crypto';
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
 import {
+  ConsentDecision,
   ConsentGateConfig,
+  ConsentGrant,
+  ConsentQueue,
   ConsentRequest,
+  ConsentResponse,
   RiskLevel,
   RISK_ORDER,
+  ShellAnalysis,
   ToolCallEvent,
   ToolCallResult,
   PluginContext,
+  RiskExplanation,
+  ToolRiskEntry,
 } from './types';
 import { AuditLedger } from './audit-ledger';
+import { digestArgs, GrantStore, parseConsentReply } from './consent-grants';
+import { ConsentPolicy, matchesGlob } from './consent-policy';
+import { FileLock } from './file-lock';
+import { analyzeShellCommand, shellCommandOf } from './shell-analyzer';
+import { ToolRiskRegistry } from './tool-risk-registry';
 
-/** Default risk classification for common tool patterns */
-const TOOL_RISK_MAP: Record<string, RiskLevel> = {
-  // Critical — arbitrary code execution
-  exec: 'critical',
-  spawn: 'critical',
-  shell: 'critical',
-  run_command: 'critical',
-  execute: 'critical',
-
-  // High — filesystem writes, destructive actions
-  fs_write: 'high',
-  fs_delete: 'high',
-  file_write: 'high',
-  file_delete: 'high',
-  apply_patch: 'high',
-  rm: 'high',
-  rmdir: 'high',
-  git_push: 'high',
-  deploy: 'high',
-
-  // Medium — communication, network
-  send_email: 'medium',
-  email_send: 'medium',
-  sessions_send: 'medium',
-  slack_send: 'medium',
-  http_request: 'medium',
-  api_call: 'medium',
-
-  // Low — reads, queries
-  fs_read: 'low',
-  file_read: 'low',
-  search: 'low',
-  query: 'low',
-};
+/** How often the shared queue is checked for out-of-band decisions */
+const QUEUE_POLL_MS = 500;
 
 export class ConsentGate {
   private config: ConsentGateConfig;
   private ledger: AuditLedger;
+  private policy?: ConsentPolicy;
+  private registry: ToolRiskRegistry;
+  private grants: GrantStore;
   private pendingRequests: Map<string, {
     request: ConsentRequest;
-    resolve: (approved: boolean) => void;
+    sessionId?: string;
+    argsDigest: string;
+    resolve: (approved: boolean, grant?: ConsentGrant) => void;
   }> = new Map();
+  private queuePoll?: ReturnType<typeof setInterval>;
+  /** IDs this gate has written to the shared queue */
+  private published: Set<string> = new Set();
 
   constructor(config: ConsentGateConfig, ledger: AuditLedger) {
     this.config = config;
     this.ledger = ledger;
+    validateQuorum(config);
+    if (config.policy) this.policy = new ConsentPolicy(config.policy, { workspace: config.workspace });
+    this.registry = new ToolRiskRegistry({ tools: config.tools, defaultRiskLevel: config.defaultRiskLevel });
+    this.grants = new GrantStore(config.grants);
   }
 
   /**
-   * Classify risk level for a tool.
+   * Declare a tool's risk metadata at runtime (entries in
+   * `consentGate.tools` still take precedence).
    */
-  classifyRisk(toolName: string): RiskLevel {
-    // Exact match first
-    if (TOOL_RISK_MAP[toolName]) return TOOL_RISK_MAP[toolName];
-
-    // Partial match — check if tool name contains any risk keyword
-    const lower = toolName.toLowerCase();
-    for (const [pattern, level] of Object.entries(TOOL_RISK_MAP)) {
-      if (lower.includes(pattern)) return level;
-    }
+  registerTool(entry: ToolRiskEntry): void {
+    this.registry.register(entry);
+  }
+
+  /**
+   * Classify risk level for a tool. With `args`, an exec-style call is
+   * classified by the command it runs.
+   */
+  classifyRisk(toolName: string, args?: Record<string, unknown>): RiskLevel {
+    const analysis = args && this.analyzeCommand(toolName, args);
+    return analysis ? this.commandRisk(toolName, analysis) : this.registry.classify(toolName);
+  }
 
-    return 'low';
+  /**
+   * Explain a classification: the registry entry (or default) that
+   * produced it and, with `args`, the analysis of an exec-style call's
+   * command.
+   */
+  explainRisk(toolName: string, args?: Record<string, unknown>): RiskExplanation {
+    const explanation = this.registry.explain(toolName);
+    const analysis = args && this.analyzeCommand(toolName, args);
+    if (!analysis) return explanation;
+    const riskLevel = this.commandRisk(toolName, analysis);
+    return {
+      ...explanation,
+      riskLevel,
+      shell: analysis,
+      reason:
+        riskLevel === analysis.riskLevel
+          ? `${explanation.reason}; its command classified as ${riskLevel} risk`
+          : `${explanation.reason}; its command could not be fully analyzed, so the tool's ${riskLevel} risk stands`,
+    };
   }
 
   /**
    * Check if a tool call requires consent.
    */
-  requiresConsent(toolName: string): boolean {
+  requiresConsent(toolName: string, args?: Record<string, unknown>): boolean {
     // Explicit never-require list
     if (this.config.neverRequire.includes(toolName)) return false;
 
@@ -101,40 +136,160 @@ export class ConsentGate {
     if (this.config.alwaysRequire.includes(toolName)) return true;
 
     // Risk threshold check
-    const risk = this.classifyRisk(toolName);
+    const risk = this.classifyRisk(toolName, args);
     return RISK_ORDER[risk] >= RISK_ORDER[this.config.riskThreshold];
   }
 
+  /**
+   * Analyze the command an exec-style call runs (a tool whose registry
+   * entry has `shellCommand`). Undefined for other tools, or when the
+   * arguments carry no command.
+   */
+  analyzeCommand(toolName: string, args: Record<string, unknown>): ShellAnalysis | undefined {
+    if (!this.registry.lookup(toolName)?.entry.shellCommand) return undefined;
+    const command = shellCommandOf(args);
+    if (command === undefined) return undefined;
+    return analyzeShellCommand(command, {
+      workspace: this.config.workspace,
+      cwd: typeof args.cwd === 'string' ? args.cwd : undefined,
+    });
+  }
+
+  /**
+   * Decide how a call is treated: by the first matching policy rule,
+   * otherwise by requiresConsent() on the tool name and, for exec-style
+   * tools, the command.
+   */
+  evaluate(event: Pick<ToolCallEvent, 'toolName' | 'args' | 'sessionId'>, now?: Date): ConsentDecision {
+    const analysis = this.analyzeCommand(event.toolName, event.args);
+    const findings = analysis?.findings.length
+      ? { findings: analysis.findings.map((f) => `[${f.riskLevel}] ${f.message}`) }
+      : {};
+
+    const rule = this.policy?.match(event, now);
+    if (rule) {
+      const riskLevel = rule.riskLevel ?? this.classifyRisk(event.toolName, event.args);
+      return {
+        outcome: rule.outcome,
+        riskLevel,
+        rule: rule.id,
+        reason: rule.reason ?? `Tool "${event.toolName}" matched policy rule "${rule.id}"`,
+        ...findings,
+        ...this.quorumFor(rule.outcome, event.toolName, riskLevel, rule.approvals),
+        ...(rule.outcome === 'require_consent' ? { argsDigest: digestArgs(event.args) } : {}),
+      };
+    }
+    const riskLevel = analysis ? this.commandRisk(event.toolName, analysis) : this.classifyRisk(event.toolName);
+    const outcome = this.requiresConsent(event.toolName, event.args) ? 'require_consent' : 'allow';
+    return {
+      outcome,
+      riskLevel,
+      reason: analysis
+        ? `Command run by "${event.toolName}" classified as ${riskLevel} risk`
+        : `Tool "${event.toolName}" classified as ${riskLevel} risk`,
+      ...findings,
+      ...this.quorumFor(outcome, event.toolName, riskLevel),
+      ...(outcome === 'require_consent' ? { argsDigest: digestArgs(event.args) } : {}),
+    };
+  }
+
   /**
    * Intercept a tool call. If consent is needed, block until approved.
    * Returns a ToolCallResult indicating whether the call should proceed.
+   * Pass `decision` when the call was already evaluated.
    */
   async intercept(
     event: ToolCallEvent,
-    ctx: PluginContext
+    ctx: PluginContext,
+    decision: ConsentDecision = this.evaluate(event)
   ): Promise<ToolCallResult> {
-    if (!this.requiresConsent(event.toolName)) {
-      return { blocked: false };
+    const policyRule = decision.rule ? { policyRule: decision.rule } : {};
+    const findings = decision.findings ? { findings: decision.findings } : {};
+    if (decision.outcome === 'allow') {
+      return { blocked: false, ...policyRule };
+    }
+
+    const risk = decision.riskLevel;
+
+    if (decision.outcome === 'deny') {
+      this.ledger.append({
+        action: 'consent_denied',
+        toolName: event.toolName,
+        sessionId: event.sessionId,
+        callId: event.callId,
+        riskLevel: risk,
+        consentRequired: true,
+        consentGranted: false,
+        dataTokenized: false,
+        injectionDetected: false,
+        metadata: {
+          ...policyRule,
+          reason: decision.reason,
+          ...findings,
+          toolArgs: event.args,
+        },
+      });
+      return { blocked: true, reason: `Tool call denied by policy: ${decision.reason}`, ...policyRule };
     }
 
-    const risk = this.classifyRisk(event.toolName);
+    // The decision's digest is of the original arguments, before tokenization
+    const argsDigest = decision.argsDigest ?? digestArgs(event.args);
+    // A grant stands in for one approver, so it never satisfies a quorum
+    const standing =
+      (decision.requiredApprovals ?? 1) === 1 ? this.grants.find({ ...event, argsDigest }, risk) : undefined;
+    if (standing) {
+      const grant = this.grants.use(standing.id)!;
+      this.ledger.append({
+        action: 'consent_grant_used',
+        toolName: event.toolName,
+        sessionId: event.sessionId,
+        callId: event.callId,
+        riskLevel: risk,
+        consentRequired: true,
+        consentGranted: true,
+        dataTokenized: false,
+        injectionDetected: false,
+        metadata: {
+          grantId: grant.id,
+          consentId: grant.consentId,
+          grantScope: grant.scope,
+          uses: grant.uses,
+          ...policyRule,
+          ...findings,
+          toolArgs: event.args,
+        },
+      });
+      return { blocked: false, grantId: grant.id, ...policyRule };
+    }
 
     const request: ConsentRequest = {
       id: randomUUID(),
       toolName: event.toolName,
       toolArgs: event.args,
       riskLevel: risk,
-      reason: `Tool "${event.toolName}" classified as ${risk} risk`,
+      reason: decision.reason,
+      ...(event.callId ? { callId: event.callId } : {}),
+      ...policyRule,
+      ...findings,
+      requiredApprovals: decision.requiredApprovals ?? 1,
+      votes: [],
       status: 'pending',
       createdAt: new Date().toISOString(),
     };
 
+    this.ledger.publish({
+      type: 'consent_requested',
+      timestamp: request.createdAt,
+      request: { ...request },
+      ...(event.sessionId ? { sessionId: event.sessionId } : {}),
+    });
+
     // Send approval message to user
     const message = this.formatConsentMessage(request);
     await ctx.sendMessage(message);
 
     // Wait for approval with timeout
-    const approved = await this.waitForApproval(request);
+    const { approved, grant } = await this.waitForApproval(request, argsDigest, event.sessionId);
 
     // Update request status (timeout is set inside waitForApproval)
     const wasTimeout = request.status === 'timeout';
@@ -144,9 +299,11 @@ export class ConsentGate {
     request.resolvedAt = new Date().toISOString();
 
     // Log to audit ledger
-    this.ledger.append({
+    const entry = this.ledger.append({
       action: `consent_${request.status}`,
       toolName: event.toolName,
+      sessionId: event.sessionId,
+      callId: event.callId,
       riskLevel: risk,
       consentRequired: true,
       consentGranted: approved,
@@ -154,33 +311,151 @@ export class ConsentGate {
       injectionDetected: false,
       metadata: {
         consentId: request.id,
+        ...policyRule,
+        ...findings,
+        ...(grant ? { grantId: grant.id, grantScope: grant.scope, grantExpiresAt: grant.expiresAt } : {}),
+        requiredApprovals: request.requiredApprovals,
+        votes: request.votes,
         toolArgs: event.args,
       },
     });
+    this.ledger.publish({ type: 'consent_resolved', timestamp: request.resolvedAt, request, entry });
 
     if (!approved) {
       return {
         blocked: true,
-        reason: `Tool call rejected: ${wasTimeout ? 'approval timed out' : 'user rejected'}`,
+        reason: `Tool call rejected: ${wasTimeout ? timeoutReason(request) : rejectionReason(request)}`,
+        ...policyRule,
       };
     }
 
-    return { blocked: false };
+    return { blocked: false, ...(grant ? { grantId: grant.id } : {}), ...policyRule };
   }
 
   /**
    * Handle a user response to a consent request.
    * Call this when the user sends "approve <id>" or "reject <id>".
+   * A rejection resolves the request at once; an approval does once
+   * the request has its required number of distinct approvers (only
+   * named approvers count towards a quorum). With `grant`, the approval
+   * also creates a standing grant, unless the request needs a quorum.
+   * Returns false if no such request is pending or the response did
+   * not count.
    */
-  handleResponse(consentId: string, approved: boolean): boolean {
+  handleResponse(consentId: string, approved: boolean, response: ConsentResponse = {}): boolean {
     const pending = this.pendingRequests.get(consentId);
     if (!pending) return false;
 
-    pending.resolve(approved);
+    const { request } = pending;
+    const votes = (request.votes ??= []);
+    const required = request.requiredApprovals ?? 1;
+    const { approver } = response;
+    if (approved && required > 1 && (!approver || votes.some((v) => v.approved && v.approver === approver))) {
+      return false;
+    }
+    votes.push({ ...(approver ? { approver } : {}), approved, at: new Date().toISOString() });
+
+    if (approved && votes.filter((v) => v.approved).length < required) {
+      this.syncQueue();
+      return true;
+    }
+
+    const grant =
+      approved && response.grant && required === 1
+        ? this.grants.create(response.grant, request, pending.sessionId, pending.argsDigest)
+        : undefined;
+    pending.resolve(approved, grant);
     this.pendingRequests.delete(consentId);
+    this.syncQueue();
     return true;
   }
 
+  /**
+   * Act on a consent reply in a user message: `approve <id> [grant]`,
+   * `reject <id>`, or `revoke <grant id>|all` (all of the session's
+   * grants). `userId` is the sender's chat user ID, recorded as
+   * `chat:<id>` so it never matches an OS account voting from the CLI.
+   * Returns false if the message is not a reply or matched nothing.
+   */
+  handleReply(content: string, sessionId?: string, userId?: string): boolean {
+    const reply = parseConsentReply(content);
+    if (!reply) return false;
+    if (reply.type === 'revoke') {
+      return reply.grantId === 'all'
+        ? this.revokeGrants(sessionId) > 0
+        : this.revokeGrant(reply.grantId);
+    }
+    const approver = userId === undefined ? undefined : `chat:${userId}`;
+    return reply.type === 'approve'
+      ? this.handleResponse(reply.consentId, true, { approver, grant: reply.grant })
+      : this.handleResponse(reply.consentId, false, { approver });
+  }
+
+  /** Active standing grants, optionally for one session */
+  listGrants(sessionId?: string): ConsentGrant[] {
+    return this.grants.list(sessionId);
+  }
+
+  /** Revoke a standing grant, logging `consent_grant_revoked` */
+  revokeGrant(grantId: string): boolean {
+    const grant = this.grants.revoke(grantId);
+    if (!grant) return false;
+    this.ledger.append({
+      action: 'consent_grant_revoked',
+      toolName: grant.toolName,
+      sessionId: grant.sessionId,
+      riskLevel: grant.maxRiskLevel,
+      consentRequired: false,
+      dataTokenized: false,
+      injectionDetected: false,
+      metadata: { grantId: grant.id, consentId: grant.consentId, grantScope: grant.scope, uses: grant.uses },
+    });
+    return true;
+  }
+
+  /** Revoke every active grant (of one session, if given); returns how many */
+  revokeGrants(sessionId?: string): number {
+    return this.grants.list(sessionId).filter((grant) => this.revokeGrant(grant.id)).length;
+  }
+
+  /** Requests currently waiting for a decision in this process */
+  listPending(): ConsentRequest[] {
+    return [...this.pendingRequests.values()].map(({ request }) => ({ ...request }));
+  }
+
+  /** Pending requests published to a shared queue file by any process */
+  static listQueued(queuePath: string): ConsentRequest[] {
+    return readQueue(queuePath).pending;
+  }
+
+  /**
+   * Record a decision in a shared queue file. The gate holding the
+   * request applies it on its next poll. A later decision by the same
+   * approver replaces theirs. Returns false if no such request is
+   * pending.
+   */
+  static decideQueued(
+    queuePath: string,
+    consentId: string,
+    approved: boolean,
+    response: ConsentResponse = {}
+  ): boolean {
+    return updateQueue(queuePath, (queue) => {
+      if (!queue.pending.some((r) => r.id === consentId)) return false;
+      const decisions = (queue.decisions[consentId] ?? []).filter(
+        (d) => response.approver === undefined || d.approver !== response.approver
+      );
+      decisions.push({
+        approved,
+        decidedAt: new Date().toISOString(),
+        ...(response.approver ? { approver: response.approver } : {}),
+        ...(approved && response.grant ? { grant: response.grant } : {}),
+      });
+      queue.decisions[consentId] = decisions;
+      return true;
+    });
+  }
+
   /**
    * Format a human-readable consent message.
    */
@@ -203,11 +478,18 @@ export class ConsentGate {
       ``,
       `Tool: \`${request.toolName}\``,
       `Risk: **${request.riskLevel.toUpperCase()}**`,
+      ...(request.findings?.length ? [``, `Findings:`, ...request.findings.map((f) => `  • ${f}`)] : []),
       ``,
       `Arguments:`,
       argsSummary || '  (none)',
       ``,
+      ...((request.requiredApprovals ?? 1) > 1
+        ? [`Needs **${request.requiredApprovals}** approvals from different people; any rejection blocks it`, ``]
+        : []),
       `Reply \`approve ${request.id}\` to allow`,
+      ...(this.grants.allows('tool') && (request.requiredApprovals ?? 1) === 1
+        ? [`Reply \`approve ${request.id} tool for 30m\` to allow \`${request.toolName}\` for 30 minutes`]
+        : []),
       `Reply \`reject ${request.id}\` to block`,
       ``,
       `Auto-rejects in ${Math.round(this.config.timeoutMs / 1000)}s`,
@@ -216,19 +498,186 @@ export class ConsentGate {
 
   // ─── Private ────────────────────────────────────────────────
 
-  private waitForApproval(request: ConsentRequest): Promise<boolean> {
-    return new Promise<boolean>((resolve) => {
+  /**
+   * Risk of an exec-style call: its command's, but never below the
+   * tool's registry risk when the analyzer could not see into it.
+   */
+  private commandRisk(toolName: string, analysis: ShellAnalysis): RiskLevel {
+    if (!analysis.opaque) return analysis.riskLevel;
+    const registered = this.registry.classify(toolName);
+    return RISK_ORDER[registered] > RISK_ORDER[analysis.riskLevel] ? registered : analysis.riskLevel;
+  }
+
+  /**
+   * Approvals a call needs: the policy rule's, else the first matching
+   * `quorum.tools` entry (exact names before globs), else the risk
+   * level's. Only reported for `require_consent` outcomes above one.
+   */
+  private quorumFor(
+    outcome: ConsentDecision['outcome'],
+    toolName: string,
+    riskLevel: RiskLevel,
+    ruleApprovals?: number
+  ): { requiredApprovals?: number } {
+    if (outcome !== 'require_consent') return {};
+    const tools = Object.entries(this.config.quorum?.tools ?? {});
+    const required =
+      ruleApprovals ??
+      tools.find(([pattern]) => pattern === toolName)?.[1] ??
+      tools.find(([pattern]) => matchesGlob(pattern, toolName))?.[1] ??
+      this.config.quorum?.riskLevels?.[riskLevel] ??
+      1;
+    return required > 1 ? { requiredApprovals: required } : {};
+  }
+
+  /** Whether a queued response has already been counted */
+  private applied(consentId: string, approved: boolean, approver?: string): boolean {
+    const votes = this.pendingRequests.get(consentId)?.request.votes ?? [];
+    return votes.some((v) => v.approved === approved && v.approver === approver);
+  }
+
+  private waitForApproval(
+    request: ConsentRequest,
+    argsDigest: string,
+    sessionId?: string
+  ): Promise<{ approved: boolean; grant?: ConsentGrant }> {
+    return new Promise((resolve) => {
       // Store resolver so handleResponse can call it
-      this.pendingRequests.set(request.id, { request, resolve });
+      this.pendingRequests.set(request.id, {
+        request,
+        sessionId,
+        argsDigest,
+        resolve: (approved, grant) => resolve({ approved, grant }),
+      });
+      this.syncQueue();
 
       // Auto-reject on timeout
       setTimeout(() => {
         if (this.pendingRequests.has(request.id)) {
           request.status = 'timeout';
           this.pendingRequests.delete(request.id);
-          resolve(false);
+          this.syncQueue();
+          resolve({ approved: false });
         }
       }, this.config.timeoutMs);
     });
   }
+
+  /**
+   * Publish this gate's pending requests to the shared queue (keeping
+   * other processes' requests), and poll for decisions while any are
+   * outstanding.
+   */
+  private syncQueue(): void {
+    const queuePath = this.config.queuePath;
+    if (!queuePath) return;
+
+    updateQueue(queuePath, (queue) => {
+      queue.pending = queue.pending.filter(
+        (r) => !this.published.has(r.id) || this.pendingRequests.has(r.id)
+      );
+      for (const request of this.listPending()) {
+        const index = queue.pending.findIndex((r) => r.id === request.id);
+        if (index >= 0) queue.pending[index] = request;
+        else queue.pending.push(request);
+      }
+      this.published = new Set(this.pendingRequests.keys());
+      for (const id of Object.keys(queue.decisions)) {
+        if (!queue.pending.some((r) => r.id === id)) delete queue.decisions[id];
+      }
+      return true;
+    });
+
+    if (this.pendingRequests.size > 0 && !this.queuePoll) {
+      this.queuePoll = setInterval(() => this.pollQueue(), QUEUE_POLL_MS);
+      if (this.queuePoll.unref) this.queuePoll.unref();
+    } else if (this.pendingRequests.size === 0 && this.queuePoll) {
+      clearInterval(this.queuePoll);
+      this.queuePoll = undefined;
+    }
+  }
+
+  private pollQueue(): void {
+    const { decisions } = readQueue(this.config.queuePath!);
+    for (const [id, responses] of Object.entries(decisions)) {
+      for (const { approved, approver, grant } of responses) {
+        if (this.pendingRequests.has(id) && !this.applied(id, approved, approver)) {
+          this.handleResponse(id, approved, { approver, grant });
+        }
+      }
+    }
+  }
+
+}
+
+// ─── Quorum ───────────────────────────────────────────────────
+
+/** Throws if an approval count is not a whole number of at least 1 */
+function validateQuorum(config: ConsentGateConfig): void {
+  const check = (where: string, count: number | undefined) => {
+    if (count !== undefined && !(Number.isInteger(count) && count >= 1)) {
+      throw new Error(`Invalid ${where}: expected a whole number of at least 1, got ${count}`);
+    }
+  };
+  for (const [level, count] of Object.entries(config.quorum?.riskLevels ?? {})) check(`quorum.riskLevels.${level}`, count);
+  for (const [tool, count] of Object.entries(config.quorum?.tools ?? {})) check(`quorum.tools["${tool}"]`, count);
+  for (const rule of config.policy ?? []) check(`approvals of policy rule "${rule.id}"`, rule.approvals);
+}
+
+function approvalProgress(request: ConsentRequest): string {
+  const approvers = (request.votes ?? []).filter((v) => v.approved).map((v) => v.approver ?? 'anonymous');
+  return `${approvers.length} of ${request.requiredApprovals ?? 1} approvals` +
+    (approvers.length > 0 ? `: ${approvers.join(', ')}` : '');
+}
+
+function timeoutReason(request: ConsentRequest): string {
+  return (request.requiredApprovals ?? 1) > 1
+    ? `approval timed out (${approvalProgress(request)})`
+    : 'approval timed out';
+}
+
+function rejectionReason(request: ConsentRequest): string {
+  const veto = (request.votes ?? []).find((v) => !v.approved);
+  return veto?.approver ? `rejected by ${veto.approver}` : 'user rejected';
+}
+
+// ─── Shared Queue File ────────────────────────────────────────
+
+function readQueue(queuePath: string): ConsentQueue {
+  if (!existsSync(queuePath)) return { pending: [], decisions: {} };
+  try {
+    const data = JSON.parse(readFileSync(queuePath, 'utf-8'));
+    // Files written before quorum support hold one decision per request
+    const decisions: ConsentQueue['decisions'] = {};
+    for (const [id, value] of Object.entries(data.decisions ?? {})) {
+      decisions[id] = Array.isArray(value) ? value : [value as ConsentQueue['decisions'][string][number]];
+    }
+    return { pending: data.pending ?? [], decisions };
+  } catch {
+    return { pending: [], decisions: {} };
+  }
+}
+
+/**
+ * Read, change and write the queue file under its lock, so gates and the
+ * CLI updating it at once do not lose each other's changes. `update`
+ * returns false to leave the file as it was.
+ */
+function updateQueue(queuePath: string, update: (queue: ConsentQueue) => boolean): boolean {
+  return new FileLock(queuePath + '.lock').withLock(() => {
+    const queue = readQueue(queuePath);
+    if (!update(queue)) return false;
+    writeQueue(queuePath, queue);
+    return true;
+  });
+}
+
+function writeQueue(queuePath: string, queue: ConsentQueue): void {
+  const dir = dirname(queuePath);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  const tmp = `${queuePath}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify(queue, null, 2));
+  // Group-writable whatever the umask, so each approver can vote from their own account
+  chmodSync(tmp, 0o660);
+  renameSync(tmp, queuePath);
 }
@@ -0,0 +1,236 @@
+/**
+ * openclaw-air-trust — Consent Grants
+ *
+ * Standing approvals, so a 40-step refactor does not produce 40
+ * identical prompts. Replying `approve <id> tool for 30m` instead of
+ * `approve <id>` approves the call and creates a grant that covers
+ * later calls without asking:
+ *
+ *   approve <id> [call | tool | args <path>=<glob>... | session] [for <n>s|m|h|d] [max <n>]
+ *
+ * Grants are bound to the session of the originating request, expire
+ * (default 30 minutes, capped by `grants.maxTtlMs`), optionally run out
+ * after `max` uses, never cover a call riskier than the one approved,
+ * and can be revoked with `revoke <grant id>` or `revoke all`. A reply
+ * whose grant part cannot be parsed, or asks for a disabled scope,
+ * approves only the one call.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { canonicalize } from './canonical-json';
+import { matchesGlob } from './consent-policy';
+import {
+  ConsentGrant,
+  ConsentGrantConfig,
+  ConsentGrantSpec,
+  ConsentRequest,
+  GrantScope,
+  RiskLevel,
+  RISK_ORDER,
+} from './types';
+
+const DEFAULT_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_TTL_MS = 24 * 60 * 60 * 1000;
+const GRANT_SCOPES: GrantScope[] = ['call', 'args', 'tool', 'session'];
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+/** A consent reply recognized in a user message */
+export type ConsentReply =
+  | { type: 'approve'; consentId: string; grant?: ConsentGrantSpec }
+  | { type: 'reject'; consentId: string }
+  | { type: 'revoke'; grantId: string | 'all' };
+
+/** Parse `approve <id> …`, `reject <id>` or `revoke <grant id>|all` */
+export function parseConsentReply(text: string): ConsentReply | undefined {
+  const match = text.trim().match(/^(approve|reject|revoke)\s+([a-f0-9-]+|all)\b(.*)$/is);
+  if (!match) return undefined;
+  const [, verb, id, rest] = match;
+  const type = verb.toLowerCase();
+
+  if (type === 'revoke') return { type, grantId: id.toLowerCase() === 'all' ? 'all' : id };
+  if (id.toLowerCase() === 'all') return undefined;
+  if (type === 'reject') return { type, consentId: id };
+
+  const grant = parseGrantSpec(rest.trim().split(/\s+/).filter(Boolean));
+  return grant ? { type: 'approve', consentId: id, grant } : { type: 'approve', consentId: id };
+}
+
+/**
+ * Parse the grant part of an approval (the words after the ID).
+ * Undefined for a one-shot approval (`once`, nothing) or unparseable input.
+ */
+export function parseGrantSpec(words: string[]): ConsentGrantSpec | undefined {
+  const [scope, ...rest] = words.map((w, i) => (i === 0 ? w.toLowerCase() : w));
+  if (!GRANT_SCOPES.includes(scope as GrantScope)) return undefined;
+  const spec: ConsentGrantSpec = { scope: scope as GrantScope };
+
+  let i = 0;
+  if (scope === 'args') {
+    spec.args = {};
+    for (; i < rest.length && rest[i].includes('='); i++) {
+      const at = rest[i].indexOf('=');
+      const [path, glob] = [rest[i].slice(0, at), rest[i].slice(at + 1)];
+      if (!path || !glob) return undefined;
+      spec.args[path] = glob;
+    }
+    if (Object.keys(spec.args).length === 0) return undefined;
+  }
+
+  while (i < rest.length) {
+    const [keyword, value] = [rest[i].toLowerCase(), rest[i + 1]];
+    if (keyword === 'for' && parseDuration(value) !== undefined) {
+      spec.ttlMs = parseDuration(value);
+    } else if (keyword === 'max' && /^[1-9]\d*$/.test(value ?? '')) {
+      spec.maxUses = Number(value);
+    } else {
+      return undefined;
+    }
+    i += 2;
+  }
+  return spec;
+}
+
+/**
+ * SHA-256 of a call's canonical arguments. `call` grants compare these
+ * rather than the arguments the gate sees, which the DataVault may have
+ * tokenized with fresh tokens for every call.
+ */
+export function digestArgs(args: Record<string, unknown>): string {
+  return createHash('sha256').update(canonicalize(args)).digest('hex');
+}
+
+/** Grants held by a ConsentGate */
+export class GrantStore {
+  private grants: Map<string, ConsentGrant> = new Map();
+  private defaultTtlMs: number;
+  private maxTtlMs: number;
+  private scopes: GrantScope[];
+
+  constructor(config: ConsentGrantConfig = {}) {
+    this.defaultTtlMs = config.defaultTtlMs ?? DEFAULT_TTL_MS;
+    this.maxTtlMs = config.maxTtlMs ?? DEFAULT_MAX_TTL_MS;
+    this.scopes = config.scopes ?? GRANT_SCOPES;
+  }
+
+  /** Whether replies may ask for `scope` */
+  allows(scope: GrantScope): boolean {
+    return this.scopes.includes(scope);
+  }
+
+  /**
+   * Create a grant from an approved request; undefined if the scope is
+   * disabled. `argsDigest` is the digest of the original arguments.
+   */
+  create(
+    spec: ConsentGrantSpec,
+    request: ConsentRequest,
+    sessionId?: string,
+    argsDigest: string = digestArgs(request.toolArgs)
+  ): ConsentGrant | undefined {
+    if (!this.allows(spec.scope)) return undefined;
+    const now = Date.now();
+    const ttlMs = Math.min(spec.ttlMs ?? this.defaultTtlMs, this.maxTtlMs);
+    const grant: ConsentGrant = {
+      id: randomUUID(),
+      scope: spec.scope,
+      consentId: request.id,
+      ...(sessionId ? { sessionId } : {}),
+      ...(spec.scope !== 'session' ? { toolName: request.toolName } : {}),
+      ...(spec.scope === 'call' ? { args: request.toolArgs, argsDigest } : {}),
+      ...(spec.scope === 'args' ? { args: { ...spec.args } } : {}),
+      maxRiskLevel: request.riskLevel,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString(),
+      ...(spec.maxUses ? { maxUses: spec.maxUses } : {}),
+      uses: 0,
+    };
+    this.grants.set(grant.id, grant);
+    return grant;
+  }
+
+  /** The narrowest active grant covering a call, if any */
+  find(
+    call: { toolName: string; args: Record<string, unknown>; sessionId?: string; argsDigest?: string },
+    riskLevel: RiskLevel
+  ): ConsentGrant | undefined {
+    return this.list()
+      .filter((grant) => covers(grant, call, riskLevel))
+      .sort((a, b) => GRANT_SCOPES.indexOf(a.scope) - GRANT_SCOPES.indexOf(b.scope))[0];
+  }
+
+  /** Count a use of a grant; returns the updated grant */
+  use(grantId: string): ConsentGrant | undefined {
+    const grant = this.grants.get(grantId);
+    if (!grant) return undefined;
+    grant.uses++;
+    if (!isActive(grant)) this.grants.delete(grantId);
+    return { ...grant };
+  }
+
+  /** Revoke an active grant; returns it, or undefined if there was none */
+  revoke(grantId: string): ConsentGrant | undefined {
+    const grant = this.list().find((g) => g.id === grantId);
+    if (!grant) return undefined;
+    this.grants.delete(grantId);
+    return { ...grant, revokedAt: new Date().toISOString() };
+  }
+
+  /** Active grants, optionally for one session */
+  list(sessionId?: string): ConsentGrant[] {
+    for (const [id, grant] of this.grants) {
+      if (!isActive(grant)) this.grants.delete(id);
+    }
+    return [...this.grants.values()]
+      .filter((grant) => sessionId === undefined || grant.sessionId === sessionId)
+      .map((grant) => ({ ...grant }));
+  }
+}
+
+// ─── Private ────────────────────────────────────────────────
+
+function parseDuration(value: string | undefined): number | undefined {
+  const match = value?.match(/^(\d+)(s|m|h|d)$/i);
+  if (!match || Number(match[1]) === 0) return undefined;
+  return Number(match[1]) * DURATION_UNITS[match[2].toLowerCase()];
+}
+
+function isActive(grant: ConsentGrant): boolean {
+  if (Date.parse(grant.expiresAt) <= Date.now()) return false;
+  return grant.maxUses === undefined || grant.uses < grant.maxUses;
+}
+
+function covers(
+  grant: ConsentGrant,
+  call: { toolName: string; args: Record<string, unknown>; sessionId?: string; argsDigest?: string },
+  riskLevel: RiskLevel
+): boolean {
+  if (grant.sessionId !== call.sessionId) return false;
+  if (RISK_ORDER[riskLevel] > RISK_ORDER[grant.maxRiskLevel]) return false;
+  if (grant.scope === 'session') return true;
+  if (grant.toolName !== call.toolName) return false;
+
+  switch (grant.scope) {
+    case 'call':
+      return grant.argsDigest === (call.argsDigest ?? digestArgs(call.args));
+    case 'args':
+      // Like a policy allow rule, every element of an array must match
+      return Object.entries(grant.args ?? {}).every(([path, glob]) => {
+        const value = lookup(call.args, path.split('.'));
+        const values = Array.isArray(value) ? value : [value];
+        return values.length > 0 && values.every(
+          (v) => (typeof v === 'string' || typeof v === 'number' || typeof v === 'boolean') && matchesGlob(String(glob), String(v))
+        );
+      });
+    default:
+      return true;
+  }
+}
+
+function lookup(args: Record<string, unknown>, path: string[]): unknown {
+  let value: unknown = args;
+  for (const key of path) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
@@ -0,0 +1,193 @@
+/**
+ * openclaw-air-trust — Consent Policy
+ *
+ * Declarative rules that let the ConsentGate look past the tool name:
+ * `exec` running `ls` can be allowed while `exec` running `rm -rf` is
+ * denied, and `fs_write` under /tmp can skip the approval that a write
+ * under ~/.ssh needs. Rules are checked in order and the first match
+ * decides; calls no rule matches fall back to the gate's tool-name
+ * lists.
+ *
+ * Conditions: tool name and session globs, argument values (equality,
+ * regex, path prefixes, numeric ranges) and a time-of-day window.
+ * Rules are validated when the policy is built, so a typo in a regex
+ * or time fails at startup rather than at the first tool call.
+ *
+ * For an array argument, a deny or require-consent condition matches
+ * when any element does, but an allow condition only when every element
+ * does, so one safe path cannot carry an unsafe one through. Relative
+ * paths resolve against the call's `cwd` argument, else the first
+ * workspace directory.
+ */
+
+import { homedir } from 'os';
+import { resolve, sep } from 'path';
+import { ArgCondition, PolicyOutcome, PolicyRule, PolicyTimeWindow } from './types';
+
+const OUTCOMES: PolicyOutcome[] = ['allow', 'require_consent', 'deny'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/** The call attributes rules are evaluated against */
+export interface PolicyCall {
+  toolName: string;
+  args: Record<string, unknown>;
+  sessionId?: string;
+}
+
+interface CompiledRule {
+  rule: PolicyRule;
+  tools?: RegExp[];
+  sessions?: RegExp[];
+  args: Array<{ path: string[]; condition: ArgCondition; regex?: RegExp; prefixes?: string[] }>;
+  time?: { from: number; to: number; days?: number[]; clock: Intl.DateTimeFormat };
+}
+
+export class ConsentPolicy {
+  private rules: CompiledRule[];
+  private base: string;
+
+  /** Throws if a rule is malformed */
+  constructor(rules: PolicyRule[], options: { workspace?: string[] } = {}) {
+    this.base = normalizePath(options.workspace?.[0] ?? process.cwd(), process.cwd());
+    const ids = new Set<string>();
+    this.rules = rules.map((rule) => {
+      if (!rule.id) throw new Error('Policy rule without an id');
+      if (ids.has(rule.id)) throw new Error(`Duplicate policy rule id "${rule.id}"`);
+      ids.add(rule.id);
+      try {
+        return compile(rule, this.base);
+      } catch (err) {
+        throw new Error(`Invalid policy rule "${rule.id}": ${(err as Error).message}`);
+      }
+    });
+  }
+
+  /** The first rule matching the call, if any */
+  match(call: PolicyCall, now: Date = new Date()): PolicyRule | undefined {
+    const cwd = typeof call.args.cwd === 'string' ? normalizePath(call.args.cwd, this.base) : this.base;
+    return this.rules.find((compiled) => matches(compiled, call, now, cwd))?.rule;
+  }
+}
+
+/** Whether `value` matches a glob where `*` is any run of characters and `?` one character */
+export function matchesGlob(pattern: string, value: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
+
+// ─── Private ────────────────────────────────────────────────
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((c) => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+function compile(rule: PolicyRule, base: string): CompiledRule {
+  if (!OUTCOMES.includes(rule.outcome)) throw new Error(`unknown outcome "${rule.outcome}"`);
+  return {
+    rule,
+    tools: rule.tools?.map(globToRegExp),
+    sessions: rule.sessions?.map(globToRegExp),
+    args: Object.entries(rule.args ?? {}).map(([path, condition]) => ({
+      path: path.split('.'),
+      condition,
+      regex: condition.matches !== undefined ? new RegExp(condition.matches) : undefined,
+      prefixes: condition.pathPrefix?.map((prefix) => normalizePath(prefix, base)),
+    })),
+    time: rule.time ? compileTime(rule.time) : undefined,
+  };
+}
+
+function compileTime(window: PolicyTimeWindow): NonNullable<CompiledRule['time']> {
+  const minutes = (value: string) => {
+    const match = value.match(TIME_PATTERN);
+    if (!match) throw new Error(`time "${value}" is not HH:MM`);
+    return Number(match[1]) * 60 + Number(match[2]);
+  };
+  return {
+    from: minutes(window.from),
+    to: minutes(window.to),
+    days: window.days,
+    // Throws RangeError for an unknown time zone
+    clock: new Intl.DateTimeFormat('en-US', {
+      timeZone: window.timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23',
+    }),
+  };
+}
+
+function matches(compiled: CompiledRule, call: PolicyCall, now: Date, cwd: string): boolean {
+  if (compiled.tools && !compiled.tools.some((glob) => glob.test(call.toolName))) return false;
+  if (compiled.sessions && !compiled.sessions.some((glob) => glob.test(call.sessionId ?? ''))) return false;
+  if (compiled.time && !withinWindow(compiled.time, now)) return false;
+
+  for (const arg of compiled.args) {
+    const value = lookup(call.args, arg.path);
+    if (arg.condition.exists !== undefined && (value !== undefined) !== arg.condition.exists) return false;
+    if (!conditionOnlyChecksPresence(arg.condition)) {
+      if (value === undefined) return false;
+      const values = Array.isArray(value) ? value : [value];
+      const match = (v: unknown) => valueMatches(v, arg, cwd);
+      const all = compiled.rule.outcome === 'allow';
+      if (values.length === 0 || !(all ? values.every(match) : values.some(match))) return false;
+    }
+  }
+  return true;
+}
+
+function conditionOnlyChecksPresence(condition: ArgCondition): boolean {
+  return Object.keys(condition).every((key) => key === 'exists');
+}
+
+function valueMatches(value: unknown, arg: CompiledRule['args'][number], cwd: string): boolean {
+  const { condition } = arg;
+  if (condition.equals !== undefined && value !== condition.equals) return false;
+  if (condition.oneOf && !condition.oneOf.includes(value as string | number | boolean)) return false;
+  if (arg.regex && (typeof value !== 'string' || !arg.regex.test(value))) return false;
+  if (arg.prefixes) {
+    if (typeof value !== 'string') return false;
+    const path = normalizePath(value, cwd);
+    if (!arg.prefixes.some((prefix) => path === prefix || path.startsWith(prefix.endsWith(sep) ? prefix : prefix + sep))) {
+      return false;
+    }
+  }
+  if (condition.min !== undefined || condition.max !== undefined) {
+    const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+    if (Number.isNaN(n)) return false;
+    if (condition.min !== undefined && n < condition.min) return false;
+    if (condition.max !== undefined && n > condition.max) return false;
+  }
+  return true;
+}
+
+function lookup(args: Record<string, unknown>, path: string[]): unknown {
+  let value: unknown = args;
+  for (const key of path) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/** Absolute, with `~` expanded and `..` resolved, so traversal cannot escape a prefix */
+function normalizePath(path: string, cwd: string): string {
+  const expanded = path === '~' || path.startsWith('~/') ? homedir() + path.slice(1) : path;
+  return resolve(cwd, expanded);
+}
+
+function withinWindow(time: NonNullable<CompiledRule['time']>, now: Date): boolean {
+  const parts = Object.fromEntries(time.clock.formatToParts(now).map((p) => [p.type, p.value]));
+  const minute = Number(parts.hour) * 60 + Number(parts.minute);
+  if (time.days) {
+    const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(parts.weekday);
+    if (!time.days.includes(day)) return false;
+  }
+  return time.from <= time.to
+    ? minute >= time.from && minute < time.to
+    : minute >= time.from || minute < time.to;
+}
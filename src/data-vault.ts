@@ -10,7 +10,17 @@
  */
 
 import { randomUUID } from 'crypto';
-import { TokenizationPattern, VaultConfig, VaultToken } from './types';
+import { FileLock } from './file-lock';
+import { GatewayOutbox } from './gateway-outbox';
+import { OutboxStats, TokenizationPattern, VaultConfig, VaultToken } from './types';
+
+/** Token metadata sent to the AIR vault */
+interface ForwardedToken {
+  tokenId: string;
+  category: string;
+  createdAt: string;
+  expiresAt: string;
+}
 
 /** Built-in patterns for common sensitive data */
 const BUILTIN_PATTERNS: TokenizationPattern[] = [
@@ -90,13 +100,23 @@ export class DataVault {
   private config: VaultConfig;
   private tokens: Map<string, VaultToken> = new Map();
   private patterns: TokenizationPattern[];
-  private gatewayUrl?: string;
-  private gatewayKey?: string;
+  private outbox?: GatewayOutbox<ForwardedToken>;
 
   constructor(config: VaultConfig, gatewayUrl?: string, gatewayKey?: string) {
     this.config = config;
-    this.gatewayUrl = gatewayUrl;
-    this.gatewayKey = gatewayKey;
+
+    if (config.forwardToGateway && gatewayUrl) {
+      this.outbox = new GatewayOutbox<ForwardedToken>({
+        ...config.outbox,
+        url: `${gatewayUrl}/v1/vault/store`,
+        apiKey: gatewayKey,
+        batchKey: 'tokens',
+        idOf: (token) => token.tokenId,
+        path: config.outboxPath,
+        // Every process on the host shares the default outbox file
+        ...(config.outboxPath ? { lock: new FileLock(config.outboxPath + '.lock') } : {}),
+      });
+    }
 
     // Combine built-in patterns with custom ones
     this.patterns = [
@@ -133,10 +153,13 @@ export class DataVault {
         };
         this.tokens.set(tokenId, vaultToken);
 
-        // Non-blocking forward to gateway
-        if (this.config.forwardToGateway && this.gatewayUrl) {
-          this.forwardToken(vaultToken).catch(() => {});
-        }
+        // Forward only the token ID and category — never the original value
+        this.outbox?.enqueue({
+          tokenId,
+          category: pattern.category,
+          createdAt: vaultToken.createdAt,
+          expiresAt: vaultToken.expiresAt,
+        });
 
         count++;
         return fullToken;
@@ -162,12 +185,20 @@ export class DataVault {
   }
 
   /** Vault stats */
-  stats(): { totalTokens: number; byCategory: Record<string, number> } {
+  stats(): {
+    totalTokens: number;
+    byCategory: Record<string, number>;
+    forwarding?: OutboxStats;
+  } {
     const byCategory: Record<string, number> = {};
     for (const token of this.tokens.values()) {
       byCategory[token.category] = (byCategory[token.category] ?? 0) + 1;
     }
-    return { totalTokens: this.tokens.size, byCategory };
+    return {
+      totalTokens: this.tokens.size,
+      byCategory,
+      ...(this.outbox ? { forwarding: this.outbox.stats() } : {}),
+    };
   }
 
   /** Clean up expired tokens */
@@ -182,25 +213,4 @@ export class DataVault {
     }
     return removed;
   }
-
-  // ─── Private ────────────────────────────────────────────────
-
-  private async forwardToken(token: VaultToken): Promise<void> {
-    if (!this.gatewayUrl) return;
-    const url = `${this.gatewayUrl}/v1/vault/store`;
-    // Forward only the token ID and category — never the original value
-    await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(this.gatewayKey ? { Authorization: `Bearer ${this.gatewayKey}` } : {}),
-      },
-      body: JSON.stringify({
-        tokenId: token.tokenId,
-        category: token.category,
-        createdAt: token.createdAt,
-        expiresAt: token.expiresAt,
-      }),
-    });
-  }
 }
@@ -0,0 +1,167 @@
+/**
+ * openclaw-air-trust — File Lock
+ *
+ * Advisory cross-process lock on a lock file, so several agent
+ * processes can share one ledger. The lock is taken by creating the
+ * file exclusively; it records the holder's PID and host. A lock left
+ * behind by a process that died (same host, PID gone) or older than
+ * `staleMs` is broken, so a crash never wedges the ledger. Breaking
+ * moves the file aside before checking it, so a waiter acting on an
+ * outdated view cannot delete a lock someone else has since taken.
+ *
+ * Acquisition is synchronous — ledger appends are — and re-entrant
+ * within a process. Waiters back off for a few milliseconds between
+ * attempts and give up after `timeoutMs`.
+ */
+
+import { randomBytes } from 'crypto';
+import { existsSync, linkSync, mkdirSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { hostname } from 'os';
+import { dirname } from 'path';
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_STALE_MS = 60_000;
+const MAX_BACKOFF_MS = 50;
+
+export interface FileLockOptions {
+  /** Give up waiting after this long (default 10s) */
+  timeoutMs?: number;
+  /** Break a lock held longer than this (default 60s) */
+  staleMs?: number;
+}
+
+interface LockHolder {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+}
+
+export class FileLock {
+  private path: string;
+  private timeoutMs: number;
+  private staleMs: number;
+  private depth = 0;
+
+  constructor(path: string, options: FileLockOptions = {}) {
+    this.path = path;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  }
+
+  /** Run `fn` while holding the lock */
+  withLock<T>(fn: () => T): T {
+    this.acquire();
+    try {
+      return fn();
+    } finally {
+      this.release();
+    }
+  }
+
+  /** Block until the lock is ours. Throws after `timeoutMs`. */
+  acquire(): void {
+    if (this.depth > 0) {
+      this.depth++;
+      return;
+    }
+    if (!existsSync(dirname(this.path))) mkdirSync(dirname(this.path), { recursive: true });
+
+    const holder: LockHolder = { pid: process.pid, hostname: hostname(), acquiredAt: '' };
+    const deadline = Date.now() + this.timeoutMs;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        holder.acquiredAt = new Date().toISOString();
+        writeFileSync(this.path, JSON.stringify(holder), { flag: 'wx' });
+        this.depth = 1;
+        return;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      }
+
+      const current = this.readHolder();
+      if (current === undefined) continue;
+      if (this.isStale(current)) {
+        this.breakLock(current);
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Timed out after ${this.timeoutMs}ms waiting for lock ${this.path} (held by pid ${current?.pid ?? 'unknown'})`
+        );
+      }
+      sleep(Math.min(MAX_BACKOFF_MS, 1 + attempt) * (0.5 + Math.random()));
+    }
+  }
+
+  release(): void {
+    if (this.depth === 0) return;
+    if (--this.depth > 0) return;
+    try {
+      unlinkSync(this.path);
+    } catch (err) {
+      // Broken as stale by another process — nothing left to remove
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    }
+  }
+
+  // ─── Private ────────────────────────────────────────────────
+
+  /** The recorded holder; undefined if the file vanished, null if unreadable */
+  private readHolder(path = this.path): LockHolder | null | undefined {
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8')) as LockHolder;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      // Torn write by a holder that crashed while taking the lock
+      return null;
+    }
+  }
+
+  private isStale(holder: LockHolder | null): boolean {
+    let ageMs: number;
+    try {
+      ageMs = Date.now() - statSync(this.path).mtimeMs;
+    } catch {
+      return true;
+    }
+    if (holder === null) return ageMs > MAX_BACKOFF_MS * 20;
+    if (holder.hostname === hostname() && !processAlive(holder.pid)) return true;
+    return ageMs > this.staleMs;
+  }
+
+  private breakLock(stale: LockHolder | null): void {
+    // Only one waiter can move the file to its own name, and nobody else
+    // touches it there, so the check below cannot go out of date
+    const aside = `${this.path}.${process.pid}.${randomBytes(4).toString('hex')}.stale`;
+    try {
+      renameSync(this.path, aside);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw err;
+    }
+    try {
+      // Another waiter broke it and took it over meanwhile: put it back
+      if (JSON.stringify(this.readHolder(aside)) !== JSON.stringify(stale)) linkSync(aside, this.path);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    } finally {
+      unlinkSync(aside);
+    }
+  }
+}
+
+/** Whether a process with this PID is running on this host */
+export function processAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: alive, owned by another user
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/** Synchronous sleep; appends are synchronous, so waiting for the lock is too */
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
@@ -0,0 +1,365 @@
+/**
+ * openclaw-air-trust — Gateway Outbox
+ *
+ * Durable, at-least-once delivery of records to the AIR gateway.
+ * Items are appended to a local JSONL queue before any network I/O,
+ * sent in FIFO batches, and removed only once the gateway acknowledges
+ * them with a 2xx. Failed sends are retried with exponential backoff
+ * and jitter (honouring Retry-After), so a gateway outage delays
+ * forwarding instead of dropping records. Items are deduplicated by ID
+ * so a record is never queued twice.
+ *
+ * Queue file format: one `{"queuedAt":…,"item":…,"pid":…}` line per
+ * item, plus a `{"ackedSequence":N}` line recording the acknowledgement
+ * watermark. Item lines are encrypted envelopes when the ledger is
+ * encrypted.
+ *
+ * Several processes sharing a ledger share its queue file. With `lock`,
+ * every update of the file happens under that lock and keeps the other
+ * processes' lines. Each item records the PID that queued it; a process
+ * sends only its own items, and adopts those of processes that died.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { FileLock, processAlive } from './file-lock';
+import { encodeRecord, LedgerCipher, openRecord } from './ledger-cipher';
+import { GatewayOutboxConfig, OutboxStats } from './types';
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_FLUSH_INTERVAL_MS = 1000;
+const DEFAULT_INITIAL_BACKOFF_MS = 1000;
+const DEFAULT_MAX_BACKOFF_MS = 5 * 60 * 1000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 10_000;
+
+export interface GatewayOutboxOptions<T> extends GatewayOutboxConfig {
+  /** Endpoint that receives each batch as a JSON POST */
+  url: string;
+  /** Sent as a Bearer token */
+  apiKey?: string;
+  /** Request body property holding the batch, e.g. `{ "entries": [...] }` */
+  batchKey: string;
+  /** Identity used for deduplication */
+  idOf: (item: T) => string;
+  /** Position in the ledger chain, for the acknowledgement watermark */
+  sequenceOf?: (item: T) => number;
+  /** JSONL queue file (in memory only when unset) */
+  path?: string;
+  /** Watermark to start from when the queue file does not exist yet */
+  startAfterSequence?: number;
+  /** Encrypt queued items at rest */
+  cipher?: LedgerCipher;
+  /** Held while reading and rewriting a queue file other processes share */
+  lock?: FileLock;
+  /** Called after each failed send, with the error and the updated stats */
+  onFailure?: (error: string, stats: OutboxStats) => void;
+}
+
+interface QueuedItem<T> {
+  queuedAt: number;
+  item: T;
+  /** Process that queued (or adopted) the item */
+  pid?: number;
+}
+
+/** Error from a failed send, carrying the server's Retry-After hint */
+class SendError extends Error {
+  retryAfterMs?: number;
+}
+
+export class GatewayOutbox<T> {
+  private options: GatewayOutboxOptions<T>;
+  private queue: QueuedItem<T>[] = [];
+  private ids: Set<string> = new Set();
+  /** IDs queued by other live processes when this one started */
+  private foreign: Set<string> = new Set();
+  /** Dead processes whose items this one took over */
+  private adoptedFrom: Set<number> = new Set();
+  private ackedSequence: number;
+  private sent = 0;
+  private consecutiveFailures = 0;
+  private lastError?: string;
+  private lastSuccessAt?: string;
+  private nextRetryAt?: number;
+  private timer?: ReturnType<typeof setTimeout>;
+  private inFlight?: Promise<void>;
+  private closed = false;
+
+  constructor(options: GatewayOutboxOptions<T>) {
+    this.options = options;
+    this.ackedSequence = options.startAfterSequence ?? 0;
+
+    const path = options.path;
+    if (path) {
+      mkdirSync(dirname(path), { recursive: true });
+      this.locked(() => {
+        if (existsSync(path)) this.load(path);
+        // Claims adopted items for this process
+        this.rewrite();
+      });
+    }
+
+    if (this.queue.length > 0) {
+      this.schedule(this.options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS);
+    }
+  }
+
+  /** Highest ledger sequence the gateway has acknowledged */
+  get watermark(): number {
+    return this.ackedSequence;
+  }
+
+  /**
+   * Queue an item for delivery. The item is on disk when this returns;
+   * sending happens in the background. Items already queued or already
+   * acknowledged are ignored.
+   */
+  enqueue(item: T): void {
+    const id = this.options.idOf(item);
+    if (this.ids.has(id) || this.foreign.has(id)) return;
+    const sequence = this.options.sequenceOf?.(item);
+    if (sequence !== undefined && sequence <= this.ackedSequence) return;
+
+    const queued: QueuedItem<T> = { queuedAt: Date.now(), item, pid: process.pid };
+    const path = this.options.path;
+    if (path) {
+      this.locked(() => appendFileSync(path, encodeRecord(queued, this.options.cipher) + '\n'));
+    }
+    this.queue.push(queued);
+    this.ids.add(id);
+
+    // While backing off, the retry timer is already set
+    if (this.nextRetryAt !== undefined || this.closed) return;
+    if (this.queue.length >= this.batchSize()) {
+      void this.flush();
+    } else {
+      this.schedule(this.options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Send queued items until the queue is empty or a send fails.
+   * Never rejects — failures are recorded in stats() and retried later.
+   */
+  flush(): Promise<void> {
+    if (!this.inFlight) {
+      this.inFlight = this.drain().finally(() => {
+        this.inFlight = undefined;
+      });
+    }
+    return this.inFlight;
+  }
+
+  stats(): OutboxStats {
+    const oldest = this.queue[0]?.queuedAt;
+    return {
+      pending: this.queue.length,
+      sent: this.sent,
+      ackedSequence: this.ackedSequence,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.lastError ? { lastError: this.lastError } : {}),
+      ...(this.lastSuccessAt ? { lastSuccessAt: this.lastSuccessAt } : {}),
+      ...(this.nextRetryAt !== undefined
+        ? { nextRetryAt: new Date(this.nextRetryAt).toISOString() }
+        : {}),
+      ...(oldest !== undefined ? { oldestPendingAgeMs: Date.now() - oldest } : {}),
+      healthy: this.consecutiveFailures === 0,
+    };
+  }
+
+  /** Stop background sends. Queued items stay on disk for the next start. */
+  close(): void {
+    this.closed = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  // ─── Private ────────────────────────────────────────────────
+
+  private async drain(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+
+    while (this.queue.length > 0) {
+      const batch = this.queue.slice(0, this.batchSize());
+      try {
+        await this.send(batch.map((q) => q.item));
+      } catch (err) {
+        this.fail(err as SendError);
+        return;
+      }
+      this.ack(batch.length);
+    }
+  }
+
+  private async send(items: T[]): Promise<void> {
+    let response: Response;
+    try {
+      response = await fetch(this.options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ [this.options.batchKey]: items }),
+        signal: AbortSignal.timeout(this.options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS),
+      });
+    } catch (err) {
+      throw new SendError((err as Error).message);
+    }
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined);
+
+    if (!response.ok) {
+      const error = new SendError(`Gateway responded ${response.status}`);
+      const retryAfter = Number(response.headers.get('retry-after'));
+      if (Number.isFinite(retryAfter) && retryAfter > 0) {
+        error.retryAfterMs = retryAfter * 1000;
+      }
+      throw error;
+    }
+  }
+
+  private ack(count: number): void {
+    const acked = this.queue.splice(0, count);
+    for (const { item } of acked) {
+      this.ids.delete(this.options.idOf(item));
+      const sequence = this.options.sequenceOf?.(item);
+      if (sequence !== undefined && sequence > this.ackedSequence) {
+        this.ackedSequence = sequence;
+      }
+    }
+    this.sent += acked.length;
+    this.consecutiveFailures = 0;
+    this.lastError = undefined;
+    this.lastSuccessAt = new Date().toISOString();
+    this.nextRetryAt = undefined;
+    try {
+      this.locked(() => this.rewrite());
+    } catch {
+      // Lock timeout: the file keeps the acknowledged items until the
+      // next rewrite, and they are only resent after a restart
+    }
+  }
+
+  private fail(err: SendError): void {
+    this.consecutiveFailures++;
+    this.lastError = err.message;
+
+    // Exponential backoff with equal jitter: half fixed, half random
+    const initial = this.options.initialBackoffMs ?? DEFAULT_INITIAL_BACKOFF_MS;
+    const max = this.options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+    const ceiling = Math.min(max, initial * 2 ** (this.consecutiveFailures - 1));
+    const delay = Math.max(ceiling / 2 + Math.random() * (ceiling / 2), err.retryAfterMs ?? 0);
+
+    this.nextRetryAt = Date.now() + delay;
+    this.schedule(delay);
+    this.options.onFailure?.(err.message, this.stats());
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.closed || this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.flush();
+    }, delayMs);
+    if (this.timer.unref) this.timer.unref();
+  }
+
+  private batchSize(): number {
+    return Math.max(1, this.options.batchSize ?? DEFAULT_BATCH_SIZE);
+  }
+
+  private load(path: string): void {
+    for (const line of readFileSync(path, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        continue; // torn trailing line from a crash mid-append
+      }
+      const record = openRecord<Partial<QueuedItem<T>> & { ackedSequence?: number }>(
+        parsed,
+        this.options.cipher
+      );
+      if (typeof record.ackedSequence === 'number') {
+        this.ackedSequence = Math.max(this.ackedSequence, record.ackedSequence);
+      } else if (record.item !== undefined) {
+        const id = this.options.idOf(record.item);
+        if (this.ids.has(id)) continue;
+        if (isForeign(record)) {
+          this.foreign.add(id);
+          continue;
+        }
+        this.queue.push({ queuedAt: record.queuedAt ?? Date.now(), item: record.item, pid: record.pid });
+        this.ids.add(id);
+      }
+    }
+    // Drop anything acknowledged before the file was last compacted. Only
+    // for lines without an owner: with several writers, one process's
+    // watermark can pass another's pending items.
+    this.queue = this.queue.filter(({ item, pid }) => {
+      const sequence = this.options.sequenceOf?.(item);
+      const stale = pid === undefined && sequence !== undefined && sequence <= this.ackedSequence;
+      if (stale) this.ids.delete(this.options.idOf(item));
+      return !stale;
+    });
+    for (const queued of this.queue) {
+      if (queued.pid !== undefined && queued.pid !== process.pid) this.adoptedFrom.add(queued.pid);
+      queued.pid = process.pid;
+    }
+  }
+
+  /**
+   * Run a read-modify-write of the queue file under the shared lock.
+   * Without a lock the file is this process's alone.
+   */
+  private locked<R>(fn: () => R): R {
+    return this.options.lock ? this.options.lock.withLock(fn) : fn();
+  }
+
+  /**
+   * Compact the queue file to the watermark, this process's unacknowledged
+   * items and the lines other processes queued. Call under locked().
+   */
+  private rewrite(): void {
+    const path = this.options.path;
+    if (!path) return;
+    const others: string[] = [];
+    if (existsSync(path)) {
+      for (const line of readFileSync(path, 'utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        let record: Partial<QueuedItem<T>> & { ackedSequence?: number };
+        try {
+          record = openRecord(JSON.parse(line), this.options.cipher);
+        } catch {
+          continue;
+        }
+        if (typeof record.ackedSequence === 'number') {
+          this.ackedSequence = Math.max(this.ackedSequence, record.ackedSequence);
+        } else if (
+          record.item !== undefined &&
+          record.pid !== undefined &&
+          record.pid !== process.pid &&
+          !this.adoptedFrom.has(record.pid)
+        ) {
+          others.push(line);
+        }
+      }
+    }
+    const lines = [
+      JSON.stringify({ ackedSequence: this.ackedSequence }),
+      ...others,
+      ...this.queue.map((q) => encodeRecord(q, this.options.cipher)),
+    ];
+    const tmp = `${path}.${process.pid}.tmp`;
+    writeFileSync(tmp, lines.join('\n') + '\n');
+    renameSync(tmp, path);
+  }
+}
+
+/** Queued by another process that is still running */
+function isForeign(record: { pid?: number }): boolean {
+  return record.pid !== undefined && record.pid !== process.pid && processAlive(record.pid);
+}
@@ -6,7 +6,7 @@
  * - after_tool_call   → AuditLedger (log result)
  * - llm_input         → DataVault (tokenize context) + InjectionDetector
  * - llm_output        → AuditLedger (log LLM response)
- * - message_received  → InjectionDetector (scan user/external messages)
+ * - message_received  → AuditLedger (log message) + InjectionDetector (scan user/external messages)
  *
  * Usage:
  *   import { createAirTrustPlugin } from 'openclaw-air-trust';
@@ -14,21 +14,42 @@
  *   // Register with OpenClaw's plugin system
  */
 
+import { randomUUID } from 'crypto';
 import { homedir } from 'os';
 import { join } from 'path';
 import {
   AirTrustConfig,
+  AlertStats,
+  AuditEntry,
+  AuditExportFormat,
+  AuditQuery,
+  AuditQueryResult,
+  CallTrace,
+  ConsentGrant,
+  ConsentResponse,
+  InclusionProof,
+  LedgerEventFilter,
+  LedgerEventListener,
+  LedgerEventOf,
+  LedgerEventType,
+  RiskExplanation,
+  SessionTimeline,
   ToolCallEvent,
   ToolCallResult,
   ToolResultEvent,
+  ToolRiskEntry,
   LlmEvent,
   MessageEvent,
   PluginContext,
 } from './types';
 import { AuditLedger } from './audit-ledger';
+import { createExporter } from './audit-exporters';
+import { renderSessionReport, TimelineReportFormat } from './session-timeline';
+import { captureToolResult } from './result-capture';
 import { ConsentGate } from './consent-gate';
 import { DataVault } from './data-vault';
 import { InjectionDetector } from './injection-detector';
+import { AlertManager } from './alerting';
 
 // ─── Default Configuration ───────────────────────────────────
 
@@ -53,6 +74,7 @@ const DEFAULT_CONFIG: AirTrustConfig = {
     customPatterns: [],
     forwardToGateway: false,
     ttlMs: 24 * 60 * 60 * 1000, // 24 hours
+    outboxPath: join(homedir(), '.openclaw', 'air-trust', 'vault-outbox.jsonl'),
   },
   injectionDetection: {
     enabled: true,
@@ -62,6 +84,9 @@ const DEFAULT_CONFIG: AirTrustConfig = {
   },
 };
 
+/** Calls remembered for result events that arrive without a callId */
+const MAX_OPEN_CALLS = 1000;
+
 // ─── Plugin Interface ────────────────────────────────────────
 
 export interface AirTrustPlugin {
@@ -83,8 +108,20 @@ export interface AirTrustPlugin {
   /** Hook: called when a message is received (from user or external) */
   onMessageReceived: (event: MessageEvent) => Promise<{ blocked: boolean; reason?: string }>;
 
-  /** Handle a user consent response */
-  handleConsentResponse: (consentId: string, approved: boolean) => boolean;
+  /** Handle a consent response, with the approver and an optional standing grant */
+  handleConsentResponse: (consentId: string, approved: boolean, response?: ConsentResponse) => boolean;
+
+  /** Active standing approvals, optionally for one session */
+  listConsentGrants: (sessionId?: string) => ConsentGrant[];
+
+  /** Revoke a standing approval */
+  revokeConsentGrant: (grantId: string) => boolean;
+
+  /** Declare a tool's risk metadata (`consentGate.tools` takes precedence) */
+  registerTool: (entry: ToolRiskEntry) => void;
+
+  /** Which registry entry classified a tool, plus command analysis when `args` are given */
+  explainRisk: (toolName: string, args?: Record<string, unknown>) => RiskExplanation;
 
   /** Get audit chain stats */
   getAuditStats: () => ReturnType<AuditLedger['stats']>;
@@ -95,6 +132,49 @@ export interface AirTrustPlugin {
   /** Export audit entries */
   exportAudit: () => ReturnType<AuditLedger['export']>;
 
+  /** Export all audit entries as JSONL, CSV, syslog/CEF or OTLP/JSON */
+  exportAuditAs: (format: AuditExportFormat) => string;
+
+  /** Query audit entries with filters and pagination */
+  queryAudit: (query?: AuditQuery) => AuditQueryResult;
+
+  /** Consent, call and result entries of one tool invocation */
+  getCallTrace: (callId: string) => CallTrace | undefined;
+
+  /** Everything recorded for one session, in order */
+  getSessionTimeline: (sessionId: string) => SessionTimeline;
+
+  /** Session timeline rendered as a Markdown or HTML incident report */
+  renderSessionReport: (sessionId: string, format?: TimelineReportFormat) => string;
+
+  /** Alerts sent, suppressed, rate-limited and failed (undefined when alerting is off) */
+  getAlertStats: () => AlertStats | undefined;
+
+  /** Receive ledger events; returns an unsubscribe function */
+  subscribe: (listener: LedgerEventListener, filter?: LedgerEventFilter) => () => void;
+
+  /** Receive one type of ledger event; returns an unsubscribe function */
+  on: <K extends LedgerEventType>(
+    type: K,
+    listener: LedgerEventListener<LedgerEventOf<K>>,
+    filter?: Omit<LedgerEventFilter, 'types'>
+  ) => () => void;
+
+  /** Rotate the audit ledger signing key */
+  rotateAuditKey: () => ReturnType<AuditLedger['rotateKey']>;
+
+  /** Archive and purge audit entries per the retention policy (also runs hourly) */
+  applyAuditRetention: () => ReturnType<AuditLedger['applyRetention']>;
+
+  /** Publish a signed Merkle tree head covering every entry so far */
+  publishAuditTreeHead: () => AuditEntry;
+
+  /** Merkle inclusion proof for one audit entry, by ID */
+  getInclusionProof: (entryId: string) => InclusionProof | undefined;
+
+  /** Anchor the chain head with the configured RFC 3161 TSA now (also runs periodically) */
+  anchorAuditTimestamp: () => Promise<AuditEntry | undefined>;
+
   /** Get vault stats */
   getVaultStats: () => ReturnType<DataVault['stats']>;
 }
@@ -125,12 +205,41 @@ export function createAirTrustPlugin(
   const consentGate = new ConsentGate(config.consentGate, ledger);
   const vault = new DataVault(config.vault, config.gatewayUrl, config.gatewayKey);
   const injectionDetector = new InjectionDetector(config.injectionDetection);
-
-  // Start periodic vault cleanup
-  const cleanupInterval = setInterval(() => vault.cleanup(), 60 * 60 * 1000); // hourly
+  const alerts = config.alerting?.enabled ? new AlertManager(config.alerting, ledger) : undefined;
+
+  // Start periodic vault cleanup and audit retention
+  const cleanupInterval = setInterval(() => {
+    vault.cleanup();
+    if (config.auditLedger.retention) {
+      try {
+        ledger.applyRetention();
+      } catch {
+        // Retried on the next run; an interrupted move is completed then
+      }
+    }
+  }, 60 * 60 * 1000); // hourly
   // Prevent interval from keeping the process alive
   if (cleanupInterval.unref) cleanupInterval.unref();
 
+  // Calls allowed through, oldest first: callId → session and tool. Lets
+  // a result event without a callId be matched to its call.
+  const openCalls = new Map<string, string>();
+  const callKey = (sessionId: string, toolName: string) => `${sessionId}\u0000${toolName}`;
+  const takeOpenCall = (event: ToolResultEvent): string | undefined => {
+    if (event.callId) {
+      openCalls.delete(event.callId);
+      return event.callId;
+    }
+    const key = callKey(event.sessionId, event.toolName);
+    for (const [callId, open] of openCalls) {
+      if (open === key) {
+        openCalls.delete(callId);
+        return callId;
+      }
+    }
+    return undefined;
+  };
+
   return {
     name: 'air-trust',
     version: '0.1.0',
@@ -141,6 +250,7 @@ export function createAirTrustPlugin(
       ctx: PluginContext
     ): Promise<ToolCallResult> {
       if (!config.enabled) return { blocked: false };
+      const callId = event.callId ?? randomUUID();
 
       // 1. Tokenize sensitive data in tool args
       let modifiedArgs = event.args;
@@ -155,15 +265,19 @@ export function createAirTrustPlugin(
         }
       }
 
-      // 2. Check consent gate
+      // 2. Check consent gate (policy rules see the original arguments)
+      const decision = consentGate.evaluate(event);
+      let grantId: string | undefined;
       if (config.consentGate.enabled) {
         const consentResult = await consentGate.intercept(
-          { ...event, args: modifiedArgs },
-          ctx
+          { ...event, args: modifiedArgs, callId },
+          ctx,
+          decision
         );
         if (consentResult.blocked) {
-          return consentResult;
+          return { ...consentResult, callId };
         }
+        grantId = consentResult.grantId;
       }
 
       // 3. Log the tool call
@@ -171,18 +285,36 @@ export function createAirTrustPlugin(
         ledger.append({
           action: 'tool_call',
           toolName: event.toolName,
-          riskLevel: consentGate.classifyRisk(event.toolName),
-          consentRequired: consentGate.requiresConsent(event.toolName),
+          riskLevel: decision.riskLevel,
+          consentRequired: decision.outcome === 'require_consent',
           consentGranted: true,
           dataTokenized,
           injectionDetected: false,
-          metadata: { sessionId: event.sessionId },
+          sessionId: event.sessionId,
+          callId,
+          ...(decision.rule || decision.findings || grantId
+            ? {
+                metadata: {
+                  ...(decision.rule ? { policyRule: decision.rule } : {}),
+                  ...(decision.findings ? { findings: decision.findings } : {}),
+                  ...(grantId ? { grantId } : {}),
+                },
+              }
+            : {}),
         });
       }
 
+      openCalls.set(callId, callKey(event.sessionId, event.toolName));
+      if (openCalls.size > MAX_OPEN_CALLS) {
+        openCalls.delete(openCalls.keys().next().value!);
+      }
+
       return {
         blocked: false,
         modifiedArgs: dataTokenized ? modifiedArgs : undefined,
+        callId,
+        ...(decision.rule ? { policyRule: decision.rule } : {}),
+        ...(grantId ? { grantId } : {}),
       };
     },
 
@@ -190,17 +322,17 @@ export function createAirTrustPlugin(
     async afterToolCall(event: ToolResultEvent): Promise<void> {
       if (!config.enabled || !config.auditLedger.enabled) return;
 
+      const captured = captureToolResult(event, config.auditLedger.resultCapture, vault);
       ledger.append({
         action: 'tool_result',
         toolName: event.toolName,
-        riskLevel: consentGate.classifyRisk(event.toolName),
+        sessionId: event.sessionId,
+        callId: takeOpenCall(event) ?? randomUUID(),
+        riskLevel: consentGate.classifyRisk(event.toolName, event.args),
         consentRequired: false,
-        dataTokenized: false,
+        dataTokenized: captured.tokenized,
         injectionDetected: false,
-        metadata: {
-          durationMs: event.durationMs,
-          sessionId: event.sessionId,
-        },
+        metadata: captured.metadata,
       });
     },
 
@@ -232,6 +364,7 @@ export function createAirTrustPlugin(
           if (config.injectionDetection.logDetections && config.auditLedger.enabled) {
             ledger.append({
               action: 'injection_detected',
+              sessionId: event.sessionId,
               riskLevel: result.score >= 0.8 ? 'critical' : result.score >= 0.5 ? 'high' : 'medium',
               consentRequired: false,
               dataTokenized,
@@ -260,6 +393,7 @@ export function createAirTrustPlugin(
 
       ledger.append({
         action: 'llm_output',
+        sessionId: event.sessionId,
         riskLevel: 'none',
         consentRequired: false,
         dataTokenized: false,
@@ -267,7 +401,6 @@ export function createAirTrustPlugin(
         metadata: {
           model: event.model,
           contentLength: event.content.length,
-          sessionId: event.sessionId,
         },
       });
     },
@@ -278,6 +411,21 @@ export function createAirTrustPlugin(
     ): Promise<{ blocked: boolean; reason?: string }> {
       if (!config.enabled) return { blocked: false };
 
+      if (config.auditLedger.enabled) {
+        ledger.append({
+          action: 'message_received',
+          sessionId: event.sessionId,
+          riskLevel: 'none',
+          consentRequired: false,
+          dataTokenized: false,
+          injectionDetected: false,
+          metadata: {
+            role: event.role,
+            contentLength: event.content.length,
+          },
+        });
+      }
+
       // Check for injection in incoming messages
       if (config.injectionDetection.enabled) {
         const result = injectionDetector.scan(event.content);
@@ -286,6 +434,7 @@ export function createAirTrustPlugin(
           if (config.injectionDetection.logDetections && config.auditLedger.enabled) {
             ledger.append({
               action: 'injection_detected',
+              sessionId: event.sessionId,
               riskLevel: result.score >= 0.8 ? 'critical' : result.score >= 0.5 ? 'high' : 'medium',
               consentRequired: false,
               dataTokenized: false,
@@ -308,16 +457,9 @@ export function createAirTrustPlugin(
         }
       }
 
-      // Handle consent responses
+      // Handle consent responses and grant revocations
       if (event.role === 'user') {
-        const approveMatch = event.content.match(/^approve\s+([a-f0-9-]+)/i);
-        const rejectMatch = event.content.match(/^reject\s+([a-f0-9-]+)/i);
-
-        if (approveMatch) {
-          consentGate.handleResponse(approveMatch[1], true);
-        } else if (rejectMatch) {
-          consentGate.handleResponse(rejectMatch[1], false);
-        }
+        consentGate.handleReply(event.content, event.sessionId, event.userId);
       }
 
       return { blocked: false };
@@ -325,8 +467,24 @@ export function createAirTrustPlugin(
 
     // ─── Public API ────────────────────────────────────────
 
-    handleConsentResponse(consentId: string, approved: boolean): boolean {
-      return consentGate.handleResponse(consentId, approved);
+    handleConsentResponse(consentId: string, approved: boolean, response?: ConsentResponse): boolean {
+      return consentGate.handleResponse(consentId, approved, response);
+    },
+
+    listConsentGrants(sessionId?: string) {
+      return consentGate.listGrants(sessionId);
+    },
+
+    revokeConsentGrant(grantId: string) {
+      return consentGate.revokeGrant(grantId);
+    },
+
+    registerTool(entry: ToolRiskEntry) {
+      consentGate.registerTool(entry);
+    },
+
+    explainRisk(toolName: string, args?: Record<string, unknown>) {
+      return consentGate.explainRisk(toolName, args);
     },
 
     getAuditStats() {
@@ -341,6 +499,58 @@ export function createAirTrustPlugin(
       return ledger.export();
     },
 
+    exportAuditAs(format: AuditExportFormat) {
+      return createExporter(format).serialize(ledger.export());
+    },
+
+    queryAudit(query?: AuditQuery) {
+      return ledger.query(query);
+    },
+
+    getCallTrace(callId: string) {
+      return ledger.getCallTrace(callId);
+    },
+
+    getSessionTimeline(sessionId: string) {
+      return ledger.getSessionTimeline(sessionId);
+    },
+
+    renderSessionReport(sessionId: string, format: TimelineReportFormat = 'markdown') {
+      return renderSessionReport(ledger.getSessionTimeline(sessionId), format);
+    },
+
+    getAlertStats() {
+      return alerts?.stats();
+    },
+
+    subscribe(listener: LedgerEventListener, filter?: LedgerEventFilter) {
+      return ledger.subscribe(listener, filter);
+    },
+
+    on(type, listener, filter) {
+      return ledger.on(type, listener, filter);
+    },
+
+    rotateAuditKey() {
+      return ledger.rotateKey();
+    },
+
+    applyAuditRetention() {
+      return ledger.applyRetention();
+    },
+
+    publishAuditTreeHead() {
+      return ledger.publishTreeHead();
+    },
+
+    getInclusionProof(entryId: string) {
+      return ledger.getInclusionProof(entryId);
+    },
+
+    anchorAuditTimestamp() {
+      return ledger.anchorTimestamp();
+    },
+
     getVaultStats() {
       return vault.stats();
     },
@@ -349,8 +559,53 @@ export function createAirTrustPlugin(
 
 // ─── Exports ─────────────────────────────────────────────────
 
-export { AuditLedger } from './audit-ledger';
+export {
+  AuditLedger,
+  verifyAuditChain,
+  verifyArchive,
+  verifyInclusionProof,
+  computeEntryHash,
+} from './audit-ledger';
+export type { ChainVerifyOptions, ArchiveVerifyOptions } from './audit-ledger';
+export { readArchive } from './archive-store';
+export { verifyTimestampToken, loadCertificates } from './timestamp-authority';
+export type { TimestampInfo, TimestampVerification } from './timestamp-authority';
+export { createExporter, AuditExportStream, EXPORT_FORMATS } from './audit-exporters';
+export type { AuditExporter, ExporterOptions } from './audit-exporters';
+export { buildSessionTimeline, renderSessionReport, TIMELINE_REPORT_FORMATS } from './session-timeline';
+export type { TimelineReportFormat } from './session-timeline';
+export { captureToolResult, resultCaptureMode, resultDigest } from './result-capture';
+export { LedgerEventBus, matchesEventFilter } from './ledger-events';
+export {
+  AlertManager,
+  DEFAULT_ALERT_RULES,
+  WebhookAlertSink,
+  FileAlertSink,
+  StdoutAlertSink,
+  createAlertSink,
+  signAlertPayload,
+  verifyAlertSignature,
+} from './alerting';
+export type { CapturedResult } from './result-capture';
+export { createEd25519Verifier } from './ledger-signer';
+export type { LedgerSigner, SignatureVerifier } from './ledger-signer';
+export type { KeyInfo, KeyStore } from './key-ring';
+export { MemoryStorage, JsonFileStorage } from './ledger-storage';
+export type { JsonFileStorageOptions } from './ledger-storage';
+export { SegmentStore } from './segment-store';
+export type { SegmentStoreOptions } from './segment-store';
+export { SqliteStorage, sqliteAvailable } from './sqlite-storage';
+export type { SqliteStorageOptions } from './sqlite-storage';
+export { canonicalize, toJsonValue } from './canonical-json';
+export type { JsonValue } from './canonical-json';
 export { ConsentGate } from './consent-gate';
+export { GrantStore, parseConsentReply, parseGrantSpec } from './consent-grants';
+export type { ConsentReply } from './consent-grants';
+export { ConsentPolicy, matchesGlob } from './consent-policy';
+export type { PolicyCall } from './consent-policy';
+export { analyzeShellCommand, shellCommandOf } from './shell-analyzer';
+export type { ShellAnalyzerOptions } from './shell-analyzer';
 export { DataVault } from './data-vault';
+export { BUILTIN_TOOL_RISKS, ToolRiskRegistry } from './tool-risk-registry';
 export { InjectionDetector } from './injection-detector';
 export * from './types';
@@ -0,0 +1,224 @@
+/**
+ * openclaw-air-trust — Key Ring
+ *
+ * Persisted set of ledger signing keys, keyed by key ID. Exactly one key
+ * is active for signing; rotated-out keys stay in the ring, marked with
+ * the sequence at which they were retired, so older entries remain
+ * verifiable and anything they sign afterwards can be flagged. The ring
+ * is stored by the ledger's storage backend (a `<ledger>.keyring.json`
+ * file for the file backends).
+ *
+ * Ledgers created before key rotation kept a single HMAC secret in
+ * `<ledger>.key` (and optionally an Ed25519 key in `<ledger>.ed25519.key`).
+ * Those are imported into the ring the first time it is created; the
+ * legacy files are left untouched.
+ */
+
+import { createPrivateKey, generateKeyPairSync, KeyObject, randomBytes } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import {
+  createEd25519Signer,
+  createHmacSigner,
+  LedgerSigner,
+  SignatureVerifier,
+} from './ledger-signer';
+import { LedgerStorage, SignatureAlgorithm } from './types';
+
+/** The part of a storage backend that holds the serialized ring */
+export type KeyStore = Pick<LedgerStorage, 'loadKeys' | 'saveKeys'>;
+
+interface StoredKey {
+  algorithm: SignatureAlgorithm;
+  /** Hex HMAC secret (hmac-sha256) */
+  secret?: string;
+  /** PKCS#8 PEM private key (ed25519) */
+  privateKey?: string;
+  createdAt: string;
+  retiredAt?: string;
+  /** Sequence of the rotation entry that retired this key */
+  retiredAtSequence?: number;
+}
+
+interface KeyRingFile {
+  version: 1;
+  activeKeyId: string;
+  keys: Record<string, StoredKey>;
+}
+
+/** Public description of a key in the ring — never includes secret material */
+export interface KeyInfo {
+  keyId: string;
+  algorithm: SignatureAlgorithm;
+  /** Base64 SPKI DER public key (ed25519 only) */
+  publicKey?: string;
+  createdAt: string;
+  retiredAt?: string;
+  retiredAtSequence?: number;
+  active: boolean;
+}
+
+export class KeyRing {
+  private store: KeyStore;
+  private activeKeyId: string;
+  private keys: Map<string, { stored: StoredKey; signer: LedgerSigner }> = new Map();
+
+  private constructor(store: KeyStore, data: KeyRingFile) {
+    this.store = store;
+    this.activeKeyId = data.activeKeyId;
+    for (const stored of Object.values(data.keys)) {
+      const signer = signerFor(stored);
+      this.keys.set(signer.keyId, { stored, signer });
+    }
+  }
+
+  /**
+   * Load the ring from `store`, creating it on first use from the legacy
+   * key files next to `legacyBasePath` (if given and present) or a
+   * freshly generated key of `algorithm`.
+   */
+  static load(
+    store: KeyStore,
+    legacyBasePath: string | undefined,
+    algorithm: SignatureAlgorithm
+  ): KeyRing {
+    const saved = store.loadKeys();
+    if (saved !== undefined) {
+      return new KeyRing(store, JSON.parse(saved));
+    }
+
+    const keys = legacyBasePath ? importLegacyKeys(legacyBasePath) : [];
+    if (!keys.some((k) => k.algorithm === algorithm)) {
+      keys.push(generateKey(algorithm));
+    }
+
+    const ring = new KeyRing(store, buildRingFile(keys, algorithm));
+    ring.save();
+    return ring;
+  }
+
+  /**
+   * Open an existing ring (or the legacy key files) without creating or
+   * writing anything. Returns undefined when no key material exists.
+   */
+  static open(store: KeyStore, legacyBasePath?: string): KeyRing | undefined {
+    const saved = store.loadKeys();
+    if (saved !== undefined) {
+      return new KeyRing(store, JSON.parse(saved));
+    }
+    const keys = legacyBasePath ? importLegacyKeys(legacyBasePath) : [];
+    if (keys.length === 0) return undefined;
+    return new KeyRing(store, buildRingFile(keys, keys[0].algorithm));
+  }
+
+  /** The key currently used for signing */
+  active(): LedgerSigner {
+    return this.keys.get(this.activeKeyId)!.signer;
+  }
+
+  /** Verifiers for every key in the ring, carrying their retirement point */
+  verifiers(): SignatureVerifier[] {
+    return [...this.keys.values()].map(({ stored, signer }) => ({
+      algorithm: signer.algorithm,
+      keyId: signer.keyId,
+      retiredAtSequence: stored.retiredAtSequence,
+      verify: signer.verify,
+    }));
+  }
+
+  list(): KeyInfo[] {
+    return [...this.keys.values()].map(({ stored, signer }) => ({
+      keyId: signer.keyId,
+      algorithm: signer.algorithm,
+      ...(signer.publicKey ? { publicKey: signer.publicKey } : {}),
+      createdAt: stored.createdAt,
+      ...(stored.retiredAt ? { retiredAt: stored.retiredAt } : {}),
+      ...(stored.retiredAtSequence !== undefined
+        ? { retiredAtSequence: stored.retiredAtSequence }
+        : {}),
+      active: signer.keyId === this.activeKeyId,
+    }));
+  }
+
+  /**
+   * Generate a new key, make it active and retire the current one at
+   * `atSequence`. The ring is saved before returning. Returns both
+   * signers so the caller can sign the rotation entry with the old key.
+   */
+  rotate(
+    algorithm: SignatureAlgorithm,
+    atSequence: number
+  ): { previous: LedgerSigner; next: LedgerSigner } {
+    const previous = this.keys.get(this.activeKeyId)!;
+    previous.stored.retiredAt = new Date().toISOString();
+    previous.stored.retiredAtSequence = atSequence;
+
+    const stored = generateKey(algorithm);
+    const next = signerFor(stored);
+    this.keys.set(next.keyId, { stored, signer: next });
+    this.activeKeyId = next.keyId;
+
+    this.save();
+    return { previous: previous.signer, next };
+  }
+
+  private save(): void {
+    const data: KeyRingFile = { version: 1, activeKeyId: this.activeKeyId, keys: {} };
+    for (const [keyId, { stored }] of this.keys) {
+      data.keys[keyId] = stored;
+    }
+    this.store.saveKeys(JSON.stringify(data, null, 2));
+  }
+}
+
+function importLegacyKeys(legacyBasePath: string): StoredKey[] {
+  const now = new Date().toISOString();
+  const imported: StoredKey[] = [];
+  const hmacPath = legacyBasePath + '.key';
+  if (existsSync(hmacPath)) {
+    imported.push({
+      algorithm: 'hmac-sha256',
+      secret: readFileSync(hmacPath, 'utf-8').trim(),
+      createdAt: now,
+    });
+  }
+  const ed25519Path = legacyBasePath + '.ed25519.key';
+  if (existsSync(ed25519Path)) {
+    imported.push({
+      algorithm: 'ed25519',
+      privateKey: readFileSync(ed25519Path, 'utf-8'),
+      createdAt: now,
+    });
+  }
+  return imported;
+}
+
+function buildRingFile(keys: StoredKey[], activeAlgorithm: SignatureAlgorithm): KeyRingFile {
+  const data: KeyRingFile = { version: 1, activeKeyId: '', keys: {} };
+  for (const stored of keys) {
+    const { keyId } = signerFor(stored);
+    data.keys[keyId] = stored;
+    if (stored.algorithm === activeAlgorithm) data.activeKeyId = keyId;
+  }
+  return data;
+}
+
+function generateKey(algorithm: SignatureAlgorithm): StoredKey {
+  const createdAt = new Date().toISOString();
+  if (algorithm === 'ed25519') {
+    const { privateKey } = generateKeyPairSync('ed25519');
+    return {
+      algorithm,
+      privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }) as string,
+      createdAt,
+    };
+  }
+  return { algorithm, secret: randomBytes(32).toString('hex'), createdAt };
+}
+
+function signerFor(stored: StoredKey): LedgerSigner {
+  if (stored.algorithm === 'ed25519') {
+    const key: KeyObject = createPrivateKey(stored.privateKey!);
+    return createEd25519Signer(key);
+  }
+  return createHmacSigner(Buffer.from(stored.secret!, 'hex'));
+}
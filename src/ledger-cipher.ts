@@ -0,0 +1,163 @@
+/**
+ * openclaw-air-trust — Ledger Cipher
+ *
+ * AES-256-GCM encryption at rest for ledger records. Each stored
+ * record (a JSONL line, or the whole JSON document) is replaced by an
+ * envelope:
+ *
+ *   {"enc":"aes-256-gcm","kid":"…","iv":"…","tag":"…","ct":"…"}
+ *
+ * with a fresh 96-bit IV per record. Only storage is encrypted: entry
+ * hashes and signatures are still computed over the plaintext, so a
+ * decrypted chain verifies exactly as an unencrypted one would.
+ *
+ * Plaintext records are still read when a cipher is configured, so an
+ * existing ledger can switch to encryption without migration.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { existsSync, linkSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { keyIdFor } from './ledger-signer';
+import { LedgerEncryptionConfig } from './types';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+export interface EncryptedRecord {
+  enc: typeof ALGORITHM;
+  /** ID of the key that encrypted the record */
+  kid: string;
+  iv: string;
+  tag: string;
+  ct: string;
+}
+
+export class LedgerCipher {
+  readonly keyId: string;
+  private key: Buffer;
+
+  constructor(key: Buffer) {
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`Ledger encryption key must be ${KEY_BYTES} bytes, got ${key.length}`);
+    }
+    this.key = key;
+    this.keyId = keyIdFor(key);
+  }
+
+  /**
+   * Resolve the key for a ledger: the `keyEnv` variable if set, else
+   * `keyFile` (default `<ledger>.enc.key`). A missing key file is
+   * generated with mode 0600 unless `create` is false.
+   */
+  static fromConfig(
+    config: LedgerEncryptionConfig,
+    defaultKeyFile: string,
+    create = true
+  ): LedgerCipher {
+    if (config.keyEnv) {
+      const value = process.env[config.keyEnv];
+      if (!value) {
+        throw new Error(`Ledger encryption key variable ${config.keyEnv} is not set`);
+      }
+      return new LedgerCipher(parseKey(value));
+    }
+
+    const keyFile = config.keyFile ?? defaultKeyFile;
+    if (!existsSync(keyFile)) {
+      if (!create) throw new Error(`Ledger encryption key file ${keyFile} not found`);
+      createKeyFile(keyFile);
+    }
+    return new LedgerCipher(parseKey(readFileSync(keyFile, 'utf-8')));
+  }
+
+  encrypt(plaintext: string): EncryptedRecord {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, this.key, iv);
+    const ct = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    return {
+      enc: ALGORITHM,
+      kid: this.keyId,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ct: ct.toString('base64'),
+    };
+  }
+
+  decrypt(record: EncryptedRecord): string {
+    if (record.kid !== this.keyId) {
+      throw new Error(`Ledger record was encrypted with key ${record.kid}, not ${this.keyId}`);
+    }
+    const decipher = createDecipheriv(ALGORITHM, this.key, Buffer.from(record.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(record.tag, 'base64'));
+    try {
+      return Buffer.concat([
+        decipher.update(Buffer.from(record.ct, 'base64')),
+        decipher.final(),
+      ]).toString('utf-8');
+    } catch {
+      throw new Error('Ledger record failed authentication — wrong key or tampered ciphertext');
+    }
+  }
+}
+
+/**
+ * Serialize a value for storage, encrypting it when a cipher is given.
+ * `indent` only applies to plaintext output.
+ */
+export function encodeRecord(value: unknown, cipher?: LedgerCipher, indent?: number): string {
+  const json = JSON.stringify(value, null, indent);
+  return cipher ? JSON.stringify(cipher.encrypt(json)) : json;
+}
+
+/**
+ * Parse a stored record, decrypting it if it is an encrypted envelope.
+ * Throws if the record is encrypted and no cipher is available.
+ */
+export function decodeRecord<T>(text: string, cipher?: LedgerCipher): T {
+  return openRecord<T>(JSON.parse(text), cipher);
+}
+
+/** decodeRecord() for a value that has already been JSON-parsed */
+export function openRecord<T>(parsed: unknown, cipher?: LedgerCipher): T {
+  if (!isEncryptedRecord(parsed)) return parsed as T;
+  if (!cipher) {
+    throw new Error('Ledger is encrypted at rest; configure auditLedger.encryption to read it');
+  }
+  return JSON.parse(cipher.decrypt(parsed)) as T;
+}
+
+export function isEncryptedRecord(value: unknown): value is EncryptedRecord {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { enc?: unknown }).enc === ALGORITHM &&
+    typeof (value as { ct?: unknown }).ct === 'string'
+  );
+}
+
+/** Accepts a 32-byte key as 64 hex characters or base64 */
+function parseKey(text: string): Buffer {
+  const value = text.trim();
+  return /^[0-9a-fA-F]{64}$/.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+}
+
+/**
+ * Write a new random key to `keyFile` unless one exists. The key is
+ * written to a private temp file and hard-linked into place, which fails
+ * if another process got there first; its key is then used, so every
+ * process sharing the ledger ends up with the same key, never a torn one.
+ */
+function createKeyFile(keyFile: string): void {
+  mkdirSync(dirname(keyFile), { recursive: true });
+  const tmp = `${keyFile}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  writeFileSync(tmp, randomBytes(KEY_BYTES).toString('hex'), { mode: 0o600, flag: 'wx' });
+  try {
+    linkSync(tmp, keyFile);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+  } finally {
+    unlinkSync(tmp);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * openclaw-air-trust — Ledger Events
+ *
+ * In-process publish/subscribe for ledger activity, so hosts can drive
+ * alerts, dashboards and custom sinks without polling exportAudit().
+ * Events are delivered synchronously, in order, once the entry they
+ * describe is persisted. A subscriber that throws is skipped; it never
+ * interrupts logging or the other subscribers.
+ */
+
+import { entrySessionId } from './audit-query';
+import {
+  LedgerEvent,
+  LedgerEventFilter,
+  LedgerEventListener,
+  RiskLevel,
+  RISK_ORDER,
+} from './types';
+
+interface Subscription {
+  listener: LedgerEventListener;
+  filter: LedgerEventFilter;
+}
+
+export class LedgerEventBus {
+  private subscriptions: Set<Subscription> = new Set();
+
+  /** Call `listener` for each matching event. Returns an unsubscribe function. */
+  subscribe(listener: LedgerEventListener, filter: LedgerEventFilter = {}): () => void {
+    const subscription: Subscription = { listener, filter };
+    this.subscriptions.add(subscription);
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  emit(event: LedgerEvent): void {
+    for (const { listener, filter } of [...this.subscriptions]) {
+      if (!matchesEventFilter(event, filter)) continue;
+      try {
+        listener(event);
+      } catch {
+        // A failing subscriber must not break logging
+      }
+    }
+  }
+
+  /** Whether anyone is listening (lets callers skip building events) */
+  get active(): boolean {
+    return this.subscriptions.size > 0;
+  }
+}
+
+/** Whether `event` passes `filter` */
+export function matchesEventFilter(event: LedgerEvent, filter: LedgerEventFilter): boolean {
+  if (filter.types && !filter.types.includes(event.type)) return false;
+
+  const subject = eventSubject(event);
+  if (!subject) return true;
+  if (filter.sessionId !== undefined && subject.sessionId !== filter.sessionId) return false;
+  if (filter.toolName !== undefined && subject.toolName !== filter.toolName) return false;
+  if (filter.minRiskLevel && RISK_ORDER[subject.riskLevel] < RISK_ORDER[filter.minRiskLevel]) return false;
+  return true;
+}
+
+// ─── Private ────────────────────────────────────────────────
+
+/** Session, tool and risk of the entry or request an event is about */
+function eventSubject(
+  event: LedgerEvent
+): { sessionId?: string; toolName?: string; riskLevel: RiskLevel } | undefined {
+  switch (event.type) {
+    case 'entry_appended':
+    case 'injection_detected':
+    case 'consent_resolved':
+      return {
+        sessionId: entrySessionId(event.entry),
+        toolName: event.entry.toolName,
+        riskLevel: event.entry.riskLevel,
+      };
+    case 'consent_requested':
+      return {
+        sessionId: event.sessionId,
+        toolName: event.request.toolName,
+        riskLevel: event.request.riskLevel,
+      };
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * openclaw-air-trust — Ledger Signer
+ *
+ * Signing and verification keys for audit entries and checkpoints.
+ *
+ * Two algorithms are supported:
+ * - hmac-sha256: a shared secret. Anyone able to verify the chain
+ *   can also forge entries, so the secret never leaves the host.
+ * - ed25519: the ledger signs with a private key and publishes the
+ *   public key, so external assessors can verify the chain offline
+ *   without being able to write to it.
+ *
+ * Key IDs are the first 16 hex chars of the SHA-256 of the key
+ * material (the secret for HMAC, the SPKI DER for Ed25519).
+ */
+
+import {
+  createHash,
+  createHmac,
+  createPublicKey,
+  KeyObject,
+  sign,
+  timingSafeEqual,
+  verify,
+} from 'crypto';
+import { SignatureAlgorithm } from './types';
+
+/** Checks signatures made by one key */
+export interface SignatureVerifier {
+  readonly algorithm: SignatureAlgorithm;
+  readonly keyId: string;
+  /** Sequence of the rotation entry that retired this key, if retired */
+  readonly retiredAtSequence?: number;
+  verify(payload: string, signature: string): boolean;
+}
+
+/** Produces signatures with one key; can always check its own signatures */
+export interface LedgerSigner extends SignatureVerifier {
+  /** Base64 SPKI DER public key (Ed25519 only) */
+  readonly publicKey?: string;
+  sign(payload: string): string;
+}
+
+export function keyIdFor(material: Buffer): string {
+  return createHash('sha256').update(material).digest('hex').slice(0, 16);
+}
+
+export function createHmacSigner(secret: Buffer): LedgerSigner {
+  const digest = (payload: string) =>
+    createHmac('sha256', secret).update(payload).digest('hex');
+
+  return {
+    algorithm: 'hmac-sha256',
+    keyId: keyIdFor(secret),
+    sign: digest,
+    verify(payload, signature) {
+      const expected = Buffer.from(digest(payload), 'hex');
+      const actual = Buffer.from(signature, 'hex');
+      return actual.length === expected.length && timingSafeEqual(actual, expected);
+    },
+  };
+}
+
+export function createEd25519Signer(privateKey: KeyObject): LedgerSigner {
+  const spki = createPublicKey(privateKey).export({ format: 'der', type: 'spki' });
+  const verifier = createEd25519Verifier(spki.toString('base64'));
+
+  return {
+    ...verifier,
+    publicKey: spki.toString('base64'),
+    sign(payload) {
+      return sign(null, Buffer.from(payload), privateKey).toString('hex');
+    },
+  };
+}
+
+/**
+ * Build a verifier from an Ed25519 public key, given as PEM, as a
+ * base64 SPKI DER string (the form published on entries) or a KeyObject.
+ */
+export function createEd25519Verifier(publicKey: string | KeyObject): SignatureVerifier {
+  const key = typeof publicKey !== 'string'
+    ? publicKey
+    : publicKey.includes('-----BEGIN')
+      ? createPublicKey(publicKey)
+      : createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Expected an ed25519 public key, got ${key.asymmetricKeyType}`);
+  }
+
+  return {
+    algorithm: 'ed25519',
+    keyId: keyIdFor(key.export({ format: 'der', type: 'spki' })),
+    verify(payload, signature) {
+      try {
+        return verify(null, Buffer.from(payload), key, Buffer.from(signature, 'hex'));
+      } catch {
+        return false;
+      }
+    },
+  };
+}
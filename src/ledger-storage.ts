@@ -0,0 +1,210 @@
+/**
+ * openclaw-air-trust — Ledger Storage
+ *
+ * Storage backends for the audit ledger (see LedgerStorage in types):
+ *
+ *   MemoryStorage    nothing touches disk — tests, read-only containers
+ *   JsonFileStorage  one JSON document rewritten on every append
+ *   SegmentStore     append-only JSONL segments (segment-store.ts)
+ *   SqliteStorage    embedded SQLite database (sqlite-storage.ts)
+ *
+ * MemoryStorage and JsonFileStorage keep only the ledger's in-memory
+ * window (`maxEntries`); entries trimmed from it are gone, anchored by
+ * a checkpoint. File backends keep the signing key ring in its own
+ * file, `<ledger>.keyring.json`, readable only by the owner.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { encodeRecord, LedgerCipher, openRecord } from './ledger-cipher';
+import { AuditEntry, ChainCheckpoint, LedgerHead, LedgerStorage } from './types';
+
+export class MemoryStorage implements LedgerStorage {
+  protected entries: AuditEntry[] = [];
+  protected checkpoints: ChainCheckpoint[] = [];
+  protected sequence = 0;
+  protected lastHash?: string;
+  private limit = 0;
+  private keys?: string;
+
+  load(limit: number): LedgerHead {
+    this.limit = limit;
+    this.trim();
+    return {
+      entries: [...this.entries],
+      sequence: this.sequence,
+      lastHash: this.lastHash,
+      checkpoints: [...this.checkpoints],
+    };
+  }
+
+  head(): Pick<LedgerHead, 'sequence' | 'lastHash'> {
+    return { sequence: this.sequence, lastHash: this.lastHash };
+  }
+
+  append(entry: AuditEntry): void {
+    this.entries.push(entry);
+    this.sequence = entry.sequence;
+    this.lastHash = entry.hash;
+    this.trim();
+    this.persist();
+  }
+
+  *scan(fromSequence: number, toSequence: number = Infinity): Generator<AuditEntry> {
+    for (const entry of this.entries) {
+      if (entry.sequence >= fromSequence && entry.sequence <= toSequence) yield entry;
+    }
+  }
+
+  saveCheckpoints(checkpoints: ChainCheckpoint[]): void {
+    this.checkpoints = [...checkpoints];
+    this.persist();
+  }
+
+  dropThrough(sequence: number): void {
+    this.entries = this.entries.filter((e) => e.sequence > sequence);
+    this.persist();
+  }
+
+  loadKeys(): string | undefined {
+    return this.keys;
+  }
+
+  saveKeys(data: string): void {
+    this.keys = data;
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+
+  /** Write the current state through to durable storage */
+  protected persist(): void {
+    // In memory only
+  }
+
+  private trim(): void {
+    if (this.limit > 0 && this.entries.length > this.limit) {
+      this.entries = this.entries.slice(-this.limit);
+    }
+  }
+}
+
+/** Layout of the single-document ledger file */
+interface StoredChain {
+  entries: AuditEntry[];
+  checkpoints: ChainCheckpoint[];
+  sequence: number;
+  lastHash?: string;
+  savedAt: string;
+}
+
+export interface JsonFileStorageOptions {
+  /** Key ring file (default `<ledger>.keyring.json`) */
+  keyFile?: string;
+  /** Never write (for inspecting a live ledger) */
+  readOnly?: boolean;
+  /** Encrypt the document at rest */
+  cipher?: LedgerCipher;
+}
+
+export class JsonFileStorage extends MemoryStorage {
+  private path: string;
+  private keyFile: string;
+  private readOnly: boolean;
+  private cipher?: LedgerCipher;
+  /** Identity of the file version last read or written */
+  private stamp?: string;
+
+  constructor(path: string, options: JsonFileStorageOptions = {}) {
+    super();
+    this.path = path;
+    this.keyFile = options.keyFile ?? path.replace(/\.json$/, '') + '.keyring.json';
+    this.readOnly = options.readOnly ?? false;
+    this.cipher = options.cipher;
+  }
+
+  load(limit: number): LedgerHead {
+    this.read();
+    return super.load(limit);
+  }
+
+  /** Re-reads the document only when another process replaced it */
+  head(): Pick<LedgerHead, 'sequence' | 'lastHash'> {
+    if (fileStamp(this.path) !== this.stamp) this.read();
+    return super.head();
+  }
+
+  loadKeys(): string | undefined {
+    return readKeyFile(this.keyFile);
+  }
+
+  saveKeys(data: string): void {
+    if (this.readOnly) throw new Error('JsonFileStorage is read-only');
+    writeKeyFile(this.keyFile, data);
+  }
+
+  protected persist(): void {
+    if (this.readOnly) throw new Error('JsonFileStorage is read-only');
+    ensureDir(this.path);
+    const data: StoredChain = {
+      entries: this.entries,
+      checkpoints: this.checkpoints,
+      sequence: this.sequence,
+      lastHash: this.lastHash,
+      savedAt: new Date().toISOString(),
+    };
+    // Write-then-rename so a crash mid-write never leaves a torn file
+    const tmp = `${this.path}.tmp`;
+    writeFileSync(tmp, encodeRecord(data, this.cipher, 2));
+    renameSync(tmp, this.path);
+    this.stamp = fileStamp(this.path);
+  }
+
+  private read(): void {
+    this.stamp = fileStamp(this.path);
+    if (this.stamp === undefined) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(this.path, 'utf-8'));
+    } catch {
+      // Corrupted file — start fresh
+      parsed = {};
+    }
+    // Decrypt outside the try: a missing or wrong key must fail loudly
+    // rather than be mistaken for corruption and overwritten
+    const data = openRecord<Partial<StoredChain>>(parsed, this.cipher);
+    this.entries = data.entries ?? [];
+    this.checkpoints = data.checkpoints ?? [];
+    this.sequence = data.sequence ?? 0;
+    this.lastHash = data.lastHash;
+  }
+}
+
+/** Read a key ring file, if it exists */
+export function readKeyFile(path: string): string | undefined {
+  return existsSync(path) ? readFileSync(path, 'utf-8') : undefined;
+}
+
+/** Atomically write a key ring file readable only by the owner */
+export function writeKeyFile(path: string, data: string): void {
+  ensureDir(path);
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, data, { mode: 0o600 });
+  renameSync(tmp, path);
+}
+
+/** Identity of a file's current version; changes whenever it is replaced or written */
+export function fileStamp(path: string): string | undefined {
+  try {
+    const stat = statSync(path);
+    return `${stat.ino}:${stat.size}:${stat.mtimeMs}`;
+  } catch {
+    return undefined;
+  }
+}
+
+function ensureDir(filePath: string): void {
+  const dir = dirname(filePath);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+}
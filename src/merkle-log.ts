@@ -0,0 +1,215 @@
+/**
+ * openclaw-air-trust — Merkle Log
+ *
+ * RFC 6962 / RFC 9162 Merkle tree over ledger entry hashes. Each entry
+ * is a leaf, in sequence order; the ledger periodically appends a
+ * signed `tree_head` entry recording the tree size and root. An
+ * inclusion proof — the entry, its audit path and a tree head — shows
+ * that one entry is part of the log without disclosing any other entry.
+ *
+ *   leaf hash = SHA-256(0x00 || entry hash bytes)
+ *   node hash = SHA-256(0x01 || left || right)
+ *
+ * Leaf hashes are kept in their own file (32 bytes per entry), so
+ * proofs can still be produced for entries trimmed from memory.
+ *
+ * Layout:
+ *   <base>.merkle.leaves   raw leaf hashes, one per entry
+ *   <base>.merkle.json     first covered sequence and published tree heads
+ */
+
+import { createHash } from 'crypto';
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  ftruncateSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+  writeSync,
+} from 'fs';
+import { AuditEntry, TreeHead } from './types';
+
+export const MERKLE_ALGORITHM: TreeHead['algorithm'] = 'rfc6962-sha256';
+const HASH_BYTES = 32;
+
+interface MerkleState {
+  version: 1;
+  firstSequence: number;
+  /** Published `tree_head` entries, oldest first */
+  heads: AuditEntry[];
+}
+
+export class MerkleLog {
+  private leavesPath: string;
+  private statePath: string;
+  private readOnly: boolean;
+  private state: MerkleState;
+  private size: number;
+
+  /**
+   * Open (or create) the log at `basePath`. A new log starts at
+   * `firstSequence`; an existing one keeps its own.
+   */
+  constructor(basePath: string, firstSequence: number, options: { readOnly?: boolean } = {}) {
+    this.leavesPath = basePath + '.merkle.leaves';
+    this.statePath = basePath + '.merkle.json';
+    this.readOnly = options.readOnly ?? false;
+
+    this.state = existsSync(this.statePath)
+      ? JSON.parse(readFileSync(this.statePath, 'utf-8'))
+      : { version: 1, firstSequence, heads: [] };
+    if (!existsSync(this.statePath) && !this.readOnly) this.saveState();
+
+    const bytes = existsSync(this.leavesPath) ? statSync(this.leavesPath).size : 0;
+    this.size = Math.floor(bytes / HASH_BYTES);
+    // Drop a torn trailing write
+    if (bytes % HASH_BYTES !== 0 && !this.readOnly) this.truncate(this.size);
+  }
+
+  get firstSequence(): number {
+    return this.state.firstSequence;
+  }
+
+  /** Sequence of the last entry with a leaf (firstSequence - 1 when empty) */
+  get lastSequence(): number {
+    return this.state.firstSequence + this.size - 1;
+  }
+
+  /** Number of leaves */
+  get treeSize(): number {
+    return this.size;
+  }
+
+  /** Add the next entry's leaf. Entries must be appended in sequence order. */
+  append(entry: AuditEntry): void {
+    if (entry.sequence !== this.lastSequence + 1) {
+      throw new Error(`Merkle log expected sequence ${this.lastSequence + 1}, got ${entry.sequence}`);
+    }
+    const fd = openSync(this.leavesPath, 'a');
+    try {
+      writeSync(fd, leafHash(entry.hash));
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    this.size++;
+  }
+
+  /** Forget leaves beyond `size` (e.g. for entries lost in a crash) */
+  truncate(size: number): void {
+    const fd = openSync(this.leavesPath, 'r+');
+    try {
+      ftruncateSync(fd, size * HASH_BYTES);
+    } finally {
+      closeSync(fd);
+    }
+    this.size = size;
+  }
+
+  /** Root over the first `treeSize` leaves */
+  root(treeSize: number = this.size): Buffer {
+    return subtreeHash(this.leaves(), 0, treeSize);
+  }
+
+  /** Audit path for the leaf at `index` in the tree of `treeSize` leaves */
+  auditPath(index: number, treeSize: number): Buffer[] {
+    return inclusionPath(this.leaves(), index, 0, treeSize);
+  }
+
+  /** Record a published `tree_head` entry */
+  addHead(head: AuditEntry): void {
+    this.state.heads.push(head);
+    this.saveState();
+  }
+
+  /** The most recently published `tree_head` entry */
+  get latestHead(): AuditEntry | undefined {
+    return this.state.heads[this.state.heads.length - 1];
+  }
+
+  // ─── Private ────────────────────────────────────────────────
+
+  private leaves(): Buffer {
+    return existsSync(this.leavesPath)
+      ? readFileSync(this.leavesPath).subarray(0, this.size * HASH_BYTES)
+      : Buffer.alloc(0);
+  }
+
+  private saveState(): void {
+    const tmp = `${this.statePath}.tmp`;
+    writeFileSync(tmp, JSON.stringify(this.state, null, 2));
+    renameSync(tmp, this.statePath);
+  }
+}
+
+/** RFC 6962 leaf hash of an entry hash (hex) */
+export function leafHash(entryHash: string): Buffer {
+  return createHash('sha256').update(Buffer.from([0x00])).update(Buffer.from(entryHash, 'hex')).digest();
+}
+
+/**
+ * Recompute the root from a leaf and its audit path (RFC 9162 §2.1.3.2).
+ * Returns undefined when the path does not fit the index and tree size.
+ */
+export function rootFromAuditPath(
+  leaf: Buffer,
+  index: number,
+  treeSize: number,
+  path: Buffer[]
+): Buffer | undefined {
+  if (index >= treeSize) return undefined;
+  let fn = index;
+  let sn = treeSize - 1;
+  let r = leaf;
+  for (const p of path) {
+    if (sn === 0) return undefined;
+    if (fn % 2 === 1 || fn === sn) {
+      r = nodeHash(p, r);
+      if (fn % 2 === 0) {
+        while (fn % 2 === 0 && fn !== 0) {
+          fn = Math.floor(fn / 2);
+          sn = Math.floor(sn / 2);
+        }
+      }
+    } else {
+      r = nodeHash(r, p);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return sn === 0 ? r : undefined;
+}
+
+function nodeHash(left: Buffer, right: Buffer): Buffer {
+  return createHash('sha256').update(Buffer.from([0x01])).update(left).update(right).digest();
+}
+
+/** MTH(D[start:end]) over a buffer of concatenated leaf hashes */
+function subtreeHash(leaves: Buffer, start: number, end: number): Buffer {
+  const n = end - start;
+  if (n === 0) return createHash('sha256').digest();
+  if (n === 1) return leaves.subarray(start * HASH_BYTES, (start + 1) * HASH_BYTES);
+  const k = largestPowerOfTwoBelow(n);
+  return nodeHash(subtreeHash(leaves, start, start + k), subtreeHash(leaves, start + k, end));
+}
+
+/** PATH(m, D[start:end]) from RFC 6962 §2.1.1, m relative to start */
+function inclusionPath(leaves: Buffer, m: number, start: number, end: number): Buffer[] {
+  const n = end - start;
+  if (n <= 1) return [];
+  const k = largestPowerOfTwoBelow(n);
+  if (m < k) {
+    return [...inclusionPath(leaves, m, start, start + k), subtreeHash(leaves, start + k, end)];
+  }
+  return [...inclusionPath(leaves, m - k, start + k, end), subtreeHash(leaves, start, start + k)];
+}
+
+function largestPowerOfTwoBelow(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
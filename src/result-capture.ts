@@ -0,0 +1,105 @@
+/**
+ * openclaw-air-trust — Result Capture
+ *
+ * Decides what a `tool_result` entry records about the tool's output,
+ * per the `auditLedger.resultCapture` policy. Every entry gets the
+ * result's size and whether the tool failed; depending on the tool's
+ * mode it also gets a SHA-256 digest, a tokenized preview or the whole
+ * tokenized result.
+ *
+ * The digest is taken over the original result, before tokenization,
+ * so anyone holding the real output can show it is what the tool
+ * returned with resultDigest() — without the ledger storing it.
+ * A result that cannot be serialized (e.g. a cyclic object) is recorded
+ * as `resultCapture: 'unserializable'` with no size or content.
+ */
+
+import { createHash } from 'crypto';
+import { canonicalize, JsonValue, toJsonValue } from './canonical-json';
+import { DataVault } from './data-vault';
+import { ResultCaptureConfig, ResultCaptureMode, ToolResultEvent } from './types';
+
+const DEFAULT_MODE: ResultCaptureMode = 'digest';
+const DEFAULT_PREVIEW_LENGTH = 200;
+
+export interface CapturedResult {
+  metadata: Record<string, unknown>;
+  /** Whether the vault replaced anything in the recorded content */
+  tokenized: boolean;
+}
+
+/** The capture mode that applies to a tool */
+export function resultCaptureMode(toolName: string, config: ResultCaptureConfig = {}): ResultCaptureMode {
+  return config.tools?.[toolName] ?? config.default ?? DEFAULT_MODE;
+}
+
+/**
+ * SHA-256 (hex) of a tool result as recorded in `resultSha256`: over
+ * the UTF-8 bytes of a string result, or of the canonical JSON of any
+ * other value.
+ */
+export function resultDigest(result: unknown): string {
+  return createHash('sha256').update(serializeResult(result)).digest('hex');
+}
+
+/** Metadata for the `tool_result` entry of `event` */
+export function captureToolResult(
+  event: ToolResultEvent,
+  config: ResultCaptureConfig | undefined,
+  vault: DataVault
+): CapturedResult {
+  const mode = resultCaptureMode(event.toolName, config);
+  let tokenized = false;
+  const tokenize = (text: string) => {
+    const out = vault.tokenize(text);
+    tokenized ||= out.tokenized;
+    return out.result;
+  };
+
+  const metadata: Record<string, unknown> = {
+    durationMs: event.durationMs,
+    status: event.error !== undefined ? 'error' : 'ok',
+    ...(event.error !== undefined ? { error: tokenize(event.error) } : {}),
+    resultCapture: mode,
+  };
+
+  let serialized: string;
+  try {
+    serialized = serializeResult(event.result);
+  } catch {
+    metadata.resultCapture = 'unserializable';
+    return { metadata, tokenized };
+  }
+  metadata.resultSize = Buffer.byteLength(serialized);
+  if (mode === 'none') return { metadata, tokenized };
+
+  metadata.resultSha256 = createHash('sha256').update(serialized).digest('hex');
+
+  if (mode === 'preview') {
+    // Tokenize before cutting, so a secret straddling the cut is still caught
+    const limit = config?.previewLength ?? DEFAULT_PREVIEW_LENGTH;
+    const text = tokenize(serialized);
+    metadata.resultPreview = text.slice(0, limit);
+    if (text.length > limit) metadata.resultTruncated = true;
+  } else if (mode === 'full') {
+    // Tokenize the strings inside the value; a pattern run over the JSON
+    // text could swallow a closing quote
+    metadata.result = tokenizeStrings(toJsonValue(event.result), tokenize);
+  }
+  return { metadata, tokenized };
+}
+
+// ─── Private ────────────────────────────────────────────────
+
+function serializeResult(result: unknown): string {
+  return typeof result === 'string' ? result : canonicalize(result);
+}
+
+function tokenizeStrings(value: JsonValue, tokenize: (text: string) => string): JsonValue {
+  if (typeof value === 'string') return tokenize(value);
+  if (Array.isArray(value)) return value.map((v) => tokenizeStrings(v, tokenize));
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, tokenizeStrings(v, tokenize)]));
+  }
+  return value;
+}
@@ -0,0 +1,406 @@
+/**
+ * openclaw-air-trust — Segment Store
+ *
+ * Append-only JSONL storage for the audit ledger. Each entry is
+ * written as a single line and fsync'd before append() returns, so
+ * a crash can lose at most the line being written — never the rest
+ * of the chain.
+ *
+ * Lines go to the active segment until it exceeds a size or age
+ * limit, then a new segment is started. A small manifest records
+ * each segment's first/last sequence and hash, so a restart only
+ * has to re-read the active segment to resume the chain.
+ *
+ * Layout:
+ *   <dir>/manifest.json
+ *   <dir>/checkpoints.json
+ *   <dir>/segment-000001.jsonl
+ *   <dir>/segment-000002.jsonl
+ *
+ * With a LedgerCipher each line is an encrypted envelope; the manifest
+ * and checkpoints hold only sequences and hashes and stay plaintext.
+ * The signing key ring lives in `keyFile` (`<dir>/keyring.json` by
+ * default; the ledger keeps it at `<ledger>.keyring.json`).
+ */
+
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  ftruncateSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+  writeSync,
+} from 'fs';
+import { join } from 'path';
+import { encodeRecord, LedgerCipher, openRecord } from './ledger-cipher';
+import { fileStamp, readKeyFile, writeKeyFile } from './ledger-storage';
+import { AuditEntry, ChainCheckpoint, LedgerHead, LedgerSegment, LedgerStorage } from './types';
+
+const MANIFEST_FILE = 'manifest.json';
+const CHECKPOINTS_FILE = 'checkpoints.json';
+const DEFAULT_MAX_BYTES = 4 * 1024 * 1024; // 4 MiB
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+interface SegmentManifest {
+  version: 1;
+  segments: LedgerSegment[];
+  updatedAt: string;
+}
+
+export interface SegmentStoreOptions {
+  /** Rotate once the active segment reaches this many bytes */
+  maxBytes?: number;
+  /** Rotate once the active segment is older than this (ms) */
+  maxAgeMs?: number;
+  /** Never create, repair or write files (for inspecting a live ledger) */
+  readOnly?: boolean;
+  /** Encrypt each line at rest */
+  cipher?: LedgerCipher;
+  /** Key ring file */
+  keyFile?: string;
+}
+
+export class SegmentStore implements LedgerStorage {
+  private dir: string;
+  private keyFile: string;
+  private maxBytes: number;
+  private maxAgeMs: number;
+  private readOnly: boolean;
+  private cipher?: LedgerCipher;
+  private segments: LedgerSegment[] = [];
+  private fd?: number;
+  /** Identity of the manifest version last read or written */
+  private manifestStamp?: string;
+
+  constructor(dir: string, options: SegmentStoreOptions = {}) {
+    this.dir = dir;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+    this.readOnly = options.readOnly ?? false;
+    this.cipher = options.cipher;
+    this.keyFile = options.keyFile ?? join(dir, 'keyring.json');
+
+    if (!this.readOnly && !existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    this.loadManifest();
+  }
+
+  /**
+   * Resume the chain from disk.
+   * Returns the last sequence and hash, plus up to `limit` of the most
+   * recent entries (all entries when limit is 0).
+   */
+  load(limit: number): LedgerHead {
+    const active = this.activeSegment();
+    if (active) this.recoverActive(active);
+
+    const last = [...this.segments].reverse().find((s) => s.count > 0);
+    const checkpointsPath = join(this.dir, CHECKPOINTS_FILE);
+    return {
+      entries: this.readTail(limit),
+      sequence: last?.lastSequence ?? 0,
+      lastHash: last?.lastHash,
+      checkpoints: existsSync(checkpointsPath)
+        ? JSON.parse(readFileSync(checkpointsPath, 'utf-8'))
+        : [],
+    };
+  }
+
+  /**
+   * Catch up with other processes writing to the same directory: the
+   * manifest is re-read when it was replaced (a rotation or drop), and
+   * the active segment re-scanned when its size no longer matches.
+   */
+  head(): Pick<LedgerHead, 'sequence' | 'lastHash'> {
+    const manifestChanged = fileStamp(join(this.dir, MANIFEST_FILE)) !== this.manifestStamp;
+    if (manifestChanged) {
+      this.closeActive();
+      this.loadManifest();
+    }
+    const active = this.activeSegment();
+    if (active && (manifestChanged || this.sizeOnDisk(active) !== active.bytes)) {
+      this.recoverActive(active);
+    }
+    const last = [...this.segments].reverse().find((s) => s.count > 0);
+    return { sequence: last?.lastSequence ?? 0, lastHash: last?.lastHash };
+  }
+
+  /**
+   * Replace the stored checkpoints. The list is small and bounded by the
+   * caller, so this is a whole-file rewrite rather than an append.
+   */
+  saveCheckpoints(checkpoints: ChainCheckpoint[]): void {
+    this.writeAtomic(CHECKPOINTS_FILE, JSON.stringify(checkpoints, null, 2));
+  }
+
+  /**
+   * Append one entry as a JSONL line and fsync it.
+   * Rotates to a new segment first if the active one is full or stale.
+   */
+  append(entry: AuditEntry): void {
+    if (this.readOnly) throw new Error('SegmentStore is read-only');
+    let active = this.activeSegment();
+    if (!active || this.shouldRotate(active)) {
+      active = this.rotate();
+    }
+
+    const line = encodeRecord(entry, this.cipher) + '\n';
+    const fd = this.openActive(active);
+    writeSync(fd, line);
+    fsyncSync(fd);
+
+    if (active.count === 0) {
+      active.firstSequence = entry.sequence;
+      active.prevHash = entry.prevHash;
+    }
+    active.lastSequence = entry.sequence;
+    active.lastHash = entry.hash;
+    active.count++;
+    active.bytes += Buffer.byteLength(line);
+  }
+
+  /** Read every entry with fromSequence <= sequence <= toSequence */
+  readRange(fromSequence: number, toSequence: number = Infinity): AuditEntry[] {
+    return [...this.scan(fromSequence, toSequence)];
+  }
+
+  /**
+   * Lazily yield entries with fromSequence <= sequence <= toSequence in
+   * order, reading one segment at a time. Segments outside the range —
+   * or closed before `since` — are skipped using the manifest alone.
+   */
+  *scan(fromSequence: number, toSequence: number = Infinity, since?: Date): Generator<AuditEntry> {
+    for (const segment of this.segments) {
+      if (segment.count === 0) continue;
+      if (segment.lastSequence < fromSequence || segment.firstSequence > toSequence) continue;
+      if (since && segment.closedAt && new Date(segment.closedAt) < since) continue;
+      for (const entry of this.readSegment(segment)) {
+        if (entry.sequence >= fromSequence && entry.sequence <= toSequence) {
+          yield entry;
+        }
+      }
+    }
+  }
+
+  /**
+   * Delete closed segments whose entries all have sequence <= `sequence`,
+   * once they have been archived elsewhere. The newest segment is always
+   * kept so the chain head survives a restart. Returns the dropped segments.
+   */
+  dropThrough(sequence: number): LedgerSegment[] {
+    if (this.readOnly) throw new Error('SegmentStore is read-only');
+    const dropped: LedgerSegment[] = [];
+    while (this.segments.length > 1) {
+      const oldest = this.segments[0];
+      if (!oldest.closedAt || (oldest.count > 0 && oldest.lastSequence > sequence)) break;
+      dropped.push(this.segments.shift()!);
+    }
+    if (dropped.length === 0) return dropped;
+
+    // Manifest first: a crash leaves an orphaned file, never a dangling reference
+    this.saveManifest();
+    for (const segment of dropped) {
+      const path = join(this.dir, segment.file);
+      if (existsSync(path)) unlinkSync(path);
+    }
+    return dropped;
+  }
+
+  /** Last sequence of the newest closed segment ending at or before `sequence` */
+  archiveBoundary(sequence: number): number {
+    let boundary = 0;
+    for (const segment of this.segments) {
+      if (segment.closedAt && segment.count > 0 && segment.lastSequence <= sequence) {
+        boundary = segment.lastSequence;
+      }
+    }
+    return boundary;
+  }
+
+  loadKeys(): string | undefined {
+    return readKeyFile(this.keyFile);
+  }
+
+  saveKeys(data: string): void {
+    if (this.readOnly) throw new Error('SegmentStore is read-only');
+    writeKeyFile(this.keyFile, data);
+  }
+
+  /** Segments as recorded in the manifest, oldest first */
+  list(): LedgerSegment[] {
+    return this.segments.map((s) => ({ ...s }));
+  }
+
+  /** Flush the manifest and release the active file handle */
+  close(): void {
+    this.closeActive();
+    if (!this.readOnly) this.saveManifest();
+  }
+
+  // ─── Private ────────────────────────────────────────────────
+
+  private activeSegment(): LedgerSegment | undefined {
+    const last = this.segments[this.segments.length - 1];
+    return last && !last.closedAt ? last : undefined;
+  }
+
+  private shouldRotate(segment: LedgerSegment): boolean {
+    if (segment.count === 0) return false;
+    if (segment.bytes >= this.maxBytes) return true;
+    return Date.now() - new Date(segment.createdAt).getTime() >= this.maxAgeMs;
+  }
+
+  /** Close the active segment (if any) and start a new one */
+  private rotate(): LedgerSegment {
+    const previous = this.activeSegment();
+    if (previous) {
+      if (this.fd !== undefined) {
+        fsyncSync(this.fd);
+        closeSync(this.fd);
+        this.fd = undefined;
+      }
+      previous.closedAt = new Date().toISOString();
+    }
+
+    // Numbering continues past segments dropped by dropThrough()
+    const last = this.segments[this.segments.length - 1];
+    const index = last ? Number(last.file.match(/(\d+)/)![1]) + 1 : 1;
+    const segment: LedgerSegment = {
+      file: `segment-${String(index).padStart(6, '0')}.jsonl`,
+      firstSequence: 0,
+      lastSequence: 0,
+      prevHash: previous?.lastHash ?? '',
+      lastHash: previous?.lastHash ?? '',
+      count: 0,
+      bytes: 0,
+      createdAt: new Date().toISOString(),
+    };
+    this.segments.push(segment);
+
+    // Record the new segment before any line lands in it
+    this.saveManifest();
+    return segment;
+  }
+
+  private closeActive(): void {
+    if (this.fd !== undefined) {
+      closeSync(this.fd);
+      this.fd = undefined;
+    }
+  }
+
+  private sizeOnDisk(segment: LedgerSegment): number {
+    const path = join(this.dir, segment.file);
+    return existsSync(path) ? statSync(path).size : 0;
+  }
+
+  private openActive(segment: LedgerSegment): number {
+    if (this.fd === undefined) {
+      this.fd = openSync(join(this.dir, segment.file), 'a');
+    }
+    return this.fd;
+  }
+
+  /**
+   * The manifest may lag behind the active segment (it is only rewritten
+   * on rotation). Re-scan that one file, dropping a torn trailing line
+   * left by a crash mid-write.
+   */
+  private recoverActive(segment: LedgerSegment): void {
+    const path = join(this.dir, segment.file);
+    if (!existsSync(path)) {
+      Object.assign(segment, { firstSequence: 0, lastSequence: 0, count: 0, bytes: 0 });
+      return;
+    }
+
+    const raw = readFileSync(path);
+    let validBytes = 0;
+    const entries: AuditEntry[] = [];
+    let start = 0;
+    while (start < raw.length) {
+      const newline = raw.indexOf(0x0a, start);
+      if (newline === -1) break; // torn write — no terminating newline
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw.subarray(start, newline).toString('utf-8'));
+      } catch {
+        break;
+      }
+      // Outside the try: a missing or wrong key must fail, not truncate
+      entries.push(openRecord<AuditEntry>(parsed, this.cipher));
+      start = newline + 1;
+      validBytes = start;
+    }
+
+    if (validBytes < raw.length && !this.readOnly) {
+      const fd = openSync(path, 'r+');
+      ftruncateSync(fd, validBytes);
+      fsyncSync(fd);
+      closeSync(fd);
+    }
+
+    segment.count = entries.length;
+    segment.bytes = validBytes;
+    if (entries.length > 0) {
+      segment.firstSequence = entries[0].sequence;
+      segment.prevHash = entries[0].prevHash;
+      segment.lastSequence = entries[entries.length - 1].sequence;
+      segment.lastHash = entries[entries.length - 1].hash;
+    }
+    if (!this.readOnly) this.saveManifest();
+  }
+
+  private readTail(limit: number): AuditEntry[] {
+    let collected: AuditEntry[] = [];
+    for (let i = this.segments.length - 1; i >= 0; i--) {
+      const segment = this.segments[i];
+      if (segment.count === 0) continue;
+      collected = [...this.readSegment(segment), ...collected];
+      if (limit > 0 && collected.length >= limit) {
+        return collected.slice(-limit);
+      }
+    }
+    return collected;
+  }
+
+  private readSegment(segment: LedgerSegment): AuditEntry[] {
+    const path = join(this.dir, segment.file);
+    if (!existsSync(path)) return [];
+    return readFileSync(path, 'utf-8')
+      .split('\n')
+      .filter((line) => line.length > 0)
+      .map((line) => openRecord<AuditEntry>(JSON.parse(line), this.cipher));
+  }
+
+  private loadManifest(): void {
+    const path = join(this.dir, MANIFEST_FILE);
+    if (!existsSync(path)) return;
+    this.manifestStamp = fileStamp(path);
+    const data = JSON.parse(readFileSync(path, 'utf-8')) as SegmentManifest;
+    this.segments = data.segments ?? [];
+  }
+
+  private saveManifest(): void {
+    const manifest: SegmentManifest = {
+      version: 1,
+      segments: this.segments,
+      updatedAt: new Date().toISOString(),
+    };
+    this.writeAtomic(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+    this.manifestStamp = fileStamp(join(this.dir, MANIFEST_FILE));
+  }
+
+  private writeAtomic(file: string, content: string): void {
+    const path = join(this.dir, file);
+    const tmp = `${path}.tmp`;
+    writeFileSync(tmp, content);
+    renameSync(tmp, path);
+  }
+}
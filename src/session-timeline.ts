@@ -0,0 +1,290 @@
+/**
+ * openclaw-air-trust — Session Timeline
+ *
+ * Reconstructs what an agent did in one session from its ledger
+ * entries — messages received, injection detections, LLM outputs,
+ * consent decisions, tool calls and results — in chain order, and
+ * renders it as a Markdown or self-contained HTML report for incident
+ * reviews.
+ *
+ * Entries are grouped by session with entrySessionId(), so entries
+ * that still keep the session in metadata are included. The report
+ * states how much of the session the chain verification covered.
+ */
+
+import { entrySessionId } from './audit-query';
+import {
+  AuditEntry,
+  ChainVerification,
+  RiskLevel,
+  RISK_ORDER,
+  SessionTimeline,
+  TimelineEvent,
+  TimelineEventKind,
+} from './types';
+
+export type TimelineReportFormat = 'markdown' | 'html';
+
+export const TIMELINE_REPORT_FORMATS: TimelineReportFormat[] = ['markdown', 'html'];
+
+/**
+ * Build the timeline for `sessionId` from `entries` (any superset of
+ * the session's entries, in sequence order). `verification` is the
+ * result of verifying the chain and `checked` the sequence range it
+ * covered; session entries in that range, before any break, count as
+ * verified.
+ */
+export function buildSessionTimeline(
+  sessionId: string,
+  entries: AuditEntry[],
+  verification: ChainVerification,
+  checked?: { from: number; to: number }
+): SessionTimeline {
+  const session = entries.filter((e) => entrySessionId(e) === sessionId);
+  const start = session.length > 0 ? Date.parse(session[0].timestamp) : 0;
+  const end = session.length > 0 ? Date.parse(session[session.length - 1].timestamp) : 0;
+
+  const events = session.map((entry) => toEvent(entry, start));
+  const byRiskLevel: Record<RiskLevel, number> = { none: 0, low: 0, medium: 0, high: 0, critical: 0 };
+  for (const event of events) byRiskLevel[event.riskLevel]++;
+
+  const lastChecked = verification.valid
+    ? checked?.to ?? 0
+    : Math.min(checked?.to ?? 0, (verification.brokenAtSequence ?? 1) - 1);
+  const verified = checked
+    ? session.filter((e) => e.sequence >= checked.from && e.sequence <= lastChecked).length
+    : 0;
+
+  return {
+    sessionId,
+    ...(session.length > 0
+      ? { startedAt: session[0].timestamp, endedAt: session[session.length - 1].timestamp }
+      : {}),
+    durationMs: end - start,
+    events,
+    summary: {
+      entries: events.length,
+      toolCalls: events.filter((e) => e.kind === 'tool_call').length,
+      blockedActions: events.filter((e) => e.blocked).length,
+      injectionsDetected: session.filter((e) => e.injectionDetected).length,
+      consentRequests: events.filter((e) => e.kind === 'consent').length,
+      highestRiskLevel: events.reduce<RiskLevel>(
+        (max, e) => (RISK_ORDER[e.riskLevel] > RISK_ORDER[max] ? e.riskLevel : max),
+        'none'
+      ),
+      byRiskLevel,
+      toolTimeMs: events.reduce((sum, e) => sum + (e.durationMs ?? 0), 0),
+    },
+    verification: {
+      chainValid: verification.valid,
+      ...(verification.reason ? { reason: verification.reason } : {}),
+      ...(verification.brokenAtSequence !== undefined
+        ? { brokenAtSequence: verification.brokenAtSequence }
+        : {}),
+      verifiedEntries: verified,
+      unverifiedEntries: session.length - verified,
+    },
+  };
+}
+
+/** Render a timeline as a Markdown or standalone HTML report */
+export function renderSessionReport(timeline: SessionTimeline, format: TimelineReportFormat): string {
+  switch (format) {
+    case 'markdown':
+      return renderMarkdown(timeline);
+    case 'html':
+      return renderHtml(timeline);
+    default:
+      throw new Error(`Unknown report format "${format}"`);
+  }
+}
+
+/** 850 ms, 12.3 s, 4m 05s, 2h 10m */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+  return `${Math.floor(seconds / 3600)}h ${String(Math.floor((seconds % 3600) / 60)).padStart(2, '0')}m`;
+}
+
+// ─── Private ────────────────────────────────────────────────
+
+function toEvent(entry: AuditEntry, start: number): TimelineEvent {
+  const kind = kindOf(entry.action);
+  const duration = entry.metadata.durationMs;
+  const blocked =
+    (kind === 'consent' && entry.consentGranted === false) ||
+    (kind === 'injection' && entry.metadata.blocked === true);
+  return {
+    sequence: entry.sequence,
+    entryId: entry.id,
+    timestamp: entry.timestamp,
+    offsetMs: Date.parse(entry.timestamp) - start,
+    kind,
+    action: entry.action,
+    ...(entry.toolName ? { toolName: entry.toolName } : {}),
+    ...(entry.callId ? { callId: entry.callId } : {}),
+    riskLevel: entry.riskLevel,
+    ...(kind === 'tool_result' && typeof duration === 'number' ? { durationMs: duration } : {}),
+    blocked,
+    summary: describe(entry, kind, blocked),
+  };
+}
+
+function kindOf(action: string): TimelineEventKind {
+  if (action === 'message_received') return 'message';
+  if (action === 'injection_detected') return 'injection';
+  if (action === 'llm_output') return 'llm_output';
+  if (action.startsWith('consent_')) return 'consent';
+  if (action === 'tool_call') return 'tool_call';
+  if (action === 'tool_result') return 'tool_result';
+  return 'other';
+}
+
+function describe(entry: AuditEntry, kind: TimelineEventKind, blocked: boolean): string {
+  const meta = entry.metadata;
+  const chars = typeof meta.contentLength === 'number' ? ` (${meta.contentLength} chars)` : '';
+  switch (kind) {
+    case 'message':
+      return `${meta.role ?? 'Unknown'} message received${chars}`;
+    case 'injection': {
+      const score = typeof meta.score === 'number' ? ` score ${meta.score.toFixed(2)}` : '';
+      const patterns = Array.isArray(meta.patterns) && meta.patterns.length > 0
+        ? ` [${meta.patterns.join(', ')}]`
+        : '';
+      const source = typeof meta.source === 'string' ? ` in ${meta.source}` : '';
+      return `Injection detected${source}:${score}${patterns}${blocked ? ', blocked' : ''}`;
+    }
+    case 'llm_output':
+      return `LLM output${typeof meta.model === 'string' ? ` from ${meta.model}` : ''}${chars}`;
+    case 'consent':
+      return `Consent ${entry.action.slice('consent_'.length)} for ${entry.toolName ?? 'tool'}`;
+    case 'tool_call':
+      return `Called ${entry.toolName ?? 'tool'}${entry.dataTokenized ? ' (arguments tokenized)' : ''}`;
+    case 'tool_result': {
+      const outcome = meta.status === 'error' ? `failed: ${meta.error}` : 'returned';
+      return typeof meta.durationMs === 'number'
+        ? `${entry.toolName ?? 'Tool'} ${outcome} after ${formatDuration(meta.durationMs)}`
+        : `${entry.toolName ?? 'Tool'} ${outcome}`;
+    }
+    default:
+      return entry.action;
+  }
+}
+
+function verificationText(timeline: SessionTimeline): string {
+  const { verification: v, summary } = timeline;
+  const coverage = `${v.verifiedEntries} of ${summary.entries} session entries verified`;
+  if (v.chainValid) return `Valid: ${coverage}`;
+  return `BROKEN at sequence ${v.brokenAtSequence}: ${v.reason}; ${coverage}`;
+}
+
+function overviewRows(timeline: SessionTimeline): Array<[string, string]> {
+  const { summary } = timeline;
+  return [
+    ['Started', timeline.startedAt ?? '—'],
+    ['Ended', timeline.endedAt ?? '—'],
+    ['Duration', formatDuration(timeline.durationMs)],
+    ['Entries', String(summary.entries)],
+    ['Tool calls', `${summary.toolCalls} (${formatDuration(summary.toolTimeMs)} in tools)`],
+    ['Consent requests', String(summary.consentRequests)],
+    ['Blocked actions', String(summary.blockedActions)],
+    ['Injections detected', String(summary.injectionsDetected)],
+    ['Highest risk', summary.highestRiskLevel],
+    ['Chain verification', verificationText(timeline)],
+  ];
+}
+
+const EVENT_COLUMNS = ['#', 'Time', 'Offset', 'Event', 'Tool', 'Risk', 'Duration', 'Details'];
+
+function eventCells(event: TimelineEvent): string[] {
+  return [
+    String(event.sequence),
+    event.timestamp,
+    `+${formatDuration(event.offsetMs)}`,
+    event.action,
+    event.toolName ?? '',
+    event.riskLevel,
+    event.durationMs !== undefined ? formatDuration(event.durationMs) : '',
+    event.blocked ? `BLOCKED: ${event.summary}` : event.summary,
+  ];
+}
+
+function renderMarkdown(timeline: SessionTimeline): string {
+  const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  const row = (cells: string[]) => `| ${cells.map(cell).join(' | ')} |`;
+
+  const lines = [
+    `# Session report: ${cell(timeline.sessionId)}`,
+    '',
+    row(['Field', 'Value']),
+    row(['---', '---']),
+    ...overviewRows(timeline).map(row),
+    '',
+    '## Timeline',
+    '',
+  ];
+  if (timeline.events.length === 0) {
+    lines.push('No entries were recorded for this session.');
+  } else {
+    lines.push(row(EVENT_COLUMNS), row(EVENT_COLUMNS.map(() => '---')));
+    lines.push(...timeline.events.map((event) => row(eventCells(event))));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function renderHtml(timeline: SessionTimeline): string {
+  const status = timeline.verification.chainValid ? 'valid' : 'broken';
+  const overview = overviewRows(timeline)
+    .map(([field, value]) => {
+      const attr = field === 'Chain verification' ? ` class="verification-${status}"` : '';
+      return `<tr${attr}><th>${escapeHtml(field)}</th><td>${escapeHtml(value)}</td></tr>`;
+    })
+    .join('\n');
+  const events = timeline.events
+    .map((event) => {
+      const classes = [`risk-${event.riskLevel}`, event.blocked ? 'blocked' : ''].filter(Boolean).join(' ');
+      const cells = eventCells(event).map((value) => `<td>${escapeHtml(value)}</td>`).join('');
+      return `<tr class="${classes}">${cells}</tr>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Session report: ${escapeHtml(timeline.sessionId)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+table { border-collapse: collapse; margin-bottom: 2rem; }
+th, td { border: 1px solid #d0d7de; padding: 0.3rem 0.6rem; text-align: left; vertical-align: top; }
+.verification-valid { color: #1a7f37; }
+.verification-broken { color: #cf222e; font-weight: bold; }
+.risk-high td { background: #fff8c5; }
+.risk-critical td { background: #ffebe9; }
+.blocked td { font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>Session report: ${escapeHtml(timeline.sessionId)}</h1>
+<table class="overview">
+${overview}
+</table>
+<h2>Timeline</h2>
+${
+  timeline.events.length === 0
+    ? '<p>No entries were recorded for this session.</p>'
+    : `<table class="timeline">
+<tr>${EVENT_COLUMNS.map((c) => `<th>${c}</th>`).join('')}</tr>
+${events}
+</table>`
+}
+</body>
+</html>
+`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
@@ -0,0 +1,610 @@
+/**
+ * openclaw-air-trust — Shell Analyzer
+ *
+ * Risk scoring for what an exec-style tool is about to run, instead of
+ * flagging every `exec` critical. The command line is tokenized the
+ * way a POSIX shell would split it — quotes, escapes, pipes, `&&`/`||`,
+ * `;`, subshells, redirects, `$(…)` and backticks — into simple
+ * commands, and each is checked for:
+ *
+ * - destructive operations (recursive rm, mkfs, dd to a device, force
+ *   pushes, shutdowns, …)
+ * - privilege escalation (sudo, su, doas, pkexec)
+ * - network egress, and remote code execution (`curl … | sh`)
+ * - writes outside the workspace (redirects, tee, cp/mv destinations)
+ *
+ * Wrappers (sudo, env, nohup, xargs, timeout, busybox, …) are looked
+ * through, and `sh -c`/`bash -c`/`eval` strings, `find -exec` commands
+ * and command substitutions are analyzed recursively. Only programs on
+ * a known list are scored by what they do; scripts and inline code for
+ * interpreters (`bash script.sh`, `python -c`, `node -e`), command
+ * names built at run time (`$x`, `rm${IFS}-rf`) and unknown programs
+ * get a high 'opaque' finding and mark the analysis `opaque`, so the
+ * tool keeps its registry risk. The invocation's risk level is the
+ * highest of its findings, or 'low' when nothing stands out. A command
+ * that cannot be parsed is reported as critical.
+ */
+
+import { homedir, tmpdir } from 'os';
+import { basename, resolve, sep } from 'path';
+import { RiskLevel, RISK_ORDER, ShellAnalysis, ShellFinding, ShellFindingCategory } from './types';
+
+export interface ShellAnalyzerOptions {
+  /** Directories writes may go to without a finding (default: cwd and the OS temp dir) */
+  workspace?: string[];
+  /** Directory relative paths are resolved against (default: the first workspace entry) */
+  cwd?: string;
+}
+
+/**
+ * The command line an exec-style tool's arguments describe: `command`
+ * (string, or argv array), plus `args` for spawn-style calls, or `cmd`
+ * / `script`. Undefined when there is none.
+ */
+export function shellCommandOf(args: Record<string, unknown>): string | undefined {
+  const { command } = args;
+  if (Array.isArray(command)) return command.map((a) => quote(String(a))).join(' ');
+  if (typeof command === 'string') {
+    return Array.isArray(args.args) ? [command, ...args.args.map((a) => quote(String(a)))].join(' ') : command;
+  }
+  for (const key of ['cmd', 'script']) {
+    if (typeof args[key] === 'string') return args[key] as string;
+  }
+  return undefined;
+}
+
+/** Analyze a shell command line */
+export function analyzeShellCommand(command: string, options: ShellAnalyzerOptions = {}): ShellAnalysis {
+  const workspace = (options.workspace ?? [process.cwd(), tmpdir()]).map(expandPath);
+  const context: Context = {
+    workspace,
+    cwd: options.cwd ? expandPath(options.cwd) : workspace[0] ?? process.cwd(),
+    findings: [],
+    commands: [],
+  };
+  analyze(command, context, 0);
+
+  const findings = dedupe(context.findings);
+  const riskLevel = findings.reduce<RiskLevel>(
+    (max, f) => (RISK_ORDER[f.riskLevel] > RISK_ORDER[max] ? f.riskLevel : max),
+    'low'
+  );
+  const opaque = findings.some((f) => f.category === 'opaque' || f.category === 'unparsed');
+  return { riskLevel, findings, commands: context.commands, opaque };
+}
+
+// ─── Private ────────────────────────────────────────────────
+
+/** Nested `sh -c` / substitution depth analyzed before giving up */
+const MAX_DEPTH = 5;
+
+const SHELLS = /^(sh|bash|zsh|dash|ksh|fish)$/;
+const INTERPRETERS = /^(sh|bash|zsh|dash|ksh|fish|python[0-9.]*|perl|ruby|node|php)$/;
+const FETCHERS = new Set(['curl', 'wget', 'fetch']);
+const RAW_NETWORK = new Set(['nc', 'ncat', 'netcat', 'socat', 'telnet', 'ftp', 'sftp', 'tftp']);
+const REMOTE_SHELLS = new Set(['ssh', 'scp', 'rsync']);
+const ESCALATORS = new Set(['sudo', 'doas', 'su', 'pkexec']);
+const DISK_TOOLS = /^(mkfs(\..+)?|mke2fs|mkswap|wipefs|fdisk|sfdisk|gdisk|parted)$/;
+const POWER_COMMANDS = new Set(['shutdown', 'reboot', 'halt', 'poweroff']);
+const SENSITIVE_PATHS = ['/etc', '/boot', '/bin', '/sbin', '/usr', '/lib', '/lib64', '/sys', '/proc', '/dev'];
+const SENSITIVE_HOME_PATHS = ['.ssh', '.gnupg', '.aws', '.kube', '.bashrc', '.profile', '.zshrc'];
+const HARMLESS_TARGETS = /^\/dev\/(null|stdout|stderr|tty|fd\/\d+)$/;
+
+/** Programs whose effects the checks account for; anything else is opaque */
+const KNOWN_PROGRAMS = new Set([
+  // Read-only, or output only
+  'ls', 'cat', 'echo', 'printf', 'pwd', 'true', 'false', 'test', '[', 'grep', 'egrep', 'fgrep', 'rg',
+  'head', 'tail', 'wc', 'sort', 'uniq', 'cut', 'tr', 'diff', 'cmp', 'comm', 'nl', 'column', 'file', 'stat',
+  'du', 'df', 'which', 'whereis', 'type', 'whoami', 'id', 'date', 'uname', 'hostname', 'basename', 'dirname',
+  'realpath', 'readlink', 'tree', 'sleep', 'jq', 'md5sum', 'sha1sum', 'sha256sum', 'ps',
+  // Checked by what they are given
+  'mkdir', 'touch', 'cp', 'mv', 'install', 'ln', 'tee', 'rm', 'rmdir', 'unlink', 'dd', 'shred', 'truncate',
+  'kill', 'killall', 'pkill', 'find', 'git', 'cd', 'eval',
+  ...FETCHERS, ...RAW_NETWORK, ...REMOTE_SHELLS, ...POWER_COMMANDS,
+]);
+
+/** Leading words that run the rest of the line as a command */
+const WRAPPERS: Record<string, { optionsWithValue: string[]; skipsOperand?: boolean }> = {
+  sudo: { optionsWithValue: ['-u', '-g', '-C', '-h', '-p', '-U', '-r', '-t'] },
+  doas: { optionsWithValue: ['-u', '-C'] },
+  pkexec: { optionsWithValue: ['--user'] },
+  env: { optionsWithValue: ['-u', '-C', '-S'] },
+  nice: { optionsWithValue: ['-n'] },
+  ionice: { optionsWithValue: ['-c', '-n', '-p'] },
+  nohup: { optionsWithValue: [] },
+  time: { optionsWithValue: ['-f', '-o'] },
+  command: { optionsWithValue: [] },
+  exec: { optionsWithValue: ['-a'] },
+  stdbuf: { optionsWithValue: ['-i', '-o', '-e'] },
+  xargs: { optionsWithValue: ['-I', '-n', '-P', '-L', '-s', '-d', '-E', '-a'] },
+  timeout: { optionsWithValue: ['-s', '-k', '--signal', '--kill-after'], skipsOperand: true },
+  // Multi-call binaries: `busybox rm -rf /` runs rm
+  busybox: { optionsWithValue: [] },
+  toybox: { optionsWithValue: [] },
+};
+
+/** Shell keywords that can precede a command */
+const KEYWORDS = new Set(['!', '{', '}', 'then', 'else', 'elif', 'do', 'if', 'while', 'until', 'fi', 'done']);
+
+const OPERATORS = ['&&', '||', '|&', '>>', '&>', '>&', '<<', '>|', '|', '&', ';', '<', '>', '(', ')'];
+const REDIRECTS = new Set(['>', '>>', '&>', '>&', '<', '<<', '>|']);
+const WRITE_REDIRECTS = new Set(['>', '>>', '&>', '>|']);
+
+interface Word {
+  kind: 'word';
+  value: string;
+  /** Bodies of $(…) and `…` inside the word */
+  substitutions: string[];
+}
+
+type Token = Word | { kind: 'op'; value: string };
+
+interface SimpleCommand {
+  words: Word[];
+  redirects: Array<{ op: string; target: string }>;
+  /** Output is piped into the next command */
+  pipesOut: boolean;
+  /** Pipeline this command belongs to (commands joined by |) */
+  pipeline: number;
+}
+
+interface Context {
+  workspace: string[];
+  cwd: string;
+  findings: ShellFinding[];
+  commands: string[];
+}
+
+class ShellSyntaxError extends Error {}
+
+function analyze(command: string, context: Context, depth: number): void {
+  if (depth > MAX_DEPTH) {
+    context.findings.push({ riskLevel: 'high', category: 'unparsed', message: 'Command nests too deeply to analyze' });
+    return;
+  }
+
+  let commands: SimpleCommand[];
+  try {
+    commands = parse(lex(command));
+  } catch (err) {
+    context.findings.push({
+      riskLevel: 'critical',
+      category: 'unparsed',
+      message: `Command could not be parsed: ${(err as Error).message}`,
+    });
+    return;
+  }
+
+  for (const [index, cmd] of commands.entries()) {
+    for (const word of cmd.words) {
+      for (const inner of word.substitutions) analyze(inner, context, depth + 1);
+    }
+    const next = commands.slice(index + 1).filter((c) => c.pipeline === cmd.pipeline);
+    const previous = commands[index - 1];
+    const upstream = previous?.pipesOut && previous.pipeline === cmd.pipeline ? previous : undefined;
+    checkCommand(cmd, next, upstream, context, depth);
+  }
+}
+
+// ─── Lexer ──────────────────────────────────────────────────
+
+function lex(input: string): Token[] {
+  const tokens: Token[] = [];
+  let word: Word | undefined;
+  const current = () => (word ??= { kind: 'word', value: '', substitutions: [] });
+  const endWord = () => {
+    if (word) tokens.push(word);
+    word = undefined;
+  };
+
+  let i = 0;
+  while (i < input.length) {
+    const c = input[i];
+
+    if (c === ' ' || c === '\t') {
+      endWord();
+      i++;
+    } else if (c === '\n') {
+      endWord();
+      tokens.push({ kind: 'op', value: ';' });
+      i++;
+    } else if (c === '#' && !word) {
+      while (i < input.length && input[i] !== '\n') i++;
+    } else if (c === '\\') {
+      if (input[i + 1] !== '\n') current().value += input[i + 1] ?? '';
+      i += 2;
+    } else if (c === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end < 0) throw new ShellSyntaxError('unterminated single quote');
+      current().value += input.slice(i + 1, end);
+      i = end + 1;
+    } else if (c === '"') {
+      i = readDoubleQuoted(input, i + 1, current());
+    } else if (c === '$' && input[i + 1] === '(') {
+      i = readSubstitution(input, i + 1, current());
+    } else if (c === '`') {
+      i = readBackticks(input, i + 1, current());
+    } else if ('|&;<>()'.includes(c)) {
+      const op = OPERATORS.find((o) => input.startsWith(o, i))!;
+      // `2>file`: a file descriptor number directly before a redirect
+      if (word && /^\d+$/.test(word.value) && (op.startsWith('>') || op.startsWith('<'))) word = undefined;
+      endWord();
+      tokens.push({ kind: 'op', value: op });
+      i += op.length;
+    } else {
+      current().value += c;
+      i++;
+    }
+  }
+  endWord();
+  return tokens;
+}
+
+function readDoubleQuoted(input: string, start: number, word: Word): number {
+  let i = start;
+  while (i < input.length) {
+    const c = input[i];
+    if (c === '"') return i + 1;
+    if (c === '\\' && '$`"\\\n'.includes(input[i + 1] ?? '')) {
+      if (input[i + 1] !== '\n') word.value += input[i + 1];
+      i += 2;
+    } else if (c === '$' && input[i + 1] === '(') {
+      i = readSubstitution(input, i + 1, word);
+    } else if (c === '`') {
+      i = readBackticks(input, i + 1, word);
+    } else {
+      word.value += c;
+      i++;
+    }
+  }
+  throw new ShellSyntaxError('unterminated double quote');
+}
+
+/** `start` is at the opening parenthesis; returns the index after the closing one */
+function readSubstitution(input: string, start: number, word: Word): number {
+  let depth = 0;
+  let quote: string | undefined;
+  for (let i = start; i < input.length; i++) {
+    const c = input[i];
+    if (quote) {
+      if (c === quote) quote = undefined;
+      else if (c === '\\' && quote === '"') i++;
+    } else if (c === "'" || c === '"') {
+      quote = c;
+    } else if (c === '\\') {
+      i++;
+    } else if (c === '(') {
+      depth++;
+    } else if (c === ')' && --depth === 0) {
+      const body = input.slice(start + 1, i);
+      // $((…)) is arithmetic, not a command
+      if (!(body.startsWith('(') && body.endsWith(')'))) word.substitutions.push(body);
+      word.value += `$(${body})`;
+      return i + 1;
+    }
+  }
+  throw new ShellSyntaxError('unterminated $( substitution');
+}
+
+function readBackticks(input: string, start: number, word: Word): number {
+  for (let i = start; i < input.length; i++) {
+    if (input[i] === '\\') {
+      i++;
+    } else if (input[i] === '`') {
+      const body = input.slice(start, i);
+      word.substitutions.push(body);
+      word.value += `\`${body}\``;
+      return i + 1;
+    }
+  }
+  throw new ShellSyntaxError('unterminated backtick substitution');
+}
+
+// ─── Parser ─────────────────────────────────────────────────
+
+function parse(tokens: Token[]): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+  let pipeline = 0;
+  let cmd: SimpleCommand = { words: [], redirects: [], pipesOut: false, pipeline };
+  const finish = () => {
+    if (cmd.words.length > 0 || cmd.redirects.length > 0) commands.push(cmd);
+    cmd = { words: [], redirects: [], pipesOut: false, pipeline };
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind === 'word') {
+      cmd.words.push(token);
+    } else if (REDIRECTS.has(token.value)) {
+      const target = tokens[++i];
+      if (!target || target.kind !== 'word') throw new ShellSyntaxError(`missing target for ${token.value}`);
+      cmd.redirects.push({ op: token.value, target: target.value });
+      // A substitution in a redirect target still runs
+      if (target.substitutions.length > 0) cmd.words.push({ ...target, value: '' });
+    } else if (token.value === '|' || token.value === '|&') {
+      cmd.pipesOut = true;
+      finish();
+    } else {
+      finish();
+      cmd.pipeline = ++pipeline;
+    }
+  }
+  finish();
+  return commands;
+}
+
+// ─── Checks ─────────────────────────────────────────────────
+
+function checkCommand(
+  cmd: SimpleCommand,
+  downstream: SimpleCommand[],
+  upstream: SimpleCommand | undefined,
+  context: Context,
+  depth: number
+): void {
+  const add = (riskLevel: RiskLevel, category: ShellFindingCategory, message: string) =>
+    context.findings.push({ riskLevel, category, message });
+
+  for (const { op, target } of cmd.redirects) {
+    if (WRITE_REDIRECTS.has(op)) checkWrite(target, context, add);
+  }
+
+  let argv = cmd.words.map((w) => w.value).filter((w) => w !== '');
+  while (argv.length > 0 && (KEYWORDS.has(argv[0]) || /^[A-Za-z_][A-Za-z0-9_]*=/.test(argv[0]))) {
+    argv = argv.slice(1);
+  }
+
+  let privileged = false;
+  for (;;) {
+    if (argv.length === 0) return;
+    const name = basename(argv[0]);
+    if (ESCALATORS.has(name)) {
+      privileged = true;
+      add('high', 'privilege', `Runs with elevated privileges (${name})`);
+      if (name === 'su') {
+        const command = argv.indexOf('-c');
+        if (command > 0 && argv[command + 1]) analyze(argv[command + 1], context, depth + 1);
+        return;
+      }
+    }
+    const wrapper = WRAPPERS[name];
+    if (!wrapper) break;
+    argv = unwrap(argv, wrapper);
+  }
+
+  const name = basename(argv[0]);
+  const args = argv.slice(1);
+  context.commands.push(name);
+
+  // Findings for the wrapped command are one level worse under sudo
+  const escalate = (riskLevel: RiskLevel): RiskLevel =>
+    privileged && riskLevel === 'high' ? 'critical' : riskLevel;
+  const flag = (riskLevel: RiskLevel, category: ShellFindingCategory, message: string) =>
+    add(escalate(riskLevel), category, message);
+
+  // A command name built at run time could be anything
+  if (/[$`]/.test(argv[0])) {
+    flag('high', 'opaque', `Runs a command whose name is only known at run time (${argv[0]})`);
+    return;
+  }
+
+  if (INTERPRETERS.test(name) || name === 'eval') {
+    const inline = args.findIndex((a) => /^-[a-z]*c[a-z]*$/i.test(a));
+    if (name === 'eval') {
+      flag('medium', 'destructive', 'Evaluates dynamically built code (eval)');
+      analyze(args.join(' '), context, depth + 1);
+    } else if (SHELLS.test(name) && inline >= 0 && args[inline + 1] !== undefined) {
+      analyze(args[inline + 1], context, depth + 1);
+    } else if (!(args.length === 0 && upstream && FETCHERS.has(programOf(upstream)))) {
+      // Script files, stdin and other languages' inline code; `curl … | sh`
+      // is reported as remote code instead
+      flag('high', 'opaque', `Runs code the analyzer cannot inspect (${[name, ...args.slice(0, 1)].join(' ')})`);
+    }
+    const fetched = cmd.words.some((w) => w.substitutions.some((s) => FETCHERS.has(firstProgram(s))));
+    if (fetched) flag('critical', 'remote_code', `Downloads and executes remote code (${name} "$(…)")`);
+  }
+
+  if (name === 'cd') {
+    context.cwd = resolvePath(args[0] ?? '~', context.cwd);
+    return;
+  }
+
+  if (name === 'find') {
+    // `-exec cmd {} ;` runs cmd for every match
+    args.forEach((arg, i) => {
+      if (!/^-(exec|execdir|ok|okdir)$/.test(arg)) return;
+      const end = args.findIndex((a, j) => j > i && (a === ';' || a === '+'));
+      const inner = args.slice(i + 1, end < 0 ? undefined : end);
+      if (inner.length > 0) analyze(inner.map(quote).join(' '), context, depth + 1);
+    });
+  }
+
+  checkDestructive(name, args, context, flag);
+  checkNetwork(name, args, cmd, downstream, flag);
+  checkFileWrites(name, args, context, flag);
+
+  if (!KNOWN_PROGRAMS.has(name) && !INTERPRETERS.test(name) && !DISK_TOOLS.test(name)) {
+    flag('high', 'opaque', `Runs a program the analyzer does not know (${name})`);
+  }
+}
+
+function unwrap(argv: string[], wrapper: { optionsWithValue: string[]; skipsOperand?: boolean }): string[] {
+  let i = 1;
+  while (i < argv.length) {
+    const word = argv[i];
+    if (wrapper.optionsWithValue.includes(word)) {
+      i += 2;
+    } else if (word.startsWith('-') || /^[A-Za-z_][A-Za-z0-9_]*=/.test(word)) {
+      i++;
+    } else {
+      break;
+    }
+  }
+  // `timeout 10 cmd`: the duration comes before the command
+  if (wrapper.skipsOperand) i++;
+  return argv.slice(i);
+}
+
+type Flag = (riskLevel: RiskLevel, category: ShellFindingCategory, message: string) => void;
+
+function checkDestructive(name: string, args: string[], context: Context, flag: Flag): void {
+  const options = args.filter((a) => a.startsWith('-'));
+  const operands = args.filter((a) => !a.startsWith('-'));
+  const hasShort = (letters: RegExp) => options.some((o) => !o.startsWith('--') && letters.test(o.slice(1)));
+
+  if (name === 'rm' || name === 'rmdir' || name === 'unlink') {
+    const recursive = name === 'rm' && (hasShort(/[rR]/) || options.includes('--recursive'));
+    const targets = operands.length > 0 ? operands.join(' ') : '(nothing)';
+    const catastrophic = recursive && operands.some((t) => isCatastrophicTarget(t, context));
+    if (catastrophic) {
+      flag('critical', 'destructive', `Recursively deletes ${targets}`);
+      return;
+    }
+    flag(recursive ? 'high' : 'medium', 'destructive', `${recursive ? 'Recursively deletes' : 'Deletes'} ${targets}`);
+    for (const target of operands) {
+      if (!isInside(resolvePath(target, context.cwd), context.workspace)) {
+        flag('high', 'outside_workspace', `Deletes ${target} outside the workspace`);
+      }
+    }
+  } else if (DISK_TOOLS.test(name)) {
+    flag('critical', 'destructive', `Formats or repartitions a disk (${name})`);
+  } else if (name === 'dd') {
+    const output = args.find((a) => a.startsWith('of='))?.slice(3);
+    if (output?.startsWith('/dev/') && !HARMLESS_TARGETS.test(output)) {
+      flag('critical', 'destructive', `Writes raw data to device ${output}`);
+    } else if (output) {
+      checkWrite(output, context, flag);
+    }
+  } else if (name === 'shred' || name === 'truncate') {
+    flag('high', 'destructive', `Destroys file contents (${name} ${operands.join(' ')})`);
+  } else if (POWER_COMMANDS.has(name) || (name === 'systemctl' && /^(poweroff|reboot|halt)$/.test(operands[0] ?? ''))) {
+    flag('critical', 'destructive', 'Shuts down or reboots the host');
+  } else if (name === 'kill' || name === 'killall' || name === 'pkill') {
+    flag('medium', 'destructive', `Terminates processes (${name})`);
+  } else if ((name === 'chmod' || name === 'chown' || name === 'chgrp') && (hasShort(/R/) || options.includes('--recursive'))) {
+    flag('high', 'destructive', `Recursively changes ownership or permissions (${name} ${operands.join(' ')})`);
+  } else if (name === 'find' && (args.includes('-delete') || args.some((a, i) => a === '-exec' && args[i + 1] === 'rm'))) {
+    flag('high', 'destructive', 'Deletes every file find matches');
+  } else if (name === 'crontab' && options.includes('-r')) {
+    flag('high', 'destructive', 'Removes the crontab');
+  } else if (name === 'git') {
+    checkGit(operands[0], args, flag);
+  }
+}
+
+function checkGit(subcommand: string | undefined, args: string[], flag: Flag): void {
+  const has = (...flags: string[]) => args.some((a) => flags.includes(a) || flags.some((f) => a.startsWith(f + '=')));
+  if (subcommand === 'push' && (has('--force', '-f', '--force-with-lease', '--mirror', '--delete') || args.some((a) => a.startsWith('+')))) {
+    flag('high', 'destructive', 'Force-pushes or deletes remote history (git push)');
+  } else if (subcommand === 'reset' && has('--hard')) {
+    flag('high', 'destructive', 'Discards uncommitted changes (git reset --hard)');
+  } else if (subcommand === 'clean' && args.some((a) => /^-[a-zA-Z]*f/.test(a) || a === '--force')) {
+    flag('high', 'destructive', 'Deletes untracked files (git clean)');
+  } else if (subcommand === 'branch' && has('-D')) {
+    flag('medium', 'destructive', 'Force-deletes a branch (git branch -D)');
+  }
+}
+
+function checkNetwork(name: string, args: string[], cmd: SimpleCommand, downstream: SimpleCommand[], flag: Flag): void {
+  const host = args.map(hostOf).find(Boolean);
+  const to = host ? ` to ${host}` : '';
+
+  if (FETCHERS.has(name)) {
+    const runner = cmd.pipesOut ? downstream.find((c) => INTERPRETERS.test(programOf(c))) : undefined;
+    if (runner) {
+      flag('critical', 'remote_code', `Downloads and executes remote code (${name} | ${programOf(runner)})`);
+    } else if (args.some((a) => /^(-d|-F|-T|--data.*|--form.*|--upload-file|--post-(data|file)|--json)$/.test(a) || /^-[dFT].+/.test(a))) {
+      flag('high', 'network', `Sends data${to} (${name})`);
+    } else {
+      flag('medium', 'network', `Network request${to} (${name})`);
+    }
+  } else if (RAW_NETWORK.has(name)) {
+    flag('high', 'network', `Opens a raw network connection${to} (${name})`);
+  } else if (REMOTE_SHELLS.has(name) && args.some((a) => /^[^-/][^\s]*[@:]/.test(a) || name === 'ssh')) {
+    flag('medium', 'network', `Connects to a remote host (${name})`);
+  }
+}
+
+function checkFileWrites(name: string, args: string[], context: Context, flag: Flag): void {
+  const operands = args.filter((a) => !a.startsWith('-'));
+  if (name === 'tee' || name === 'mkdir' || name === 'touch') {
+    for (const file of operands) checkWrite(file, context, flag);
+  } else if ((name === 'cp' || name === 'mv' || name === 'install' || name === 'ln') && operands.length >= 2) {
+    checkWrite(operands[operands.length - 1], context, flag);
+  }
+}
+
+function checkWrite(target: string, context: Context, flag: Flag): void {
+  if (HARMLESS_TARGETS.test(target) || /^\d+$|^-$/.test(target)) return;
+  const path = resolvePath(target, context.cwd);
+  if (isInside(path, context.workspace)) return;
+  const sensitive =
+    SENSITIVE_PATHS.some((p) => isInside(path, [p])) ||
+    SENSITIVE_HOME_PATHS.some((p) => isInside(path, [resolve(homedir(), p)]));
+  flag(sensitive ? 'critical' : 'high', 'outside_workspace', `Writes to ${target} outside the workspace`);
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function isCatastrophicTarget(target: string, context: Context): boolean {
+  if (/^(\*|\.\*|~\/?\*?|\$HOME\/?\*?|\/\*?)$/.test(target)) return true;
+  const path = resolvePath(target.replace(/\/\*$/, ''), context.cwd);
+  return path === '/' || path === homedir() || SENSITIVE_PATHS.includes(path) || context.workspace.includes(path);
+}
+
+function firstProgram(command: string): string {
+  try {
+    const [first] = parse(lex(command));
+    return first ? programOf(first) : '';
+  } catch {
+    return '';
+  }
+}
+
+/** Program a simple command runs, looking through wrappers such as sudo */
+function programOf(cmd: SimpleCommand): string {
+  let argv = cmd.words.map((w) => w.value).filter((w) => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(w));
+  while (argv.length > 0) {
+    const name = basename(argv[0]);
+    const wrapper = WRAPPERS[name] ?? (ESCALATORS.has(name) ? { optionsWithValue: [] } : undefined);
+    if (!wrapper) return name;
+    argv = unwrap(argv, wrapper);
+  }
+  return '';
+}
+
+function hostOf(arg: string): string | undefined {
+  const url = arg.match(/^[a-z][a-z0-9+.-]*:\/\/([^/:?#\s]+)/i);
+  if (url) return url[1];
+  const remote = arg.match(/^(?:[^@\s/]+@)?([a-z0-9.-]+\.[a-z]{2,}):/i);
+  return remote?.[1];
+}
+
+function expandPath(path: string): string {
+  return resolve(path === '~' || path.startsWith('~/') ? homedir() + path.slice(1) : path);
+}
+
+function resolvePath(path: string, cwd: string): string {
+  const expanded = path === '~' || path.startsWith('~/')
+    ? homedir() + path.slice(1)
+    : path.replace(/^\$HOME(?=\/|$)/, homedir());
+  return resolve(cwd, expanded);
+}
+
+function isInside(path: string, roots: string[]): boolean {
+  return roots.some((root) => path === root || path.startsWith(root.endsWith(sep) ? root : root + sep));
+}
+
+function quote(arg: string): string {
+  return /^[A-Za-z0-9_@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+function dedupe(findings: ShellFinding[]): ShellFinding[] {
+  const seen = new Set<string>();
+  return findings.filter((f) => {
+    const key = `${f.riskLevel}\u0000${f.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,194 @@
+/**
+ * openclaw-air-trust — SQLite Storage
+ *
+ * Ledger backend on an embedded SQLite database, using the `node:sqlite`
+ * module built into Node.js 22.5 and later. Every entry is kept (like
+ * JSONL segments, and unlike the single JSON document), indexed by
+ * sequence and timestamp so range scans and time-bounded queries don't
+ * read the whole ledger. Each insert is its own durable transaction.
+ *
+ * Schema:
+ *   entries(sequence INTEGER PRIMARY KEY, timestamp TEXT, record TEXT)
+ *   meta(key TEXT PRIMARY KEY, value TEXT)   checkpoints, key ring
+ *
+ * With a LedgerCipher `record` is an encrypted envelope; sequence and
+ * timestamp stay in clear so the indexes work.
+ */
+
+import { chmodSync, existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { encodeRecord, LedgerCipher, openRecord } from './ledger-cipher';
+import { AuditEntry, ChainCheckpoint, LedgerHead, LedgerStorage } from './types';
+
+/** Rows fetched per query while scanning */
+const SCAN_PAGE_SIZE = 500;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS entries (
+    sequence INTEGER PRIMARY KEY,
+    timestamp TEXT NOT NULL,
+    record TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS entries_timestamp ON entries (timestamp);
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+/** The subset of node:sqlite's DatabaseSync used here */
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+interface SqliteStatement {
+  run(...params: Array<string | number>): unknown;
+  get(...params: Array<string | number>): Record<string, unknown> | undefined;
+  all(...params: Array<string | number>): Record<string, unknown>[];
+}
+
+export interface SqliteStorageOptions {
+  /** Open the database read-only and never write */
+  readOnly?: boolean;
+  /** Encrypt each record at rest */
+  cipher?: LedgerCipher;
+}
+
+export class SqliteStorage implements LedgerStorage {
+  private db: SqliteDatabase;
+  private readOnly: boolean;
+  private cipher?: LedgerCipher;
+
+  constructor(path: string, options: SqliteStorageOptions = {}) {
+    this.readOnly = options.readOnly ?? false;
+    this.cipher = options.cipher;
+
+    const created = !existsSync(path);
+    if (created && this.readOnly) throw new Error(`No ledger database at ${path}`);
+    if (created && !existsSync(dirname(path))) mkdirSync(dirname(path), { recursive: true });
+
+    this.db = openDatabase(path, this.readOnly);
+    if (!this.readOnly) {
+      this.db.exec('PRAGMA journal_mode = WAL; PRAGMA synchronous = FULL;');
+      this.db.exec(SCHEMA);
+      // The database holds the signing key ring
+      if (created) chmodSync(path, 0o600);
+    }
+  }
+
+  load(limit: number): LedgerHead {
+    const rows = this.db
+      .prepare(
+        'SELECT record FROM (SELECT sequence, record FROM entries ORDER BY sequence DESC LIMIT ?) ORDER BY sequence'
+      )
+      .all(limit > 0 ? limit : -1);
+    const entries = rows.map((row) => this.decode(row));
+    const last = entries[entries.length - 1];
+    const checkpoints = this.getMeta('checkpoints');
+    return {
+      entries,
+      sequence: last?.sequence ?? 0,
+      lastHash: last?.hash,
+      checkpoints: checkpoints ? (JSON.parse(checkpoints) as ChainCheckpoint[]) : [],
+    };
+  }
+
+  /** Always current: other processes' inserts are visible to the next query */
+  head(): Pick<LedgerHead, 'sequence' | 'lastHash'> {
+    const row = this.db.prepare('SELECT record FROM entries ORDER BY sequence DESC LIMIT 1').get();
+    const last = row ? this.decode(row) : undefined;
+    return { sequence: last?.sequence ?? 0, lastHash: last?.hash };
+  }
+
+  append(entry: AuditEntry): void {
+    this.requireWritable();
+    this.db
+      .prepare('INSERT INTO entries (sequence, timestamp, record) VALUES (?, ?, ?)')
+      .run(entry.sequence, entry.timestamp, encodeRecord(entry, this.cipher));
+  }
+
+  /** Entries in the range, read a page at a time; `since` is applied in SQL */
+  *scan(fromSequence: number, toSequence: number = Infinity, since?: Date): Generator<AuditEntry> {
+    const to = Number.isFinite(toSequence) ? toSequence : Number.MAX_SAFE_INTEGER;
+    const statement = this.db.prepare(
+      'SELECT record FROM entries WHERE sequence >= ? AND sequence <= ? AND timestamp >= ? ORDER BY sequence LIMIT ?'
+    );
+    let from = fromSequence;
+    for (;;) {
+      const rows = statement.all(from, to, since ? since.toISOString() : '', SCAN_PAGE_SIZE);
+      for (const row of rows) {
+        const entry = this.decode(row);
+        yield entry;
+        from = entry.sequence + 1;
+      }
+      if (rows.length < SCAN_PAGE_SIZE) return;
+    }
+  }
+
+  saveCheckpoints(checkpoints: ChainCheckpoint[]): void {
+    this.setMeta('checkpoints', JSON.stringify(checkpoints));
+  }
+
+  dropThrough(sequence: number): void {
+    this.requireWritable();
+    // The newest entry stays: it is the chain head on restart
+    this.db
+      .prepare('DELETE FROM entries WHERE sequence <= ? AND sequence < (SELECT MAX(sequence) FROM entries)')
+      .run(sequence);
+  }
+
+  loadKeys(): string | undefined {
+    return this.getMeta('keyring');
+  }
+
+  saveKeys(data: string): void {
+    this.setMeta('keyring', data);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  // ─── Private ────────────────────────────────────────────────
+
+  private decode(row: Record<string, unknown>): AuditEntry {
+    return openRecord<AuditEntry>(JSON.parse(row.record as string), this.cipher);
+  }
+
+  private getMeta(key: string): string | undefined {
+    return this.db.prepare('SELECT value FROM meta WHERE key = ?').get(key)?.value as string | undefined;
+  }
+
+  private setMeta(key: string, value: string): void {
+    this.requireWritable();
+    this.db
+      .prepare('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value')
+      .run(key, value);
+  }
+
+  private requireWritable(): void {
+    if (this.readOnly) throw new Error('SqliteStorage is read-only');
+  }
+}
+
+/** Whether this Node.js runtime ships node:sqlite */
+export function sqliteAvailable(): boolean {
+  try {
+    require('node:sqlite');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function openDatabase(path: string, readOnly: boolean): SqliteDatabase {
+  let sqlite: { DatabaseSync: new (path: string, options?: { readOnly?: boolean }) => SqliteDatabase };
+  try {
+    sqlite = require('node:sqlite');
+  } catch {
+    throw new Error(`SQLite ledger storage needs Node.js 22.5 or later (running ${process.version})`);
+  }
+  return new sqlite.DatabaseSync(path, { readOnly });
+}
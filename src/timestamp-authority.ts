@@ -0,0 +1,288 @@
+/**
+ * openclaw-air-trust — Timestamp Authority client
+ *
+ * RFC 3161 trusted timestamping. The ledger periodically sends the
+ * hash of its chain head to a Time-Stamp Authority and stores the
+ * signed token it returns, so a third party can confirm that every
+ * entry up to that point existed no later than the TSA's clock says —
+ * independently of the clock on the machine that wrote the ledger.
+ *
+ * Entry hashes are SHA-256 digests already, so the head hash is sent
+ * as the message imprint as-is. Tokens are CMS SignedData; verification
+ * checks the imprint, the CMS signature and, when trusted TSA
+ * certificates are configured, the signer's certificate chain.
+ */
+
+import { constants, createHash, randomBytes, verify as verifySignature, X509Certificate } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import {
+  Asn1Node,
+  boolean,
+  children,
+  decode,
+  expectTag,
+  integer,
+  nullValue,
+  octetString,
+  oid,
+  readIntegerHex,
+  readOid,
+  readTime,
+  sequence,
+  TAG,
+} from './asn1';
+
+export const OID = {
+  SHA256: '2.16.840.1.101.3.4.2.1',
+  SIGNED_DATA: '1.2.840.113549.1.7.2',
+  TST_INFO: '1.2.840.113549.1.9.16.1.4',
+  CONTENT_TYPE: '1.2.840.113549.1.9.3',
+  MESSAGE_DIGEST: '1.2.840.113549.1.9.4',
+  RSA_PSS: '1.2.840.113549.1.1.10',
+  TIME_STAMPING: '1.3.6.1.5.5.7.3.8',
+} as const;
+
+const DIGEST_NAMES: Record<string, string> = {
+  '1.3.14.3.2.26': 'sha1',
+  [OID.SHA256]: 'sha256',
+  '2.16.840.1.101.3.4.2.2': 'sha384',
+  '2.16.840.1.101.3.4.2.3': 'sha512',
+};
+
+/** PKIStatus values that carry a token */
+const GRANTED = new Set(['00', '01']);
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 10_000;
+
+/** What a time-stamp token attests, as recorded in anchor entries */
+export interface TimestampInfo {
+  /** ISO time the TSA vouches for */
+  genTime: string;
+  /** Token serial number (hex) */
+  serialNumber: string;
+  /** TSA policy OID */
+  policy: string;
+}
+
+export interface TimestampVerification {
+  valid: boolean;
+  /**
+   * The signature verified, but only against a certificate carried in
+   * the token itself: no trust anchor was given, so anyone could have
+   * made it
+   */
+  untrusted?: boolean;
+  reason?: string;
+  info?: TimestampInfo;
+}
+
+interface ParsedToken {
+  info: TimestampInfo;
+  imprintAlgorithm: string;
+  imprint: Buffer;
+  nonce?: string;
+  /** DER TSTInfo — the signed content */
+  content: Buffer;
+  certificates: X509Certificate[];
+  digestAlgorithm: string;
+  signatureAlgorithm: string;
+  messageDigest?: Buffer;
+  /** signedAttrs re-encoded as a SET, which is what the signature covers */
+  signedAttributes: Buffer;
+  signature: Buffer;
+}
+
+/**
+ * Ask the TSA at `url` to timestamp a SHA-256 digest. Resolves with the
+ * DER time-stamp token once its nonce, imprint and signature check out
+ * (and its certificate chain, when `trusted` certificates are given).
+ */
+export async function requestTimestamp(
+  url: string,
+  digest: Buffer,
+  options: { trusted?: X509Certificate[]; timeoutMs?: number } = {}
+): Promise<{ token: Buffer; info: TimestampInfo }> {
+  const nonce = randomBytes(8);
+  const request = sequence(
+    integer(1),
+    sequence(sequence(oid(OID.SHA256), nullValue()), octetString(digest)),
+    integer(nonce),
+    boolean(true) // certReq: include the signing certificate
+  );
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/timestamp-query' },
+    body: request,
+    signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS),
+  });
+  const body = Buffer.from(await response.arrayBuffer());
+  if (!response.ok) throw new Error(`Time-stamp authority responded ${response.status}`);
+
+  const [status, token] = children(expectTag(decode(body), TAG.SEQUENCE, 'time-stamp response'));
+  const [code] = children(expectTag(status, TAG.SEQUENCE, 'time-stamp status'));
+  const statusHex = readIntegerHex(expectTag(code, TAG.INTEGER, 'time-stamp status'));
+  if (!GRANTED.has(statusHex) || !token) {
+    throw new Error(`Time-stamp request rejected with status ${parseInt(statusHex, 16)}`);
+  }
+
+  const parsed = parseToken(token.raw);
+  if (parsed.nonce !== readIntegerHex(decode(integer(nonce)))) {
+    throw new Error('Time-stamp response nonce does not match the request');
+  }
+  const verification = verifyTimestampToken(token.raw, digest, options.trusted);
+  if (!verification.valid) throw new Error(`Invalid time-stamp token: ${verification.reason}`);
+  return { token: Buffer.from(token.raw), info: parsed.info };
+}
+
+/**
+ * Check that a time-stamp token covers `digest` and carries a valid
+ * signature. With `trusted` certificates, the signer must also be one
+ * of them or chain up to one through certificates in the token, be
+ * valid at the token's time and (if it says) be meant for timestamping.
+ * Without them, a token that verifies is reported as `untrusted`.
+ */
+export function verifyTimestampToken(
+  token: Buffer,
+  digest: Buffer,
+  trusted: X509Certificate[] = []
+): TimestampVerification {
+  let parsed: ParsedToken;
+  try {
+    parsed = parseToken(token);
+  } catch (err) {
+    return { valid: false, reason: (err as Error).message };
+  }
+  const { info } = parsed;
+  const invalid = (reason: string): TimestampVerification => ({ valid: false, reason, info });
+
+  if (parsed.imprintAlgorithm !== OID.SHA256 || !parsed.imprint.equals(digest)) {
+    return invalid('Token does not cover the anchored hash');
+  }
+  const digestName = DIGEST_NAMES[parsed.digestAlgorithm];
+  if (!digestName) return invalid(`Unsupported digest algorithm ${parsed.digestAlgorithm}`);
+  if (!parsed.messageDigest?.equals(createHash(digestName).update(parsed.content).digest())) {
+    return invalid('Signed message digest does not match the token content');
+  }
+
+  const signer = [...parsed.certificates, ...trusted].find((cert) =>
+    signatureMatches(parsed, digestName, cert)
+  );
+  if (!signer) return invalid('Signature does not verify against any certificate');
+
+  if (trusted.length === 0) return { valid: true, untrusted: true, info };
+  const reason = untrustedReason(signer, parsed.certificates, trusted, new Date(info.genTime));
+  if (reason) return invalid(reason);
+  return { valid: true, info };
+}
+
+/** Read certificates given as PEM text or paths to PEM files */
+export function loadCertificates(sources: string[] = []): X509Certificate[] {
+  return sources.flatMap((source) => {
+    const pem = source.includes('-----BEGIN') || !existsSync(source) ? source : readFileSync(source, 'utf-8');
+    return (pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) ?? []).map(
+      (block) => new X509Certificate(block)
+    );
+  });
+}
+
+// ─── Private ────────────────────────────────────────────────
+
+function parseToken(token: Buffer): ParsedToken {
+  const [contentType, wrapped] = children(expectTag(decode(token), TAG.SEQUENCE, 'time-stamp token'));
+  if (readOid(expectTag(contentType, TAG.OID, 'time-stamp token')) !== OID.SIGNED_DATA) {
+    throw new Error('Time-stamp token is not CMS SignedData');
+  }
+  const signedData = children(expectTag(children(expectTag(wrapped, 0xa0, 'SignedData'))[0], TAG.SEQUENCE, 'SignedData'));
+
+  const [eContentType, eContentWrapper] = children(expectTag(signedData[2], TAG.SEQUENCE, 'encapsulated content'));
+  if (readOid(eContentType) !== OID.TST_INFO) throw new Error('Time-stamp token does not hold TSTInfo');
+  const content = expectTag(children(expectTag(eContentWrapper, 0xa0, 'TSTInfo'))[0], TAG.OCTET_STRING, 'TSTInfo').content;
+
+  // certificates [0] and crls [1] are optional; signerInfos is the last element
+  const certificates = signedData
+    .filter((node) => node.tag === 0xa0)
+    .flatMap((node) => children(node))
+    .filter((node) => node.tag === TAG.SEQUENCE)
+    .map((node) => new X509Certificate(node.raw));
+  const signerInfos = children(expectTag(signedData[signedData.length - 1], TAG.SET, 'signerInfos'));
+  const signerInfo = children(expectTag(signerInfos[0], TAG.SEQUENCE, 'SignerInfo'));
+
+  const [, , digestAlg, signedAttrs, signatureAlg, signature] = signerInfo;
+  expectTag(signedAttrs, 0xa0, 'signed attributes');
+  let messageDigest: Buffer | undefined;
+  for (const attribute of children(signedAttrs)) {
+    const [type, values] = children(attribute);
+    if (readOid(type) === OID.MESSAGE_DIGEST) messageDigest = children(values)[0].content;
+  }
+
+  const tstInfo = children(expectTag(decode(content), TAG.SEQUENCE, 'TSTInfo'));
+  const [, policy, imprint, serial, genTime, ...optional] = tstInfo;
+  const [imprintAlg, hashed] = children(expectTag(imprint, TAG.SEQUENCE, 'message imprint'));
+  const nonce = optional.find((node) => node.tag === TAG.INTEGER);
+
+  return {
+    info: {
+      genTime: readTime(expectTag(genTime, TAG.GENERALIZED_TIME, 'genTime')).toISOString(),
+      serialNumber: readIntegerHex(serial),
+      policy: readOid(policy),
+    },
+    imprintAlgorithm: algorithmOid(imprintAlg),
+    imprint: hashed.content,
+    ...(nonce ? { nonce: readIntegerHex(nonce) } : {}),
+    content,
+    certificates,
+    digestAlgorithm: algorithmOid(digestAlg),
+    signatureAlgorithm: algorithmOid(signatureAlg),
+    messageDigest,
+    signedAttributes: Buffer.concat([Buffer.from([TAG.SET]), signedAttrs.raw.subarray(1)]),
+    signature: expectTag(signature, TAG.OCTET_STRING, 'signature').content,
+  };
+}
+
+function algorithmOid(node: Asn1Node): string {
+  return readOid(children(expectTag(node, TAG.SEQUENCE, 'algorithm identifier'))[0]);
+}
+
+function signatureMatches(parsed: ParsedToken, digestName: string, cert: X509Certificate): boolean {
+  const key = cert.publicKey;
+  const type = key.asymmetricKeyType;
+  const algorithm = type === 'ed25519' || type === 'ed448' ? null : digestName;
+  const keyInput =
+    parsed.signatureAlgorithm === OID.RSA_PSS
+      ? { key, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_AUTO }
+      : key;
+  try {
+    return verifySignature(algorithm, parsed.signedAttributes, keyInput, parsed.signature);
+  } catch {
+    return false;
+  }
+}
+
+/** Why `signer` is not trusted at `at`, or undefined when it is */
+function untrustedReason(
+  signer: X509Certificate,
+  intermediates: X509Certificate[],
+  trusted: X509Certificate[],
+  at: Date
+): string | undefined {
+  if (Date.parse(signer.validFrom) > at.getTime() || Date.parse(signer.validTo) < at.getTime()) {
+    return 'TSA certificate was not valid at the time-stamp time';
+  }
+  if (signer.keyUsage && !signer.keyUsage.includes(OID.TIME_STAMPING)) {
+    return 'TSA certificate is not meant for timestamping';
+  }
+
+  let current = signer;
+  for (let depth = 0; depth < 8; depth++) {
+    if (trusted.some((t) => t.fingerprint256 === current.fingerprint256)) return undefined;
+    const anchor = trusted.find((t) => current.checkIssued(t) && current.verify(t.publicKey));
+    if (anchor) return undefined;
+    const issuer = intermediates.find(
+      (c) => c !== current && current.checkIssued(c) && current.verify(c.publicKey)
+    );
+    if (!issuer) break;
+    current = issuer;
+  }
+  return 'TSA certificate does not chain to a trusted certificate';
+}
@@ -0,0 +1,187 @@
+/**
+ * openclaw-air-trust — Tool Risk Registry
+ *
+ * Declared risk metadata for tools: risk level, side-effect category,
+ * whether the effect is reversible and whether data can leave the host.
+ * Entries come from three tiers, checked in order:
+ *
+ * 1. config — `consentGate.tools`, so operators have the last word
+ * 2. registered — register() at runtime, for tool authors
+ * 3. builtin — defaults for common tool names
+ *
+ * Names match case-insensitively, and camelCase or dashed names also
+ * match as `_`-separated words (`RunShell` as `run_shell`). Within a tier
+ * an exact name beats a glob, and otherwise the first matching entry
+ * wins. Tools nothing matches get the configured default. explain()
+ * reports which entry produced a classification.
+ */
+
+import { matchesGlob } from './consent-policy';
+import { RiskExplanation, RiskLevel, RISK_ORDER, ToolRiskEntry, ToolRiskSource } from './types';
+
+/**
+ * Built-in classifications. Compound names are matched by whole
+ * `_`-separated words (`run_shell_command`, `my_deploy_tool`), never by
+ * substring, so `transform_data` is not mistaken for `rm`.
+ */
+export const BUILTIN_TOOL_RISKS: ToolRiskEntry[] = [
+  // Critical — arbitrary code execution
+  ...word('exec', { riskLevel: 'critical', sideEffect: 'execute', reversible: false, shellCommand: true }),
+  ...word('execute', { riskLevel: 'critical', sideEffect: 'execute', reversible: false, shellCommand: true }),
+  ...word('spawn', { riskLevel: 'critical', sideEffect: 'execute', reversible: false, shellCommand: true }),
+  ...word('shell', { riskLevel: 'critical', sideEffect: 'execute', reversible: false, shellCommand: true }),
+  ...word('sh', { riskLevel: 'critical', sideEffect: 'execute', reversible: false, shellCommand: true }),
+  ...word('bash', { riskLevel: 'critical', sideEffect: 'execute', reversible: false, shellCommand: true }),
+  { pattern: 'run_command', riskLevel: 'critical', sideEffect: 'execute', reversible: false, shellCommand: true },
+
+  // High — filesystem writes, destructive actions
+  { pattern: 'fs_write', riskLevel: 'high', sideEffect: 'write' },
+  { pattern: 'file_write', riskLevel: 'high', sideEffect: 'write' },
+  { pattern: 'apply_patch', riskLevel: 'high', sideEffect: 'write', reversible: true },
+  { pattern: 'fs_delete', riskLevel: 'high', sideEffect: 'delete', reversible: false },
+  { pattern: 'file_delete', riskLevel: 'high', sideEffect: 'delete', reversible: false },
+  { pattern: 'git_push', riskLevel: 'high', sideEffect: 'network', dataEgress: true },
+  ...word('rm', { riskLevel: 'high', sideEffect: 'delete', reversible: false }),
+  ...word('rmdir', { riskLevel: 'high', sideEffect: 'delete', reversible: false }),
+  ...word('delete', { riskLevel: 'high', sideEffect: 'delete', reversible: false }),
+  ...word('remove', { riskLevel: 'high', sideEffect: 'delete', reversible: false }),
+  ...word('write', { riskLevel: 'high', sideEffect: 'write' }),
+  ...word('push', { riskLevel: 'high', sideEffect: 'network', dataEgress: true }),
+  ...word('deploy', { riskLevel: 'high', sideEffect: 'deploy' }),
+
+  // Medium — communication, network
+  { pattern: 'send_email', riskLevel: 'medium', sideEffect: 'communication', reversible: false, dataEgress: true },
+  { pattern: 'email_send', riskLevel: 'medium', sideEffect: 'communication', reversible: false, dataEgress: true },
+  { pattern: 'sessions_send', riskLevel: 'medium', sideEffect: 'communication', reversible: false, dataEgress: true },
+  { pattern: 'slack_send', riskLevel: 'medium', sideEffect: 'communication', reversible: false, dataEgress: true },
+  { pattern: 'http_request', riskLevel: 'medium', sideEffect: 'network', dataEgress: true },
+  { pattern: 'api_call', riskLevel: 'medium', sideEffect: 'network', dataEgress: true },
+
+  // Low — reads, queries
+  { pattern: 'fs_read', riskLevel: 'low', sideEffect: 'read', reversible: true },
+  { pattern: 'file_read', riskLevel: 'low', sideEffect: 'read', reversible: true },
+  { pattern: 'search', riskLevel: 'low', sideEffect: 'read', reversible: true },
+  { pattern: 'query', riskLevel: 'low', sideEffect: 'read', reversible: true },
+];
+
+const SOURCE_LABELS: Record<ToolRiskSource, string> = {
+  config: 'in config',
+  registered: 'by registration',
+  builtin: 'in the built-in registry',
+  default: 'by default',
+};
+
+export class ToolRiskRegistry {
+  private config: ToolRiskEntry[];
+  private registered: ToolRiskEntry[] = [];
+  private defaultRiskLevel: RiskLevel;
+
+  /** Throws if an entry is malformed */
+  constructor(options: { tools?: ToolRiskEntry[]; defaultRiskLevel?: RiskLevel } = {}) {
+    this.config = (options.tools ?? []).map(validate);
+    this.defaultRiskLevel = options.defaultRiskLevel ?? 'low';
+    if (!Object.hasOwn(RISK_ORDER, this.defaultRiskLevel)) {
+      throw new Error(`Unknown default risk level "${this.defaultRiskLevel}"`);
+    }
+  }
+
+  /**
+   * Declare a tool's risk at runtime. Replaces an earlier registration
+   * with the same pattern; `consentGate.tools` still takes precedence.
+   */
+  register(entry: ToolRiskEntry): void {
+    const valid = validate(entry);
+    this.registered = this.registered.filter((e) => e.pattern !== valid.pattern);
+    this.registered.push(valid);
+  }
+
+  /** Remove a runtime registration; returns false if there was none */
+  unregister(pattern: string): boolean {
+    const before = this.registered.length;
+    this.registered = this.registered.filter((e) => e.pattern !== pattern);
+    return this.registered.length < before;
+  }
+
+  /** The entry a tool name resolves to, if any */
+  lookup(toolName: string): { entry: ToolRiskEntry; source: ToolRiskSource } | undefined {
+    const names = nameForms(toolName);
+    const tiers: Array<[ToolRiskSource, ToolRiskEntry[]]> = [
+      ['config', this.config],
+      ['registered', this.registered],
+      ['builtin', BUILTIN_TOOL_RISKS],
+    ];
+    for (const [source, entries] of tiers) {
+      const entry =
+        entries.find((e) => names.includes(e.pattern.toLowerCase())) ??
+        entries.find((e) => isGlob(e.pattern) && names.some((name) => matchesGlob(e.pattern.toLowerCase(), name)));
+      if (entry) return { entry, source };
+    }
+    return undefined;
+  }
+
+  classify(toolName: string): RiskLevel {
+    return this.lookup(toolName)?.entry.riskLevel ?? this.defaultRiskLevel;
+  }
+
+  /** How a tool name was classified, and by which entry */
+  explain(toolName: string): RiskExplanation {
+    const match = this.lookup(toolName);
+    if (!match) {
+      return {
+        toolName,
+        riskLevel: this.defaultRiskLevel,
+        source: 'default',
+        reason: `No registry entry matches "${toolName}"; using the default (${this.defaultRiskLevel})`,
+      };
+    }
+    const { entry, source } = match;
+    const how = nameForms(toolName).includes(entry.pattern.toLowerCase()) ? 'declared' : `matched pattern "${entry.pattern}"`;
+    const where = SOURCE_LABELS[source];
+    return {
+      toolName,
+      riskLevel: entry.riskLevel,
+      source,
+      entry: { ...entry },
+      reason: `"${toolName}" ${how} ${where} (${entry.riskLevel})`,
+    };
+  }
+
+  /** Every entry, in lookup order */
+  entries(): Array<ToolRiskEntry & { source: ToolRiskSource }> {
+    return [
+      ...this.config.map((e) => ({ ...e, source: 'config' as const })),
+      ...this.registered.map((e) => ({ ...e, source: 'registered' as const })),
+      ...BUILTIN_TOOL_RISKS.map((e) => ({ ...e, source: 'builtin' as const })),
+    ];
+  }
+}
+
+// ─── Private ────────────────────────────────────────────────
+
+/** Entries for a name used alone or as a whole word of a compound name */
+function word(name: string, profile: Omit<ToolRiskEntry, 'pattern'>): ToolRiskEntry[] {
+  return [name, `${name}_*`, `*_${name}`, `*_${name}_*`].map((pattern) => ({ pattern, ...profile }));
+}
+
+/** The lower-cased name, and its `_`-separated words if they differ */
+function nameForms(toolName: string): string[] {
+  const lower = toolName.toLowerCase();
+  const words = toolName
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1_$2')
+    .replace(/[-.\s]+/g, '_')
+    .toLowerCase();
+  return words === lower ? [lower] : [lower, words];
+}
+
+function isGlob(pattern: string): boolean {
+  return pattern.includes('*') || pattern.includes('?');
+}
+
+function validate(entry: ToolRiskEntry): ToolRiskEntry {
+  if (!entry.pattern) throw new Error('Tool risk entry without a pattern');
+  if (!Object.hasOwn(RISK_ORDER, entry.riskLevel)) {
+    throw new Error(`Invalid tool risk entry "${entry.pattern}": unknown risk level "${entry.riskLevel}"`);
+  }
+  return { ...entry };
+}
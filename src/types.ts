@@ -29,6 +29,9 @@ export interface AirTrustConfig {
 
   /** Injection detection settings */
   injectionDetection: InjectionDetectionConfig;
+
+  /** Alerts to humans outside the chat (off when unset) */
+  alerting?: AlertingConfig;
 }
 
 export interface ConsentGateConfig {
@@ -41,6 +44,125 @@ export interface ConsentGateConfig {
   timeoutMs: number;
   /** Risk levels that trigger consent */
   riskThreshold: RiskLevel;
+  /**
+   * Shared file where pending requests are published and out-of-band
+   * decisions (e.g. from the air-trust CLI) are picked up
+   */
+  queuePath?: string;
+  /**
+   * Rules evaluated in order before the tool-name lists; the first that
+   * matches decides. Calls no rule matches fall back to
+   * neverRequire/alwaysRequire/riskThreshold
+   */
+  policy?: PolicyRule[];
+  /**
+   * Directories shell commands may write to without a finding, for
+   * exec-style tools (default: the working directory and the OS temp dir)
+   */
+  workspace?: string[];
+  /**
+   * Tool risk declarations, checked before tools registered at runtime
+   * and the built-in defaults (see ToolRiskRegistry)
+   */
+  tools?: ToolRiskEntry[];
+  /** Risk level of tools no registry entry matches (default: 'low') */
+  defaultRiskLevel?: RiskLevel;
+  /** Standing approvals created by replies like `approve <id> tool for 30m` */
+  grants?: ConsentGrantConfig;
+  /** Calls that need more than one person to approve them */
+  quorum?: QuorumConfig;
+}
+
+/**
+ * Number of distinct approvers a consent request needs (default 1).
+ * A tool entry takes precedence over the risk level; any rejection
+ * vetoes the call.
+ */
+export interface QuorumConfig {
+  riskLevels?: Partial<Record<RiskLevel, number>>;
+  /** Tool name or glob → approvals */
+  tools?: Record<string, number>;
+}
+
+export interface ConsentGrantConfig {
+  /** Lifetime of a grant when the reply gives none (default: 30 minutes) */
+  defaultTtlMs?: number;
+  /** Upper bound on any grant's lifetime (default: 24 hours) */
+  maxTtlMs?: number;
+  /** Scopes replies may ask for (default: all); others approve just the one call */
+  scopes?: GrantScope[];
+}
+
+/** What a policy rule does with a matching call */
+export type PolicyOutcome = 'allow' | 'require_consent' | 'deny';
+
+/** A consent policy rule. Every condition given must hold for it to match. */
+export interface PolicyRule {
+  /** Recorded on the ledger entries of calls it decides */
+  id: string;
+  /** Tool name globs (`*` any characters, `?` one character) */
+  tools?: string[];
+  /** Conditions on argument values, keyed by dotted path into the args */
+  args?: Record<string, ArgCondition>;
+  /** Session ID globs */
+  sessions?: string[];
+  /** When the rule applies */
+  time?: PolicyTimeWindow;
+  outcome: PolicyOutcome;
+  /** Risk level recorded for matching calls (default: the tool's classification) */
+  riskLevel?: RiskLevel;
+  /** Shown in consent requests and block reasons */
+  reason?: string;
+  /** Distinct approvers a `require_consent` outcome needs (overrides `quorum`) */
+  approvals?: number;
+}
+
+/**
+ * Condition on one argument. All fields given must hold; for array
+ * arguments, any element may satisfy the condition.
+ */
+export interface ArgCondition {
+  /** Argument present (true) or absent (false) */
+  exists?: boolean;
+  equals?: string | number | boolean;
+  oneOf?: Array<string | number | boolean>;
+  /** Regular expression the string value must match */
+  matches?: string;
+  /** Path at or under one of these directories (`~` is the home directory) */
+  pathPrefix?: string[];
+  /** Numeric bounds, inclusive */
+  min?: number;
+  max?: number;
+}
+
+/** Time-of-day window, e.g. `{ from: '18:00', to: '08:00' }` for nights */
+export interface PolicyTimeWindow {
+  /** HH:MM, inclusive */
+  from: string;
+  /** HH:MM, exclusive; earlier than `from` wraps past midnight */
+  to: string;
+  /** Days of the week, 0 = Sunday (default every day) */
+  days?: number[];
+  /** IANA time zone (default the host's) */
+  timezone?: string;
+}
+
+/** How the consent gate will treat a tool call */
+export interface ConsentDecision {
+  outcome: PolicyOutcome;
+  riskLevel: RiskLevel;
+  /** ID of the policy rule that decided; absent when decided by tool name */
+  rule?: string;
+  reason: string;
+  /** What the shell analyzer found in an exec-style call's command */
+  findings?: string[];
+  /** Distinct approvers a `require_consent` outcome needs, when more than one */
+  requiredApprovals?: number;
+  /**
+   * Digest of the evaluated arguments for a `require_consent` outcome,
+   * which `call` grants match on (the gate may see tokenized arguments)
+   */
+  argsDigest?: string;
 }
 
 export interface AuditLedgerConfig {
@@ -51,6 +173,177 @@ export interface AuditLedgerConfig {
   forwardToGateway: boolean;
   /** Maximum entries to keep in memory */
   maxEntries: number;
+  /**
+   * Storage backend. 'json' rewrites a single document on every append;
+   * 'jsonl' appends fsync'd lines to rotating segment files; 'sqlite'
+   * keeps entries in an embedded database (`<ledger>.sqlite`, needs
+   * Node.js 22.5+); 'memory' never touches disk. A LedgerStorage
+   * instance plugs in a custom backend (default 'json')
+   */
+  storage?: 'memory' | 'json' | 'jsonl' | 'sqlite' | LedgerStorage;
+  /** Rotate the active JSONL segment once it reaches this size in bytes */
+  segmentMaxBytes?: number;
+  /** Rotate the active JSONL segment once it is older than this (ms) */
+  segmentMaxAgeMs?: number;
+  /**
+   * Signature scheme for new entries. 'hmac-sha256' uses a local shared
+   * secret; 'ed25519' signs with a private key so the chain can be
+   * verified with only the public key (default 'hmac-sha256')
+   */
+  signing?: SignatureAlgorithm;
+  /**
+   * Open an existing ledger for inspection only: no key material is
+   * generated, nothing is written and append() throws
+   */
+  readOnly?: boolean;
+  /**
+   * Delivery settings for forwarded entries. Entries are queued in
+   * `<ledger>.outbox.jsonl` and sent to the gateway in batches
+   */
+  outbox?: GatewayOutboxConfig;
+  /**
+   * Encrypt stored records with AES-256-GCM. Hashes and signatures are
+   * still computed over plaintext, so verification is unchanged
+   */
+  encryption?: LedgerEncryptionConfig;
+  /**
+   * Move old entries into sealed gzip archives (`<ledger>.archives/`)
+   * and dispose of archives past their retention window
+   */
+  retention?: RetentionConfig;
+  /**
+   * Keep a Merkle tree over entry hashes and publish signed tree heads,
+   * so single entries can be proven without sharing the whole chain
+   */
+  merkle?: MerkleConfig;
+  /**
+   * Periodically anchor the chain head with an RFC 3161 Time-Stamp
+   * Authority, recording each token in a `timestamp_anchor` entry
+   */
+  timestamping?: TimestampingConfig;
+  /**
+   * Cross-process locking for ledgers shared by several processes.
+   * Writes take `<ledger>.lock` and first catch up with entries other
+   * processes appended. On by default for file-backed storage; `false`
+   * turns it off (single-writer deployments)
+   */
+  locking?: LockingConfig | false;
+  /**
+   * What `tool_result` entries record about each tool's output. By
+   * default only its size and SHA-256 digest
+   */
+  resultCapture?: ResultCaptureConfig;
+}
+
+/**
+ * How much of a tool result goes into the ledger:
+ * - none: size and status only
+ * - digest: plus the SHA-256 digest of the result
+ * - preview: plus the start of the result, tokenized by the DataVault
+ * - full: plus the whole result, tokenized by the DataVault
+ */
+export type ResultCaptureMode = 'none' | 'digest' | 'preview' | 'full';
+
+/** Tool result capture policy */
+export interface ResultCaptureConfig {
+  /** Mode for tools not listed in `tools` (default 'digest') */
+  default?: ResultCaptureMode;
+  /** Per-tool modes by tool name */
+  tools?: Record<string, ResultCaptureMode>;
+  /** Characters kept by 'preview' (default 200) */
+  previewLength?: number;
+}
+
+/** Cross-process lock settings */
+export interface LockingConfig {
+  /** Give up waiting for the lock after this many ms (default 10s) */
+  timeoutMs?: number;
+  /** Treat a lock held longer than this as abandoned (default 60s) */
+  staleMs?: number;
+}
+
+/** RFC 3161 anchoring of the chain head */
+export interface TimestampingConfig {
+  /** Time-Stamp Authority endpoint */
+  url: string;
+  /** Anchor the head this often in ms, when entries were added since (default 1h) */
+  intervalMs?: number;
+  /**
+   * TSA certificates (or their issuers) to trust, as PEM text or PEM
+   * file paths. Without them tokens are checked for integrity only
+   */
+  trustedCertificates?: string[];
+  /** Abort a request that has not completed after this many ms (default 10s) */
+  requestTimeoutMs?: number;
+}
+
+/** Anchoring health, as reported by getAuditStats() */
+export interface TimestampingStats {
+  /** Chain head sequence covered by the latest token */
+  anchoredSequence?: number;
+  /** TSA time of the latest token */
+  lastAnchorAt?: string;
+  /** Error from the last failed attempt, cleared on success */
+  lastError?: string;
+}
+
+/** Merkle tree over the ledger, for per-entry inclusion proofs */
+export interface MerkleConfig {
+  /** Append a signed `tree_head` entry after this many new entries (default 1000) */
+  treeHeadInterval?: number;
+}
+
+/** When entries leave the live ledger, and when archives are disposed of */
+export interface RetentionConfig {
+  /** Archive entries older than this many ms */
+  archiveAfterMs?: number;
+  /** Archive the oldest entries once the live ledger holds more than this */
+  maxLiveEntries?: number;
+  /** Purge archives whose newest entry is older than this many ms */
+  archiveRetentionMs?: number;
+}
+
+/** Where the ledger's at-rest encryption key comes from */
+export interface LedgerEncryptionConfig {
+  /** Environment variable holding the key (64 hex chars or base64); takes precedence */
+  keyEnv?: string;
+  /** File holding the key, generated on first use (default `<ledger>.enc.key`) */
+  keyFile?: string;
+}
+
+/** Batching and retry settings for a durable gateway outbox */
+export interface GatewayOutboxConfig {
+  /** Maximum items per request (default 100) */
+  batchSize?: number;
+  /** Delay before sending a partial batch in ms (default 1000) */
+  flushIntervalMs?: number;
+  /** First retry delay after a failed send in ms (default 1000) */
+  initialBackoffMs?: number;
+  /** Upper bound on the retry delay in ms (default 5 minutes) */
+  maxBackoffMs?: number;
+  /** Abort a request that has not completed after this many ms (default 10s) */
+  requestTimeoutMs?: number;
+}
+
+/** Forwarding health, as reported by getAuditStats() */
+export interface OutboxStats {
+  /** Items queued and not yet acknowledged */
+  pending: number;
+  /** Items acknowledged by the gateway since startup */
+  sent: number;
+  /** Highest sequence the gateway has acknowledged (ledger outboxes) */
+  ackedSequence: number;
+  /** Failed sends since the last success */
+  consecutiveFailures: number;
+  lastError?: string;
+  /** ISO timestamp of the last acknowledged batch */
+  lastSuccessAt?: string;
+  /** ISO timestamp of the next retry while backing off */
+  nextRetryAt?: string;
+  /** Age of the oldest unacknowledged item in ms */
+  oldestPendingAgeMs?: number;
+  /** False while sends are failing */
+  healthy: boolean;
 }
 
 export interface VaultConfig {
@@ -63,6 +356,10 @@ export interface VaultConfig {
   forwardToGateway: boolean;
   /** TTL in ms for stored tokens (default 24h) */
   ttlMs: number;
+  /** File that queues token metadata until the gateway acknowledges it (in memory when unset) */
+  outboxPath?: string;
+  /** Batching and retry settings for forwarded tokens */
+  outbox?: GatewayOutboxConfig;
 }
 
 export interface InjectionDetectionConfig {
@@ -75,6 +372,50 @@ export interface InjectionDetectionConfig {
   logDetections: boolean;
 }
 
+export interface AlertingConfig {
+  enabled: boolean;
+  /** Conditions that raise an alert (default DEFAULT_ALERT_RULES) */
+  rules?: AlertRule[];
+  /** Where alerts are sent */
+  sinks: AlertSinkConfig[];
+  /** Suppress repeats of an alert for the same rule, session and tool for this long (default 5 min) */
+  dedupeWindowMs?: number;
+  /** Send at most `maxAlerts` alerts per `windowMs`; the rest are dropped and counted (default 20 per minute) */
+  rateLimit?: { maxAlerts: number; windowMs: number };
+}
+
+/** A condition on ledger events. All given conditions must hold. */
+export interface AlertRule {
+  /** Identifies the rule in alerts and deduplication */
+  name: string;
+  /** Event types the rule looks at (default ['entry_appended']) */
+  events?: LedgerEventType[];
+  /** Entry actions, e.g. 'consent_rejected' */
+  actions?: string[];
+  /** Minimum risk level of the entry or consent request */
+  minRiskLevel?: RiskLevel;
+  /** Entry metadata values that must match, e.g. `{ blocked: true }` */
+  metadata?: Record<string, string | number | boolean>;
+  /** Only fire once this many matching events occur in one session within `windowMs` */
+  threshold?: { count: number; windowMs: number };
+  /** Default: from the risk level; 'critical' for chain-wide events */
+  severity?: AlertSeverity;
+}
+
+export type AlertSinkConfig =
+  | {
+      type: 'webhook';
+      url: string;
+      /** Sign each payload with HMAC-SHA256 (X-Air-Signature header) */
+      secret?: string;
+      headers?: Record<string, string>;
+      /** Abort a delivery after this many ms (default 10s) */
+      timeoutMs?: number;
+    }
+  | { type: 'file'; path: string }
+  | { type: 'stdout' }
+  | AlertSink;
+
 // ─── Risk Levels ─────────────────────────────────────────────────
 
 export type RiskLevel = 'critical' | 'high' | 'medium' | 'low' | 'none';
@@ -89,6 +430,8 @@ export const RISK_ORDER: Record<RiskLevel, number> = {
 
 // ─── Audit Chain ─────────────────────────────────────────────────
 
+export type SignatureAlgorithm = 'hmac-sha256' | 'ed25519';
+
 export interface AuditEntry {
   /** Unique ID for this entry */
   id: string;
@@ -96,16 +439,34 @@ export interface AuditEntry {
   sequence: number;
   /** SHA-256 hash of the entry content */
   hash: string;
+  /**
+   * Content hashing scheme: 2 = canonical JSON of all non-envelope fields.
+   * Absent on entries written before versioned hashing (legacy scheme 1)
+   */
+  hashVersion?: number;
   /** Hash of the previous entry (empty string for genesis) */
   prevHash: string;
-  /** HMAC-SHA256 signature */
+  /** Signature over sequence, id, hash and prevHash (hex) */
   signature: string;
+  /** Signature scheme (absent on entries written before Ed25519 support: HMAC) */
+  signatureAlgorithm?: SignatureAlgorithm;
+  /** ID of the signing key (Ed25519 entries) */
+  keyId?: string;
+  /** Base64 SPKI DER public key that verifies `signature` (Ed25519 entries) */
+  publicKey?: string;
   /** ISO timestamp */
   timestamp: string;
   /** What happened */
   action: string;
   /** Tool name if applicable */
   toolName?: string;
+  /** Agent session the action belongs to (older entries keep it in metadata) */
+  sessionId?: string;
+  /**
+   * Tool invocation the entry belongs to, shared by its consent,
+   * tool_call and tool_result entries
+   */
+  callId?: string;
   /** Risk level of the action */
   riskLevel: RiskLevel;
   /** Whether consent was required */
@@ -120,12 +481,399 @@ export interface AuditEntry {
   metadata: Record<string, unknown>;
 }
 
+/** Chain state a storage backend hands back when the ledger starts */
+export interface LedgerHead {
+  /** The most recent entries, oldest first (all retained entries when the limit is 0) */
+  entries: AuditEntry[];
+  /** Sequence of the last entry ever appended */
+  sequence: number;
+  /** Hash of that entry (undefined for an empty ledger) */
+  lastHash?: string;
+  checkpoints: ChainCheckpoint[];
+}
+
+/**
+ * Where an AuditLedger keeps its entries, checkpoints and signing keys.
+ * Chain logic, signing and retention stay in the ledger; a backend only
+ * stores and reads back what it is given.
+ */
+export interface LedgerStorage {
+  /** Resume from storage, returning up to `limit` recent entries (all when 0) */
+  load(limit: number): LedgerHead;
+  /**
+   * Newest stored sequence and hash, picking up entries other processes
+   * appended since this instance last read or wrote. Called before every
+   * append to a shared ledger, so it should be cheap when nothing changed
+   */
+  head(): Pick<LedgerHead, 'sequence' | 'lastHash'>;
+  /** Durably persist the next entry */
+  append(entry: AuditEntry): void;
+  /**
+   * Entries with fromSequence <= sequence <= toSequence, in order. `since`
+   * is a hint: entries older than it may be skipped, but need not be
+   */
+  scan(fromSequence: number, toSequence?: number, since?: Date): Iterable<AuditEntry>;
+  /** Replace the stored checkpoints */
+  saveCheckpoints(checkpoints: ChainCheckpoint[]): void;
+  /** Delete entries with sequence <= `sequence` once archived, always keeping the newest */
+  dropThrough(sequence: number): void;
+  /**
+   * Highest sequence <= `sequence` that dropThrough() removes exactly,
+   * for backends that delete in blocks (default: `sequence`)
+   */
+  archiveBoundary?(sequence: number): number;
+  /** The serialized signing key ring, if one was saved */
+  loadKeys(): string | undefined;
+  saveKeys(data: string): void;
+  /** Release handles */
+  close(): void;
+}
+
 export interface ChainVerification {
   valid: boolean;
   totalEntries: number;
   brokenAtSequence?: number;
   brokenAtId?: string;
   reason?: string;
+  /** First sequence whose linkage, hash and signature were checked */
+  verifiedFrom?: number;
+  /** Last sequence whose linkage, hash and signature were checked */
+  verifiedTo?: number;
+  /** Checkpoint the verified range was anchored to (absent when anchored at genesis) */
+  checkpoint?: ChainCheckpoint;
+  /**
+   * Latest verified RFC 3161 anchor: entries up to `sequence` existed by
+   * `genTime`. `untrusted` when no TSA trust anchor was configured, so
+   * the token was only checked against its own certificate
+   */
+  timestampAnchor?: { sequence: number; genTime: string; untrusted?: boolean };
+}
+
+/** Filters and pagination for AuditLedger.query(). All filters are ANDed. */
+export interface AuditQuery {
+  sessionId?: string;
+  /** Entries of one tool invocation */
+  callId?: string;
+  /** Tool name, or any of several */
+  toolName?: string | string[];
+  /** Action, or any of several */
+  action?: string | string[];
+  /** Inclusive lower bound on riskLevel */
+  minRiskLevel?: RiskLevel;
+  /** Inclusive upper bound on riskLevel */
+  maxRiskLevel?: RiskLevel;
+  injectionDetected?: boolean;
+  consentGranted?: boolean;
+  /** Inclusive lower bound on timestamp */
+  since?: string | Date;
+  /** Inclusive upper bound on timestamp */
+  until?: string | Date;
+  /** Inclusive lower bound on sequence */
+  fromSequence?: number;
+  /** Inclusive upper bound on sequence */
+  toSequence?: number;
+  /** Maximum entries per page (default 100) */
+  limit?: number;
+  /** `nextCursor` from the previous page */
+  cursor?: string;
+}
+
+export interface AuditQueryResult {
+  /** Matching entries in ascending sequence order */
+  entries: AuditEntry[];
+  /** Pass as `cursor` to fetch the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+/** Lifecycle of one tool invocation, from AuditLedger.getCallTrace() */
+export interface CallTrace {
+  callId: string;
+  toolName?: string;
+  sessionId?: string;
+  /**
+   * 'blocked' when consent was refused or timed out, 'completed' once
+   * the result was logged, otherwise 'in_progress'
+   */
+  status: 'in_progress' | 'blocked' | 'completed';
+  /** The consent decision, when approval was required */
+  consent?: AuditEntry;
+  /** The tool_call entry (absent when blocked) */
+  call?: AuditEntry;
+  /** The tool_result entry */
+  result?: AuditEntry;
+  /** Every entry for the invocation, in sequence order */
+  entries: AuditEntry[];
+}
+
+// ─── Ledger Events ───────────────────────────────────────────────
+
+/** An entry was signed and persisted by this process */
+export interface EntryAppendedEvent {
+  type: 'entry_appended';
+  timestamp: string;
+  entry: AuditEntry;
+}
+
+/** An `injection_detected` entry was appended */
+export interface InjectionDetectedEvent {
+  type: 'injection_detected';
+  timestamp: string;
+  entry: AuditEntry;
+}
+
+/** The consent gate asked the user to approve a tool call */
+export interface ConsentRequestedEvent {
+  type: 'consent_requested';
+  timestamp: string;
+  request: ConsentRequest;
+  sessionId?: string;
+}
+
+/** A consent request was approved, rejected or timed out */
+export interface ConsentResolvedEvent {
+  type: 'consent_resolved';
+  timestamp: string;
+  request: ConsentRequest;
+  /** The `consent_*` entry recording the decision */
+  entry: AuditEntry;
+}
+
+/** verify() found the chain broken (reported once per distinct failure) */
+export interface VerificationFailedEvent {
+  type: 'verification_failed';
+  timestamp: string;
+  verification: ChainVerification;
+}
+
+/** A batch could not be delivered to the gateway; it will be retried */
+export interface ForwardingFailedEvent {
+  type: 'forwarding_failed';
+  timestamp: string;
+  error: string;
+  outbox: OutboxStats;
+}
+
+export type LedgerEvent =
+  | EntryAppendedEvent
+  | InjectionDetectedEvent
+  | ConsentRequestedEvent
+  | ConsentResolvedEvent
+  | VerificationFailedEvent
+  | ForwardingFailedEvent;
+
+export type LedgerEventType = LedgerEvent['type'];
+
+/** The event interface for one event type */
+export type LedgerEventOf<K extends LedgerEventType> = Extract<LedgerEvent, { type: K }>;
+
+export type LedgerEventListener<E extends LedgerEvent = LedgerEvent> = (event: E) => void;
+
+/**
+ * Which events a subscriber receives. Session, tool and risk filters
+ * apply to events about an entry or consent request; chain-wide events
+ * (verification and forwarding failures) always pass them.
+ */
+export interface LedgerEventFilter {
+  /** Only these event types (default all) */
+  types?: LedgerEventType[];
+  sessionId?: string;
+  toolName?: string;
+  /** Minimum risk level */
+  minRiskLevel?: RiskLevel;
+}
+
+/** What a timeline event records, derived from the entry's action */
+export type TimelineEventKind =
+  | 'message'
+  | 'injection'
+  | 'llm_output'
+  | 'consent'
+  | 'tool_call'
+  | 'tool_result'
+  | 'other';
+
+/** One ledger entry placed on a session timeline */
+export interface TimelineEvent {
+  sequence: number;
+  entryId: string;
+  timestamp: string;
+  /** Milliseconds since the session's first entry */
+  offsetMs: number;
+  kind: TimelineEventKind;
+  action: string;
+  toolName?: string;
+  callId?: string;
+  riskLevel: RiskLevel;
+  /** Tool run time (tool_result entries) */
+  durationMs?: number;
+  /** Consent refused or timed out, or the message was blocked as an injection */
+  blocked: boolean;
+  /** One-line human-readable description */
+  summary: string;
+}
+
+/** Chain verification as it applies to one session's entries */
+export interface TimelineVerification {
+  /** Result of verifying the ledger's chain */
+  chainValid: boolean;
+  reason?: string;
+  brokenAtSequence?: number;
+  /** Session entries inside the range the verification covered and passed */
+  verifiedEntries: number;
+  /** Session entries outside it: trimmed from memory or past a break */
+  unverifiedEntries: number;
+}
+
+/** What an agent did in one session, in order, from AuditLedger.getSessionTimeline() */
+export interface SessionTimeline {
+  sessionId: string;
+  startedAt?: string;
+  endedAt?: string;
+  /** From the first to the last entry */
+  durationMs: number;
+  events: TimelineEvent[];
+  summary: {
+    entries: number;
+    toolCalls: number;
+    blockedActions: number;
+    injectionsDetected: number;
+    consentRequests: number;
+    highestRiskLevel: RiskLevel;
+    byRiskLevel: Record<RiskLevel, number>;
+    /** Sum of durations reported by tool results */
+    toolTimeMs: number;
+  };
+  verification: TimelineVerification;
+}
+
+/** Interchange formats supported by the audit exporters */
+export type AuditExportFormat = 'jsonl' | 'csv' | 'syslog' | 'otlp';
+
+/**
+ * Signed record of the chain head at a point where older entries were
+ * dropped from the ledger. Lets verify() anchor the retained window
+ * without the trimmed entries.
+ */
+export interface ChainCheckpoint {
+  /** Sequence of the last entry covered by the checkpoint */
+  sequence: number;
+  /** Hash of that entry — the prevHash expected of the next one */
+  hash: string;
+  /** Number of entries in the chain up to and including `sequence` */
+  count: number;
+  /** ISO timestamp */
+  timestamp: string;
+  /** Why the checkpoint was taken: in-memory trimming or archival */
+  reason: 'trim' | 'archive';
+  /** Signature over the fields above (hex) */
+  signature: string;
+  /** Signature scheme (absent means HMAC) */
+  signatureAlgorithm?: SignatureAlgorithm;
+  /** ID of the signing key (Ed25519 checkpoints) */
+  keyId?: string;
+}
+
+/** Description of an archive, recorded in its `archive_sealed` entry */
+export interface ArchiveSeal {
+  /** File name within the archive directory */
+  file: string;
+  firstSequence: number;
+  lastSequence: number;
+  count: number;
+  /** prevHash of the first archived entry */
+  prevHash: string;
+  /** Hash of the last archived entry */
+  lastHash: string;
+  firstTimestamp: string;
+  lastTimestamp: string;
+  /** SHA-256 of the compressed archive file (hex) */
+  sha256: string;
+  /** Size of the compressed archive file */
+  bytes: number;
+}
+
+export interface ArchiveInfo extends ArchiveSeal {
+  /** Sequence of the `archive_sealed` entry in the live chain */
+  sealSequence: number;
+  sealedAt: string;
+}
+
+export interface ArchiveVerification extends ChainVerification {
+  /** The seal the archive was checked against */
+  seal?: ArchiveSeal;
+}
+
+/** Contents of a `timestamp_anchor` entry's metadata */
+export interface TimestampAnchor {
+  /** TSA that issued the token */
+  tsaUrl: string;
+  /** Chain head sequence whose hash was timestamped */
+  anchoredSequence: number;
+  /** Hash of that entry — the token's message imprint */
+  anchoredHash: string;
+  /** TSA time from the token (ISO) */
+  genTime: string;
+  /** Token serial number (hex) */
+  serialNumber: string;
+  /** TSA policy OID */
+  policy: string;
+  /** DER time-stamp token (base64) */
+  token: string;
+}
+
+/** Contents of a `tree_head` entry's metadata */
+export interface TreeHead {
+  /** Leaf and node hashing scheme */
+  algorithm: 'rfc6962-sha256';
+  /** Sequence of the entry at leaf index 0 */
+  firstSequence: number;
+  /** Number of leaves the root covers */
+  treeSize: number;
+  /** Merkle root over the first `treeSize` leaves (hex) */
+  rootHash: string;
+}
+
+/**
+ * Proof that one entry is in the ledger, checkable with
+ * verifyInclusionProof() and the signing keys alone
+ */
+export interface InclusionProof {
+  /** The proven entry */
+  entry: AuditEntry;
+  /** Position of the entry's leaf in the tree */
+  leafIndex: number;
+  /** Tree size the proof is for */
+  treeSize: number;
+  /** Sibling hashes from the leaf up to the root (hex) */
+  auditPath: string[];
+  /** Signed `tree_head` entry whose root the path leads to */
+  treeHead: AuditEntry;
+}
+
+export interface InclusionVerification {
+  valid: boolean;
+  reason?: string;
+}
+
+/** One JSONL segment of an append-only ledger, as recorded in its manifest */
+export interface LedgerSegment {
+  /** File name relative to the segment directory */
+  file: string;
+  /** Sequence of the first entry in the segment (0 while empty) */
+  firstSequence: number;
+  /** Sequence of the last entry in the segment (0 while empty) */
+  lastSequence: number;
+  /** prevHash of the first entry — links the segment to its predecessor */
+  prevHash: string;
+  /** Hash of the last entry in the segment */
+  lastHash: string;
+  /** Number of entries in the segment */
+  count: number;
+  /** Size of the segment file in bytes */
+  bytes: number;
+  createdAt: string;
+  /** Set once the segment is rotated out and will no longer be written */
+  closedAt?: string;
 }
 
 // ─── Consent Gate ────────────────────────────────────────────────
@@ -136,11 +884,159 @@ export interface ConsentRequest {
   toolArgs: Record<string, unknown>;
   riskLevel: RiskLevel;
   reason: string;
+  /** Tool invocation waiting on the decision */
+  callId?: string;
+  /** Policy rule that required consent */
+  policyRule?: string;
+  /** Shell analyzer findings, shown in the consent message */
+  findings?: string[];
+  /** Distinct approvers needed (default 1) */
+  requiredApprovals?: number;
+  /** Responses so far, in order */
+  votes?: ConsentVote[];
   status: 'pending' | 'approved' | 'rejected' | 'timeout';
   createdAt: string;
   resolvedAt?: string;
 }
 
+/** One person's response to a consent request */
+export interface ConsentVote {
+  /** Who responded, when the channel identifies them */
+  approver?: string;
+  approved: boolean;
+  at: string;
+}
+
+/** Details of a consent response beyond approve/reject */
+export interface ConsentResponse {
+  /** Who responded; quorum approvals only count named, distinct approvers */
+  approver?: string;
+  /** Also create a standing grant (ignored for quorum requests) */
+  grant?: ConsentGrantSpec;
+}
+
+/** Contents of the shared consent queue file */
+export interface ConsentQueue {
+  pending: ConsentRequest[];
+  /** Consent ID → responses recorded out of band */
+  decisions: Record<string, Array<{ approved: boolean; decidedAt: string } & ConsentResponse>>;
+}
+
+/**
+ * What a standing approval covers, always within the session of the
+ * request it came from:
+ * - call: repeats of the exact call (same tool and arguments)
+ * - tool: any call to the tool
+ * - args: calls to the tool whose arguments match `args` globs
+ * - session: any call
+ */
+export type GrantScope = 'call' | 'tool' | 'args' | 'session';
+
+/** A standing approval as asked for in a reply */
+export interface ConsentGrantSpec {
+  scope: GrantScope;
+  /** Dotted argument path → glob, for the `args` scope */
+  args?: Record<string, string>;
+  /** Lifetime; defaults to `grants.defaultTtlMs` */
+  ttlMs?: number;
+  /** Calls the grant may approve */
+  maxUses?: number;
+}
+
+export interface ConsentGrant {
+  id: string;
+  scope: GrantScope;
+  /** Consent request whose approval created the grant */
+  consentId: string;
+  sessionId?: string;
+  /** Absent for the `session` scope */
+  toolName?: string;
+  /** Exact arguments (`call`) or argument globs (`args`) */
+  args?: Record<string, unknown>;
+  /** SHA-256 of the canonical original arguments, for the `call` scope */
+  argsDigest?: string;
+  /** Calls riskier than the originating request are not covered */
+  maxRiskLevel: RiskLevel;
+  createdAt: string;
+  expiresAt: string;
+  maxUses?: number;
+  uses: number;
+  revokedAt?: string;
+}
+
+// ─── Tool Risk Registry ──────────────────────────────────────────
+
+/** What a tool does to the world */
+export type ToolSideEffect =
+  | 'none'
+  | 'read'
+  | 'write'
+  | 'delete'
+  | 'execute'
+  | 'network'
+  | 'communication'
+  | 'deploy';
+
+/** Risk metadata declared for a tool, or for every tool matching a glob */
+export interface ToolRiskEntry {
+  /** Tool name, or a glob (`*` any characters, `?` one character) */
+  pattern: string;
+  riskLevel: RiskLevel;
+  sideEffect?: ToolSideEffect;
+  /** Whether the effect can be undone */
+  reversible?: boolean;
+  /** Whether data can leave the host */
+  dataEgress?: boolean;
+  /** Arguments carry a shell command, which is analyzed per call */
+  shellCommand?: boolean;
+  description?: string;
+}
+
+/** Where a tool's classification came from */
+export type ToolRiskSource = 'config' | 'registered' | 'builtin' | 'default';
+
+export interface RiskExplanation {
+  toolName: string;
+  riskLevel: RiskLevel;
+  source: ToolRiskSource;
+  /** The registry entry that matched; absent for the default */
+  entry?: ToolRiskEntry;
+  /** Analysis of the call's command, when it set riskLevel */
+  shell?: ShellAnalysis;
+  reason: string;
+}
+
+// ─── Shell Analysis ──────────────────────────────────────────────
+
+export type ShellFindingCategory =
+  | 'destructive'
+  | 'privilege'
+  | 'network'
+  | 'remote_code'
+  | 'outside_workspace'
+  | 'unparsed'
+  | 'opaque';
+
+export interface ShellFinding {
+  riskLevel: RiskLevel;
+  category: ShellFindingCategory;
+  message: string;
+}
+
+export interface ShellAnalysis {
+  /** Highest risk among the findings; 'low' when there are none */
+  riskLevel: RiskLevel;
+  findings: ShellFinding[];
+  /**
+   * Part of the command could not be analyzed (unparseable, or running
+   * code the analyzer cannot see into), so it should keep the tool's
+   * own risk level
+   */
+  opaque: boolean;
+  /** Program names of the simple commands found, in order */
+  commands: string[];
+}
+
 // ─── Data Vault ──────────────────────────────────────────────────
 
 export interface TokenizationPattern {
@@ -168,12 +1064,54 @@ export interface InjectionResult {
   blocked: boolean;
 }
 
+// ─── Alerting ────────────────────────────────────────────────────
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/** Notification sent to alert sinks */
+export interface Alert {
+  id: string;
+  /** Name of the rule that fired */
+  rule: string;
+  severity: AlertSeverity;
+  timestamp: string;
+  /** One-line human-readable description */
+  title: string;
+  event: LedgerEventType;
+  sessionId?: string;
+  toolName?: string;
+  action?: string;
+  riskLevel?: RiskLevel;
+  /** Ledger entry that triggered the alert */
+  entryId?: string;
+  sequence?: number;
+  /** Matching events in the rule's threshold window (1 without a threshold) */
+  count: number;
+  /** Repeats suppressed since the previous alert for the same rule, session and tool */
+  suppressed: number;
+}
+
+/** Delivers alerts somewhere; pass an object implementing it as a sink */
+export interface AlertSink {
+  send(alert: Alert): void | Promise<void>;
+}
+
+export interface AlertStats {
+  sent: number;
+  suppressed: number;
+  rateLimited: number;
+  failed: number;
+  lastError?: string;
+}
+
 // ─── OpenClaw Hook Events ────────────────────────────────────────
 
 export interface ToolCallEvent {
   toolName: string;
   args: Record<string, unknown>;
   sessionId: string;
+  /** Host's ID for this invocation (one is generated when absent) */
+  callId?: string;
   timestamp: string;
 }
 
@@ -184,6 +1122,12 @@ export interface ToolCallResult {
   reason?: string;
   /** Modified args (if the vault tokenized anything) */
   modifiedArgs?: Record<string, unknown>;
+  /** ID the invocation is audited under; pass it back on the ToolResultEvent */
+  callId?: string;
+  /** Consent policy rule that decided the call, when one matched */
+  policyRule?: string;
+  /** Standing approval that let the call through without asking */
+  grantId?: string;
 }
 
 export interface ToolResultEvent {
@@ -192,6 +1136,10 @@ export interface ToolResultEvent {
   result: unknown;
   durationMs: number;
   sessionId: string;
+  /** ID from the matching ToolCallEvent or ToolCallResult */
+  callId?: string;
+  /** Error message, when the tool failed */
+  error?: string;
   timestamp: string;
 }
 
@@ -207,6 +1155,8 @@ export interface MessageEvent {
   role: 'user' | 'assistant' | 'system';
   content: string;
   sessionId: string;
+  /** Sender, when the channel identifies one (needed for quorum approvals) */
+  userId?: string;
   timestamp: string;
 }
 